@@ -0,0 +1,67 @@
+import type { ModerationType } from "./types";
+
+// Decisions are persisted to public.moderation_decisions through the Supabase REST API.
+// The service role bypasses RLS; users and moderators can only read the table.
+
+export interface ModerationDecision {
+  // Chosen by the function, so a rejected image can be stored under it before the row exists
+  id: string;
+  user_id: string | null;
+  content_type: ModerationType;
+  verdict: 'approved' | 'rejected' | 'held';
+  reason: string | null;
+  provider: string;
+  content_hash: string;
+  // Review text as it was checked
+  content_text: string | null;
+  // Rejected image as it was checked, in the moderation-appeals bucket
+  image_path: string | null;
+}
+
+export interface DecisionStore {
+  // Whether a moderator overturned a rejection of this exact content for this user
+  hasOverturnedAppeal(userId: string, type: ModerationType, contentHash: string): Promise<boolean>;
+  record(decisions: ModerationDecision[]): Promise<void>;
+}
+
+export const createDecisionStore = (supabaseUrl: string, serviceRoleKey: string): DecisionStore => {
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${supabaseUrl}${path}`, {
+      ...init,
+      headers: {
+        apikey: serviceRoleKey,
+        Authorization: `Bearer ${serviceRoleKey}`,
+        ...init.headers,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Supabase request to ${path} failed with ${response.status}: ${await response.text()}`);
+    }
+    return response;
+  };
+
+  return {
+    async hasOverturnedAppeal(userId, type, contentHash) {
+      const params = new URLSearchParams({
+        select: 'id,moderation_decisions!inner(id)',
+        status: 'eq.overturned',
+        user_id: `eq.${userId}`,
+        'moderation_decisions.content_type': `eq.${type}`,
+        'moderation_decisions.content_hash': `eq.${contentHash}`,
+        limit: '1',
+      });
+      const response = await request(`/rest/v1/moderation_appeals?${params}`);
+      const appeals: unknown[] = await response.json();
+      return appeals.length > 0;
+    },
+
+    async record(decisions) {
+      if (decisions.length === 0) return;
+      await request('/rest/v1/moderation_decisions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Prefer: 'return=minimal' },
+        body: JSON.stringify(decisions),
+      });
+    },
+  };
+};
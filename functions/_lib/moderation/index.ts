@@ -0,0 +1,186 @@
+import { createDecisionStore, type DecisionStore, type ModerationDecision } from "./decisions";
+import { HELD_VERDICT, createManualReviewProvider } from "./manualReview";
+import { createOpenAIProvider } from "./openai";
+import { createImageStore, type ImageStore } from "./storage";
+import { signModerationToken } from "./token";
+import { DEFAULT_BLOCKED_WORDS, createWordListProvider } from "./wordList";
+import {
+  RateLimitError,
+  type ModerationFailurePolicy,
+  type ModerationInput,
+  type ModerationProvider,
+  type ModerationType,
+  type ModerationVerdict,
+} from "./types";
+
+export * from "./types";
+export type { DecisionStore, ModerationDecision } from "./decisions";
+export type { ImageStore } from "./storage";
+export { getImageContentType } from "./storage";
+export { dataUriToBytes, sha256Hex } from "./token";
+export { createManualReviewProvider, createOpenAIProvider, createWordListProvider };
+
+export interface ModerationEnv {
+  OPENAI_API_KEY?: string;
+  // Comma-separated providers run in order: openai, word_list, manual_review. Defaults to openai
+  MODERATION_PROVIDERS?: string;
+  // approve, reject or queue when no provider reaches a verdict. Defaults to queue
+  MODERATION_ON_FAILURE?: string;
+  // Extra comma-separated words for the word list, using the DEFAULT_BLOCKED_WORDS syntax
+  MODERATION_BLOCKED_WORDS?: string;
+  // Signs verdicts; the database holds the same value in the vault as moderation_token_secret
+  MODERATION_TOKEN_SECRET?: string;
+  // Decisions are logged and photos uploaded with the service role. Without both, decisions only
+  // reach the function logs and photos can't be checked
+  SUPABASE_URL?: string;
+  SUPABASE_SERVICE_ROLE_KEY?: string;
+}
+
+export interface ModerationOutcome extends ModerationVerdict {
+  // Provider that decided, or the failure policy that stood in for one
+  provider: string;
+}
+
+export interface SignedModerationOutcome extends ModerationOutcome {
+  contentHash: string;
+  // Approved or held photos, as uploaded by the function; the image row has to use this URL
+  url?: string;
+  // Only for approved or held content; review and image rows are rejected without one
+  token?: string;
+  // Row in public.moderation_decisions; a rejection is appealed by this id
+  decisionId?: string;
+}
+
+// Content a moderator cleared on appeal isn't sent to the providers again
+export const APPEAL_OUTCOME: ModerationOutcome = { safe: true, reason: '', provider: 'appeal' };
+
+// Deployment misconfiguration; reported to the client as a server error
+export class ModerationConfigError extends Error {}
+
+const FAILURE_POLICIES: ModerationFailurePolicy[] = ['approve', 'reject', 'queue'];
+
+export const createModerationProviders = (env: ModerationEnv): ModerationProvider[] => {
+  const names = (env.MODERATION_PROVIDERS || 'openai').split(',').map((name) => name.trim()).filter(Boolean);
+
+  return names.map((name) => {
+    switch (name) {
+      case 'openai':
+        if (!env.OPENAI_API_KEY) throw new ModerationConfigError('OPENAI_API_KEY is not configured');
+        return createOpenAIProvider(env.OPENAI_API_KEY);
+      case 'word_list':
+        return createWordListProvider([
+          ...DEFAULT_BLOCKED_WORDS,
+          ...(env.MODERATION_BLOCKED_WORDS ?? '').split(','),
+        ]);
+      case 'manual_review':
+        return createManualReviewProvider();
+      default:
+        throw new ModerationConfigError(`Unknown moderation provider "${name}"`);
+    }
+  });
+};
+
+export const getFailurePolicy = (env: ModerationEnv): ModerationFailurePolicy => {
+  const policy = env.MODERATION_ON_FAILURE || 'queue';
+  if (!FAILURE_POLICIES.includes(policy as ModerationFailurePolicy)) {
+    throw new ModerationConfigError(`Unknown moderation failure policy "${policy}"`);
+  }
+  return policy as ModerationFailurePolicy;
+};
+
+export const getTokenSecret = (env: ModerationEnv): string => {
+  if (!env.MODERATION_TOKEN_SECRET) throw new ModerationConfigError('MODERATION_TOKEN_SECRET is not configured');
+  return env.MODERATION_TOKEN_SECRET;
+};
+
+export const getDecisionStore = (env: ModerationEnv): DecisionStore | null => {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) return null;
+  return createDecisionStore(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
+};
+
+export const getImageStore = (env: ModerationEnv): ImageStore => {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new ModerationConfigError('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are needed to store checked photos');
+  }
+  return createImageStore(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
+};
+
+export const toDecision = (
+  userId: string | null,
+  type: ModerationType,
+  outcome: SignedModerationOutcome,
+  text?: string
+): ModerationDecision => ({
+  id: crypto.randomUUID(),
+  user_id: userId,
+  content_type: type,
+  verdict: outcome.held ? 'held' : outcome.safe ? 'approved' : 'rejected',
+  reason: outcome.reason || null,
+  provider: outcome.provider,
+  content_hash: outcome.contentHash,
+  content_text: text ?? null,
+  image_path: null,
+});
+
+export const signOutcome = async (
+  secret: string,
+  userId: string,
+  type: ModerationType,
+  contentHash: string,
+  outcome: ModerationOutcome,
+  url?: string
+): Promise<SignedModerationOutcome> => {
+  if (!outcome.safe && !outcome.held) return { ...outcome, contentHash };
+  const token = await signModerationToken(secret, {
+    typ: type,
+    sha: contentHash,
+    verdict: outcome.held ? 'held' : 'approved',
+    sub: userId,
+    ...(url && { url }),
+  });
+  return { ...outcome, contentHash, url, token };
+};
+
+const applyFailurePolicy = (policy: ModerationFailurePolicy): ModerationOutcome => {
+  switch (policy) {
+    case 'approve':
+      return { safe: true, reason: 'Moderation check failed, approved by default.', provider: 'failure_policy' };
+    case 'reject':
+      return { safe: false, reason: "This couldn't be checked right now. Please try again later.", provider: 'failure_policy' };
+    case 'queue':
+      return { ...HELD_VERDICT, provider: 'failure_policy' };
+  }
+};
+
+/**
+ * Run the providers in order. The first rejection or hold wins; otherwise every provider
+ * able to judge the content has to approve it. If one of them failed, or none could judge
+ * it at all, the failure policy decides. Rate limits are rethrown for the caller.
+ */
+export const moderate = async (
+  providers: ModerationProvider[],
+  input: ModerationInput,
+  onFailure: ModerationFailurePolicy
+): Promise<ModerationOutcome> => {
+  let approvedBy: string | null = null;
+  let failed = false;
+
+  for (const provider of providers) {
+    let verdict: ModerationVerdict | null;
+    try {
+      verdict = await provider.moderate(input);
+    } catch (error) {
+      if (error instanceof RateLimitError) throw error;
+      console.error(`Moderation provider ${provider.name} failed:`, error);
+      failed = true;
+      continue;
+    }
+
+    if (!verdict) continue;
+    if (!verdict.safe) return { ...verdict, provider: provider.name };
+    approvedBy ??= provider.name;
+  }
+
+  if (failed || !approvedBy) return applyFailurePolicy(onFailure);
+  return { safe: true, reason: '', provider: approvedBy };
+};
@@ -0,0 +1,15 @@
+import type { ModerationProvider, ModerationVerdict } from "./types";
+
+export const HELD_VERDICT: ModerationVerdict = {
+  safe: false,
+  held: true,
+  reason: "This couldn't be checked automatically, so a moderator will review it first.",
+};
+
+// Holds everything for a person to look at; also the 'queue' outcome when other providers fail
+export const createManualReviewProvider = (): ModerationProvider => ({
+  name: 'manual_review',
+  async moderate() {
+    return HELD_VERDICT;
+  },
+});
@@ -0,0 +1,124 @@
+import {
+  ModerationUnavailableError,
+  RateLimitError,
+  type ModerationInput,
+  type ModerationProvider,
+  type ModerationType,
+  type ModerationVerdict,
+} from "./types";
+
+const REVIEW_SYSTEM_PROMPT = `You are a content moderator for a restaurant review site.
+Analyze the user's text and image for family-friendliness.
+
+- Text Rules: Flag any profanity, hate speech, or slurs. Be strict.
+- Image Rules: Flag content that is not family-friendly. This includes violence, nudity, offensive symbols, and Public Displays of Affection (PDA) like kissing. Photos of food and restaurant environments are safe.
+
+Output only a JSON object: { "safe": boolean, "reason": "string" }.
+If safe, reason is "". If unsafe, use a generic reason like "Review contains inappropriate language" or "Image is too explicit."`;
+
+const IMAGE_ONLY_SYSTEM_PROMPT = `You are an image content moderator for a restaurant review site.
+Analyze the user's image to ensure it is family-friendly.
+
+- Rules: Flag content that is not family-friendly. This includes violence, nudity, offensive symbols, and Public Displays of Affection (PDA) like kissing.
+- Safe Content: Photos of food, drinks, and restaurant environments are generally safe.
+
+Output only a JSON object: { "safe": boolean, "reason": "string" }.
+If safe, reason is "". If unsafe, use the generic reason "Image is too explicit."`;
+
+const AVATAR_SYSTEM_PROMPT = `You are an image content moderator for user avatars.
+Analyze the user's image to ensure it is family-friendly and appropriate.
+
+- Rules: Flag nudity, violence, gore, hate symbols, or other offensive content.
+- Safe Content: Normal photos of people, landscapes, or abstract images are safe.
+
+Output only a JSON object: { "safe": boolean, "reason": "string" }.
+If safe, reason is "". If unsafe, provide a brief, user-facing explanation.
+Example unsafe reason: "Avatar image is inappropriate."`;
+
+const SYSTEM_PROMPTS: Record<ModerationType, string> = {
+  review: REVIEW_SYSTEM_PROMPT,
+  image_only: IMAGE_ONLY_SYSTEM_PROMPT,
+  avatar: AVATAR_SYSTEM_PROMPT,
+};
+
+const buildUserContent = ({ type, text, imageBase64 }: ModerationInput): unknown[] => {
+  const userContent: unknown[] = [];
+  if (type === 'review' && text) {
+    userContent.push({
+      type: 'text',
+      text: `Analyze this review for profanity and family-friendliness:\n\n"${text}"`
+    });
+  } else {
+    userContent.push({ type: 'text', text: 'Analyze this image for family-friendliness.' });
+  }
+
+  if (imageBase64) {
+    userContent.push({
+      type: 'image_url',
+      image_url: { url: imageBase64 }
+    });
+  }
+  return userContent;
+};
+
+// Chat completions with a JSON verdict; judges text and images
+export const createOpenAIProvider = (apiKey: string, model = 'gpt-4o-mini'): ModerationProvider => ({
+  name: 'openai',
+  async moderate(input) {
+    console.log('Calling OpenAI for moderation...');
+
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPTS[input.type] },
+          { role: 'user', content: buildUserContent(input) }
+        ],
+        max_tokens: 200,
+        temperature: 0.1,
+        response_format: { type: 'json_object' }
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('OpenAI API error:', response.status, errorText);
+
+      if (response.status === 429) throw new RateLimitError('OpenAI rate limit reached');
+      throw new ModerationUnavailableError(`OpenAI returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      console.error('No content in AI response:', data);
+      throw new ModerationUnavailableError('OpenAI returned no verdict');
+    }
+
+    console.log('Moderation raw result:', content);
+
+    let jsonContent = content.trim();
+    if (jsonContent.startsWith('```json')) {
+      jsonContent = jsonContent.slice(7, -3).trim();
+    } else if (jsonContent.startsWith('```')) {
+      jsonContent = jsonContent.slice(3, -3).trim();
+    }
+
+    let verdict: Partial<ModerationVerdict>;
+    try {
+      verdict = JSON.parse(jsonContent);
+    } catch {
+      throw new ModerationUnavailableError('OpenAI returned an unreadable verdict');
+    }
+    if (typeof verdict.safe !== 'boolean') {
+      throw new ModerationUnavailableError('OpenAI returned an unreadable verdict');
+    }
+    return { safe: verdict.safe, reason: verdict.reason ?? '' };
+  },
+});
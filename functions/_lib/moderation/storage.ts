@@ -0,0 +1,65 @@
+// Photos that pass moderation (or are held for a moderator) are uploaded by the function
+// itself, so the stored file is exactly the one that was checked. They go under a folder
+// that isn't the user's, so storage policies don't let them delete or replace it.
+// Rejected images are kept the same way for appeals, so a moderator sees what was blocked.
+
+export const MODERATED_IMAGES_BUCKET = 'restaurant-images';
+
+// Private; photos of held reviews wait here, at the path they'll have in
+// MODERATED_IMAGES_BUCKET, until a moderator releases the review
+export const HELD_IMAGES_BUCKET = 'held-review-images';
+
+// Private; only moderators can read it
+export const APPEAL_IMAGES_BUCKET = 'moderation-appeals';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+// Content type of a data URI, if it's an image type the site accepts
+export const getImageContentType = (dataUri: string): string | null => {
+  const contentType = dataUri.match(/^data:([^;,]+)[;,]/)?.[1]?.toLowerCase();
+  return contentType && contentType in IMAGE_EXTENSIONS ? contentType : null;
+};
+
+export interface ImageStore {
+  // Returns the public URL of the new object; held photos only serve from it once released
+  uploadModerated(userId: string, bytes: Uint8Array, contentType: string, held: boolean): Promise<string>;
+  // Stores a rejected image as <user id>/<decision id>; returns that path
+  keepForAppeal(userId: string, decisionId: string, bytes: Uint8Array, contentType: string): Promise<string>;
+}
+
+export const createImageStore = (supabaseUrl: string, serviceRoleKey: string): ImageStore => {
+  const upload = async (bucket: string, path: string, bytes: Uint8Array, contentType: string) => {
+    const response = await fetch(`${supabaseUrl}/storage/v1/object/${bucket}/${path}`, {
+      method: 'POST',
+      headers: {
+        apikey: serviceRoleKey,
+        Authorization: `Bearer ${serviceRoleKey}`,
+        'Content-Type': contentType,
+        'Cache-Control': 'max-age=3600',
+      },
+      body: bytes,
+    });
+    if (!response.ok) {
+      throw new Error(`Uploading ${bucket}/${path} failed with ${response.status}: ${await response.text()}`);
+    }
+  };
+
+  return {
+    async uploadModerated(userId, bytes, contentType, held) {
+      const path = `moderated/${userId}/${crypto.randomUUID()}.${IMAGE_EXTENSIONS[contentType]}`;
+      await upload(held ? HELD_IMAGES_BUCKET : MODERATED_IMAGES_BUCKET, path, bytes, contentType);
+      return `${supabaseUrl}/storage/v1/object/public/${MODERATED_IMAGES_BUCKET}/${path}`;
+    },
+
+    async keepForAppeal(userId, decisionId, bytes, contentType) {
+      const path = `${userId}/${decisionId}`;
+      await upload(APPEAL_IMAGES_BUCKET, path, bytes, contentType);
+      return path;
+    },
+  };
+};
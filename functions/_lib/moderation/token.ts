@@ -0,0 +1,59 @@
+import type { ModerationType } from "./types";
+
+// Signed verdicts: base64url(JSON payload) + "." + base64url(HMAC-SHA256(secret, first part)).
+// public.use_moderation_token checks them in the database, where review and image rows are
+// only accepted with a valid, unused token for the exact content that was moderated.
+
+export const MODERATION_TOKEN_TTL_SECONDS = 15 * 60;
+
+export interface ModerationTokenPayload {
+  typ: ModerationType;
+  // Hex SHA-256 of the review text (UTF-8) or of the image bytes
+  sha: string;
+  verdict: 'approved' | 'held';
+  // User the content was checked for; only their own rows accept the token
+  sub: string;
+  // Public URL of the photo the function uploaded; image rows must use exactly this URL
+  url?: string;
+  // Token id; the database accepts each token once per table
+  jti: string;
+  // Unix seconds
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const sha256Hex = async (data: string | Uint8Array): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? encoder.encode(data) : data));
+
+// Images arrive as data URIs; the hash covers the decoded file bytes, which is what gets uploaded
+export const dataUriToBytes = (dataUri: string): Uint8Array => {
+  const base64 = dataUri.slice(dataUri.indexOf(',') + 1);
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+};
+
+export const signModerationToken = async (
+  secret: string,
+  payload: Omit<ModerationTokenPayload, 'jti' | 'exp'>
+): Promise<string> => {
+  const body = toBase64Url(encoder.encode(JSON.stringify({
+    ...payload,
+    jti: crypto.randomUUID(),
+    exp: Math.floor(Date.now() / 1000) + MODERATION_TOKEN_TTL_SECONDS,
+  })));
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+};
@@ -0,0 +1,32 @@
+export type ModerationType = 'review' | 'image_only' | 'avatar';
+
+export interface ModerationInput {
+  type: ModerationType;
+  text?: string;
+  imageBase64?: string;
+}
+
+export interface ModerationVerdict {
+  safe: boolean;
+  reason: string;
+  // Nobody could decide automatically; the content waits for a moderator
+  held?: boolean;
+}
+
+export interface ModerationProvider {
+  name: string;
+  /**
+   * Judge the content, or return null when this provider can't judge it
+   * (e.g. a word list given an image). Throws ModerationUnavailableError when
+   * the provider should have been able to decide but failed.
+   */
+  moderate(input: ModerationInput): Promise<ModerationVerdict | null>;
+}
+
+// What to do when no provider could reach a verdict
+export type ModerationFailurePolicy = 'approve' | 'reject' | 'queue';
+
+export class ModerationUnavailableError extends Error {}
+
+// Upstream rate limiting; answered with a 429 so the client can retry rather than going through the failure policy
+export class RateLimitError extends ModerationUnavailableError {}
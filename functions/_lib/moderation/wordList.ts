@@ -0,0 +1,68 @@
+import type { ModerationProvider } from "./types";
+
+// Whole words only; a trailing * also matches words starting with the stem ("fuck*" matches "fucking").
+// Exact forms are used where a stem would catch ordinary words ("cock" vs "cocktail", "shit" vs "shitake").
+export const DEFAULT_BLOCKED_WORDS = [
+  // Profanity
+  'fuck*', 'motherfuck*', 'shit', 'shits', 'shitty', 'shitting', 'shite', 'bullshit',
+  'bitch*', 'cunt*', 'asshole*', 'bastard*', 'dick', 'dickhead*', 'cock', 'cocksucker*',
+  'prick', 'twat*', 'wank*', 'slut*', 'whore*', 'douche*',
+  // Slurs
+  'nigger*', 'nigga*', 'faggot*', 'fag', 'fags', 'retard', 'retards', 'retarded', 'spic', 'spics',
+  'kike', 'kikes', 'chink', 'chinks', 'gook', 'gooks', 'coon', 'coons', 'wetback*', 'tranny', 'trannies',
+  'paki', 'pakis', 'towelhead*', 'raghead*', 'sandnigger*', 'muzzie*',
+];
+
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i',
+};
+
+// Stretched words ("fuuuck") are compared with repeated letters collapsed on both sides.
+// Only words with a run of three or more letters are collapsed, so a plain "cons" never matches "coons"
+const isStretched = (word: string) => /(.)\1\1/.test(word);
+const squeeze = (word: string) => word.replace(/(.)\1+/g, '$1');
+
+export const normalizeText = (text: string): string[] =>
+  text
+    // Reviews arrive as rich-text HTML
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;|&amp;|&lt;|&gt;|&quot;|&#39;/g, ' ')
+    .toLowerCase()
+    .replace(/[013457@$!]/g, (c) => LEET_SUBSTITUTIONS[c])
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+
+/**
+ * Deterministic profanity and slur check against a word list. Needs no network, so it
+ * works offline and in tests. Only judges text; images are left to other providers.
+ */
+export const createWordListProvider = (words: string[] = DEFAULT_BLOCKED_WORDS): ModerationProvider => {
+  const exact = new Set<string>();
+  const stems: string[] = [];
+  for (const word of words) {
+    const entry = word.trim().toLowerCase();
+    if (!entry) continue;
+    if (entry.endsWith('*')) stems.push(entry.slice(0, -1));
+    else exact.add(entry);
+  }
+  const squeezedExact = new Set([...exact].map(squeeze));
+  const squeezedStems = stems.map(squeeze);
+
+  const isBlocked = (token: string) => {
+    if (exact.has(token) || stems.some((stem) => token.startsWith(stem))) return true;
+    if (!isStretched(token)) return false;
+    const squeezed = squeeze(token);
+    return squeezedExact.has(squeezed) || squeezedStems.some((stem) => squeezed.startsWith(stem));
+  };
+
+  return {
+    name: 'word_list',
+    async moderate({ type, text }) {
+      if (type !== 'review' || !text) return null;
+
+      return normalizeText(text).some(isBlocked)
+        ? { safe: false, reason: 'Review contains inappropriate language' }
+        : { safe: true, reason: '' };
+    },
+  };
+};
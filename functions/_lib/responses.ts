@@ -0,0 +1,15 @@
+// JSON envelope shared by all Pages functions: { success: true, data } or { success: false, error: { reason } }
+
+export const createErrorResponse = (reason: string, status: number, headers: HeadersInit) => {
+  return new Response(
+    JSON.stringify({ success: false, error: { reason } }),
+    { status, headers: { ...headers, 'Content-Type': 'application/json' } }
+  );
+};
+
+export const createSuccessResponse = (data: unknown, headers: HeadersInit) => {
+  return new Response(
+    JSON.stringify({ success: true, data }),
+    { headers: { ...headers, 'Content-Type': 'application/json' } }
+  );
+};
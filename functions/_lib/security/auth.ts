@@ -0,0 +1,139 @@
+// Supabase access tokens are JWTs, verified locally without a round trip to Supabase Auth.
+// Projects on asymmetric signing keys (ES256 or RS256) publish their public keys as a JWKS;
+// older projects sign with the shared HS256 JWT secret.
+
+export interface SupabaseJwtClaims {
+  sub: string;
+  role: string;
+  // Unix seconds
+  exp: number;
+  // <project url>/auth/v1
+  iss: string;
+  aud: string | string[];
+}
+
+export interface JwtVerificationKeys {
+  // Legacy HS256 JWT secret
+  secret?: string;
+  // e.g. https://<project>.supabase.co/auth/v1/.well-known/jwks.json
+  jwksUrl?: string;
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+type PublicJwk = JsonWebKey & { kid?: string };
+
+const ASYMMETRIC_ALGORITHMS: Record<string, EcKeyImportParams | RsaHashedImportParams> = {
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' },
+  RS256: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+};
+
+// Supabase rotates keys rarely and keeps the old one published for a while
+const JWKS_TTL_MS = 10 * 60 * 1000;
+// An unknown kid refetches the keys, but not more often than this
+const JWKS_MIN_REFETCH_MS = 60 * 1000;
+
+const encoder = new TextEncoder();
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+const decodeJson = (value: string): unknown => {
+  try {
+    return JSON.parse(new TextDecoder().decode(fromBase64Url(value)));
+  } catch {
+    return null;
+  }
+};
+
+// One per isolate, so the keys are fetched once rather than on every request
+let jwksCache: { url: string; keys: PublicJwk[]; fetchedAt: number } | null = null;
+
+const getJwk = async (jwksUrl: string, kid: string | undefined): Promise<PublicJwk | null> => {
+  const now = Date.now();
+  const find = () => jwksCache?.keys.find((key) => key.kid === kid) ?? null;
+  const age = jwksCache?.url === jwksUrl ? now - jwksCache.fetchedAt : Infinity;
+
+  if (age < JWKS_TTL_MS && (find() || age < JWKS_MIN_REFETCH_MS)) return find();
+
+  const response = await fetch(jwksUrl);
+  if (!response.ok) throw new Error(`Fetching ${jwksUrl} failed with ${response.status}`);
+  const { keys }: { keys: PublicJwk[] } = await response.json();
+  jwksCache = { url: jwksUrl, keys, fetchedAt: now };
+  return find();
+};
+
+const verifySignature = async (
+  header: JwtHeader,
+  signingInput: string,
+  signature: Uint8Array,
+  keys: JwtVerificationKeys
+): Promise<boolean> => {
+  if (header.alg === 'HS256') {
+    if (!keys.secret) return false;
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(keys.secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    return crypto.subtle.verify('HMAC', key, signature, encoder.encode(signingInput));
+  }
+
+  const algorithm = header.alg ? ASYMMETRIC_ALGORITHMS[header.alg] : undefined;
+  if (!algorithm || !keys.jwksUrl) return false;
+
+  const jwk = await getJwk(keys.jwksUrl, header.kid);
+  if (!jwk) return false;
+
+  const key = await crypto.subtle.importKey('jwk', jwk, algorithm, false, ['verify']);
+  // JWS ES256 signatures are raw r || s, which is the format WebCrypto expects
+  const params = algorithm.name === 'ECDSA' ? { name: 'ECDSA', hash: 'SHA-256' } : algorithm;
+  return crypto.subtle.verify(params, key, signature, encoder.encode(signingInput));
+};
+
+export const getBearerToken = (request: Request): string | null =>
+  request.headers.get('Authorization')?.match(/^Bearer (.+)$/i)?.[1] ?? null;
+
+// Supabase Auth puts the signed-in audience on user access tokens
+const AUTHENTICATED_AUDIENCE = 'authenticated';
+
+/**
+ * Returns the claims of a valid, unexpired token for a signed-in user, or null.
+ * The anon key is a valid JWT too, but its role isn't "authenticated". Tokens from
+ * another project signed with the same key are refused by the issuer check.
+ * @param issuer - The project's Auth URL, e.g. https://<project>.supabase.co/auth/v1
+ */
+export const verifySupabaseJwt = async (
+  token: string,
+  keys: JwtVerificationKeys,
+  issuer: string
+): Promise<SupabaseJwtClaims | null> => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const decodedHeader = decodeJson(header) as JwtHeader | null;
+  if (!decodedHeader) return null;
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = fromBase64Url(signature);
+  } catch {
+    return null;
+  }
+
+  const valid = await verifySignature(decodedHeader, `${header}.${payload}`, signatureBytes, keys);
+  if (!valid) return null;
+
+  const claims = decodeJson(payload) as Partial<SupabaseJwtClaims> | null;
+  if (!claims || typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+  if (claims.role !== 'authenticated' || claims.exp <= Date.now() / 1000) return null;
+  if (claims.iss !== issuer) return null;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(AUTHENTICATED_AUDIENCE)) return null;
+  return claims as SupabaseJwtClaims;
+};
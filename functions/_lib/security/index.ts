@@ -0,0 +1,188 @@
+import { createErrorResponse } from "../responses";
+import { getBearerToken, verifySupabaseJwt } from "./auth";
+import {
+  createKvRateLimitStore,
+  createMemoryRateLimitStore,
+  type RateLimitStore,
+  type TokenBucket,
+} from "./rateLimit";
+
+export * from "./auth";
+export * from "./rateLimit";
+
+export interface SecurityEnv {
+  // Comma-separated origins allowed besides the site's own, e.g. http://localhost:8080 for the Vite dev server
+  ALLOWED_ORIGINS?: string;
+  // Issuer of the project's access tokens; those signed with asymmetric keys are checked
+  // against the keys it publishes
+  SUPABASE_URL?: string;
+  // Only for projects still signing access tokens with the legacy HS256 JWT secret
+  SUPABASE_JWT_SECRET?: string;
+  // Rate limit buckets (see wrangler.toml); without this binding they're kept in isolate memory
+  RATE_LIMIT_KV?: KVNamespace;
+}
+
+// What the guard leaves on context.data for the handlers after it
+export type SecurityData = {
+  // Verified Supabase user, or null for signed-out requests
+  userId: string | null;
+  corsHeaders: Record<string, string>;
+};
+
+export interface GuardOptions {
+  // Prefixes rate limit keys so routes don't share buckets
+  name: string;
+  // Methods the route answers, for CORS preflights
+  methods: string[];
+  // Refuse requests without a valid Supabase access token
+  requireAuth?: boolean;
+  maxBodyBytes?: number;
+  rateLimits?: {
+    ip?: TokenBucket;
+    // Only applies to signed-in requests
+    user?: TokenBucket;
+  };
+}
+
+// Decoded size of a base64 data URI, without decoding it
+export const getDataUriByteLength = (dataUri: string): number => {
+  const base64 = dataUri.slice(dataUri.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+};
+
+// Trusts Content-Length when it's sent; otherwise counts a copy of the body as it streams
+// in, stopping as soon as it passes the limit rather than reading all of it
+const isBodyTooLarge = async (request: Request, maxBytes: number): Promise<boolean> => {
+  const declared = request.headers.get('Content-Length');
+  if (declared !== null && declared.trim() !== '' && Number.isFinite(Number(declared))) {
+    return Number(declared) > maxBytes;
+  }
+
+  const reader = request.clone().body?.getReader();
+  if (!reader) return false;
+
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return false;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      // Cancelling one branch of a cloned body only settles once the other is cancelled too
+      void reader.cancel();
+      return true;
+    }
+  }
+};
+
+// One per isolate, so buckets last between requests when running locally
+let memoryStore: RateLimitStore | null = null;
+
+const getRateLimitStore = (env: SecurityEnv): RateLimitStore => {
+  if (env.RATE_LIMIT_KV) return createKvRateLimitStore(env.RATE_LIMIT_KV);
+  if (!memoryStore) {
+    console.warn('RATE_LIMIT_KV is not bound; rate limits are kept per isolate');
+    memoryStore = createMemoryRateLimitStore();
+  }
+  return memoryStore;
+};
+
+// Reading a response is safe; anything else has to come from the site itself
+const SAFE_METHODS = ['GET', 'HEAD'];
+
+/**
+ * Middleware for a Pages function route: `export const onRequestPost = [createGuard(...), handler]`,
+ * and `export const onRequestOptions = createGuard(...)` for preflights. Checks, in order, the
+ * origin, the body size, the per-IP limit, the access token and the per-user limit.
+ */
+export const createGuard = (options: GuardOptions): PagesFunction<SecurityEnv, string, SecurityData> => {
+  return async (context) => {
+    const { request, env } = context;
+
+    // Browsers send Origin with every POST and preflight, so state-changing requests without
+    // one aren't from our frontend. Same-origin GETs usually come without it
+    const origin = request.headers.get('Origin');
+    const allowedOrigins = [
+      new URL(request.url).origin,
+      ...(env.ALLOWED_ORIGINS ?? '').split(',').map((entry) => entry.trim()).filter(Boolean),
+    ];
+    if (origin ? !allowedOrigins.includes(origin) : !SAFE_METHODS.includes(request.method)) {
+      return createErrorResponse('Requests from this origin are not allowed.', 403, { Vary: 'Origin' });
+    }
+
+    const corsHeaders: Record<string, string> = {
+      ...(origin && { 'Access-Control-Allow-Origin': origin }),
+      'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      Vary: 'Origin',
+    };
+
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        headers: { ...corsHeaders, 'Access-Control-Allow-Methods': [...options.methods, 'OPTIONS'].join(', ') },
+      });
+    }
+
+    if (options.maxBodyBytes && (await isBodyTooLarge(request, options.maxBodyBytes))) {
+      return createErrorResponse('The request is too large.', 413, corsHeaders);
+    }
+
+    const store = getRateLimitStore(env);
+    // Fails closed: the limits are what keeps the route's upstream costs in check
+    const isLimited = async (key: string, bucket: TokenBucket) => {
+      try {
+        const { allowed, retryAfter } = await store.take(`${options.name}:${key}`, bucket);
+        return allowed
+          ? null
+          : createErrorResponse('Too many requests. Please try again in a moment.', 429, {
+              ...corsHeaders,
+              'Retry-After': String(retryAfter),
+            });
+      } catch (error) {
+        console.error('Rate limit check failed:', error);
+        return createErrorResponse('Please try again in a moment.', 503, corsHeaders);
+      }
+    };
+
+    if (options.rateLimits?.ip) {
+      const ip = request.headers.get('CF-Connecting-IP') ?? 'unknown';
+      const limited = await isLimited(`ip:${ip}`, options.rateLimits.ip);
+      if (limited) return limited;
+    }
+
+    let userId: string | null = null;
+    const token = getBearerToken(request);
+    if (token || options.requireAuth) {
+      // Tokens name the project's Auth URL as their issuer, so it's needed even with the JWT secret
+      if (!env.SUPABASE_URL) {
+        console.error('SUPABASE_URL is not configured');
+        return createErrorResponse('This service is not configured. Please contact support.', 500, corsHeaders);
+      }
+      try {
+        const authUrl = `${env.SUPABASE_URL}/auth/v1`;
+        const claims = token
+          ? await verifySupabaseJwt(
+              token,
+              { secret: env.SUPABASE_JWT_SECRET, jwksUrl: `${authUrl}/.well-known/jwks.json` },
+              authUrl
+            )
+          : null;
+        userId = claims?.sub ?? null;
+      } catch (error) {
+        console.error('Access token verification failed:', error);
+        return createErrorResponse('Your sign-in could not be checked. Please try again.', 503, corsHeaders);
+      }
+    }
+    if (options.requireAuth && !userId) {
+      return createErrorResponse('Please sign in and try again.', 401, corsHeaders);
+    }
+
+    if (userId && options.rateLimits?.user) {
+      const limited = await isLimited(`user:${userId}`, options.rateLimits.user);
+      if (limited) return limited;
+    }
+
+    context.data.userId = userId;
+    context.data.corsHeaders = corsHeaders;
+    return context.next();
+  };
+};
@@ -0,0 +1,78 @@
+// Token buckets: each key holds up to `capacity` tokens, refilled continuously at
+// `refillPerMinute`. A request takes one token and is refused when none are left.
+
+export interface TokenBucket {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until a token is available again; 0 when allowed
+  retryAfter: number;
+}
+
+export interface RateLimitStore {
+  take(key: string, bucket: TokenBucket): Promise<RateLimitResult>;
+}
+
+interface BucketState {
+  tokens: number;
+  // Unix milliseconds of the last refill
+  updatedAt: number;
+}
+
+const takeToken = (state: BucketState | null, bucket: TokenBucket, now: number) => {
+  const refillPerMs = bucket.refillPerMinute / 60_000;
+  const tokens = state
+    ? Math.min(bucket.capacity, state.tokens + (now - state.updatedAt) * refillPerMs)
+    : bucket.capacity;
+
+  if (tokens < 1) {
+    return {
+      result: { allowed: false, retryAfter: Math.ceil((1 - tokens) / refillPerMs / 1000) },
+      state: { tokens, updatedAt: now },
+    };
+  }
+  return { result: { allowed: true, retryAfter: 0 }, state: { tokens: tokens - 1, updatedAt: now } };
+};
+
+// Seconds until an untouched bucket is full again, after which its state can be dropped
+const secondsToRefill = (state: BucketState, bucket: TokenBucket) =>
+  Math.ceil(((bucket.capacity - state.tokens) / bucket.refillPerMinute) * 60);
+
+/**
+ * Buckets in Workers KV, shared by every isolate. KV is eventually consistent and has no
+ * atomic update, so bursts across locations can briefly exceed the limit.
+ */
+export const createKvRateLimitStore = (kv: KVNamespace): RateLimitStore => ({
+  async take(key, bucket) {
+    const { result, state } = takeToken(await kv.get<BucketState>(key, 'json'), bucket, Date.now());
+    // Refused requests don't change the bucket, so there is nothing to write
+    if (result.allowed) {
+      // KV's minimum TTL is 60 seconds
+      await kv.put(key, JSON.stringify(state), { expirationTtl: Math.max(60, secondsToRefill(state, bucket)) });
+    }
+    return result;
+  },
+});
+
+/**
+ * Buckets in isolate memory, for local development. In production each isolate would
+ * count separately, so bind RATE_LIMIT_KV there.
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const buckets = new Map<string, BucketState & { expiresAt: number }>();
+  return {
+    async take(key, bucket) {
+      const now = Date.now();
+      // Drop buckets that have refilled so the map doesn't grow without bound
+      for (const [staleKey, { expiresAt }] of buckets) {
+        if (expiresAt < now) buckets.delete(staleKey);
+      }
+      const { result, state } = takeToken(buckets.get(key) ?? null, bucket, now);
+      buckets.set(key, { ...state, expiresAt: now + secondsToRefill(state, bucket) * 1000 });
+      return result;
+    },
+  };
+};
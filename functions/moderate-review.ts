@@ -1,184 +1,232 @@
-interface Env {
-  OPENAI_API_KEY: string;
-}
+import {
+  APPEAL_OUTCOME,
+  ModerationConfigError,
+  RateLimitError,
+  createModerationProviders,
+  dataUriToBytes,
+  getDecisionStore,
+  getFailurePolicy,
+  getImageContentType,
+  getImageStore,
+  getTokenSecret,
+  moderate,
+  sha256Hex,
+  signOutcome,
+  toDecision,
+  type ModerationDecision,
+  type ModerationEnv,
+  type ModerationInput,
+  type ModerationOutcome,
+  type ModerationType,
+  type SignedModerationOutcome,
+} from "./_lib/moderation";
+import { createErrorResponse, createSuccessResponse } from "./_lib/responses";
+import { createGuard, getDataUriByteLength, type SecurityData, type SecurityEnv } from "./_lib/security";
+
+type Env = ModerationEnv & SecurityEnv;
 
 interface ModerationRequest {
   reviewText?: string;
   imageBase64?: string;
-  moderationType: 'review' | 'image_only' | 'avatar';
+  // Review photos, each checked on its own so results can be reported per image
+  imagesBase64?: string[];
+  moderationType: ModerationType;
 }
 
-interface ModerationResponse {
+// Review: the overall verdict plus the text result and one result per photo, in request order.
+// Each result carries the signed token the database expects with the matching row, and
+// photos that may be posted carry the URL the function stored them at.
+interface ReviewModerationResponse {
   safe: boolean;
   reason: string;
+  held: boolean;
+  text: SignedModerationOutcome;
+  images: SignedModerationOutcome[];
 }
 
-const REVIEW_SYSTEM_PROMPT = `You are a content moderator for a restaurant review site.
-Analyze the user's text and image for family-friendliness.
-
-- Text Rules: Flag any profanity, hate speech, or slurs. Be strict.
-- Image Rules: Flag content that is not family-friendly. This includes violence, nudity, offensive symbols, and Public Displays of Affection (PDA) like kissing. Photos of food and restaurant environments are safe.
-
-Output only a JSON object: { "safe": boolean, "reason": "string" }.
-If safe, reason is "". If unsafe, use a generic reason like "Review contains inappropriate language" or "Image is too explicit."`;
-
-const IMAGE_ONLY_SYSTEM_PROMPT = `You are an image content moderator for a restaurant review site.
-Analyze the user's image to ensure it is family-friendly.
-
-- Rules: Flag content that is not family-friendly. This includes violence, nudity, offensive symbols, and Public Displays of Affection (PDA) like kissing.
-- Safe Content: Photos of food, drinks, and restaurant environments are generally safe.
-
-Output only a JSON object: { "safe": boolean, "reason": "string" }.
-If safe, reason is "". If unsafe, use the generic reason "Image is too explicit."`;
-
-const AVATAR_SYSTEM_PROMPT = `You are an image content moderator for user avatars.
-Analyze the user's image to ensure it is family-friendly and appropriate.
-
-- Rules: Flag nudity, violence, gore, hate symbols, or other offensive content.
-- Safe Content: Normal photos of people, landscapes, or abstract images are safe.
-
-Output only a JSON object: { "safe": boolean, "reason": "string" }.
-If safe, reason is "". If unsafe, provide a brief, user-facing explanation.
-Example unsafe reason: "Avatar image is inappropriate."`;
-
-const createErrorResponse = (reason: string, status: number, corsHeaders: HeadersInit) => {
-  return new Response(
-    JSON.stringify({ success: false, error: { reason } }),
-    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-  );
-};
-
-const createSuccessResponse = (data: any, corsHeaders: HeadersInit) => {
-  return new Response(
-    JSON.stringify({ success: true, data }),
-    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-  );
-};
-
-export const onRequestPost: PagesFunction<Env> = async (context) => {
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  };
+// ReviewForm allows up to 5 photos per review
+const MAX_REVIEW_IMAGES = 5;
+
+// Matches the moderation-appeals bucket, where blocked images are kept for appeals
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// A rating-only review has no text to check
+const EMPTY_TEXT_OUTCOME: ModerationOutcome = { safe: true, reason: '', provider: 'none' };
+
+// Every check can cost an OpenAI call per item, so callers have to be signed in
+const guard = createGuard({
+  name: 'moderate-review',
+  methods: ['POST'],
+  requireAuth: true,
+  // Base64 inflates images by a third; the rest leaves room for the review text
+  maxBodyBytes: Math.ceil((MAX_IMAGE_BYTES * 4) / 3) * MAX_REVIEW_IMAGES + 1024 * 1024,
+  rateLimits: {
+    ip: { capacity: 30, refillPerMinute: 10 },
+    user: { capacity: 20, refillPerMinute: 5 },
+  },
+});
+
+const handleModeration: PagesFunction<Env, string, SecurityData> = async (context) => {
+  const { corsHeaders, userId } = context.data;
+  // The guard requires a signed-in user; tokens are issued to them alone
+  if (!userId) {
+    return createErrorResponse('Please sign in and try again.', 401, corsHeaders);
+  }
 
   try {
-    const OPENAI_API_KEY = context.env.OPENAI_API_KEY;
-    if (!OPENAI_API_KEY) {
-      console.error('OPENAI_API_KEY is not configured');
-      return createErrorResponse('Content moderation service is not configured. Please contact support.', 500, corsHeaders);
-    }
-
-    const { reviewText, imageBase64, moderationType = 'review' }: ModerationRequest = await context.request.json();
-
-    if ((moderationType === 'image_only' || moderationType === 'avatar') && !imageBase64) {
-      return createSuccessResponse({ safe: true, reason: '' }, corsHeaders);
-    }
-
-    if (moderationType === 'review' && (!reviewText || reviewText.trim().length === 0)) {
-      return createErrorResponse('Review text is required.', 400, corsHeaders);
-    }
+    const providers = createModerationProviders(context.env);
+    const onFailure = getFailurePolicy(context.env);
+    const tokenSecret = getTokenSecret(context.env);
+    const store = getDecisionStore(context.env);
+    if (!store) console.warn('Moderation decisions are not persisted: SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is missing');
+
+    const check = async (input: ModerationInput, contentHash: string): Promise<ModerationOutcome> => {
+      if (store) {
+        try {
+          if (await store.hasOverturnedAppeal(userId, input.type, contentHash)) return APPEAL_OUTCOME;
+        } catch (error) {
+          console.error('Appeal lookup failed:', error);
+        }
+      }
+      return moderate(providers, input, onFailure);
+    };
+
+    // Photos are only stored once they may be posted, and then under the URL their token names.
+    // Every photo of a review that will be held stays private until a moderator releases it
+    const storeChecked = async (image: string, outcome: ModerationOutcome, held: boolean): Promise<string | undefined> => {
+      if (!outcome.safe && !outcome.held) return undefined;
+      const contentType = getImageContentType(image);
+      if (!contentType) return undefined;
+      return getImageStore(context.env).uploadModerated(userId, dataUriToBytes(image), contentType, held);
+    };
+
+    // Keeps a rejected image for appeals; without it the moderator only sees the reason
+    const keepRejected = async (decision: ModerationDecision, image: string) => {
+      const contentType = getImageContentType(image);
+      if (!contentType) return;
+      try {
+        decision.image_path = await getImageStore(context.env).keepForAppeal(userId, decision.id, dataUriToBytes(image), contentType);
+      } catch (error) {
+        console.error('Failed to keep rejected image:', error);
+      }
+    };
+
+    // Failing to log doesn't block the user, but the content then can't be appealed
+    const logDecisions = async (
+      entries: { type: ModerationType; outcome: SignedModerationOutcome; text?: string; image?: string }[]
+    ) => {
+      if (!store) return;
+      const logged = entries.filter(({ outcome }) => outcome.provider !== 'none');
+      const decisions = logged.map(({ type, outcome, text }) => toDecision(userId, type, outcome, text));
+      await Promise.all(
+        logged.map(({ outcome, image }, idx) =>
+          image && !outcome.safe && !outcome.held ? keepRejected(decisions[idx], image) : undefined
+        )
+      );
+      try {
+        await store.record(decisions);
+        logged.forEach(({ outcome }, idx) => {
+          outcome.decisionId = decisions[idx].id;
+        });
+      } catch (error) {
+        console.error('Failed to record moderation decisions:', error);
+      }
+    };
 
-    console.log('Moderating content:', { 
-      moderationType,
-      textLength: reviewText?.length || 0, 
-      hasImage: !!imageBase64 
-    });
+    const { reviewText, imageBase64, imagesBase64 = [], moderationType = 'review' }: ModerationRequest = await context.request.json();
 
-    let systemPrompt: string;
-    switch (moderationType) {
-      case 'avatar':
-        systemPrompt = AVATAR_SYSTEM_PROMPT;
-        break;
-      case 'image_only':
-        systemPrompt = IMAGE_ONLY_SYSTEM_PROMPT;
-        break;
-      default:
-        systemPrompt = REVIEW_SYSTEM_PROMPT;
+    if (imagesBase64.length > MAX_REVIEW_IMAGES) {
+      return createErrorResponse(`A review can have at most ${MAX_REVIEW_IMAGES} photos.`, 400, corsHeaders);
     }
-
-    const userContent: any[] = [];
-    if (moderationType === 'review' && reviewText) {
-      userContent.push({
-        type: 'text',
-        text: `Analyze this review for profanity and family-friendliness:\n\n"${reviewText}"`
-      });
-    } else {
-      userContent.push({ type: 'text', text: 'Analyze this image for family-friendliness.' });
+    if ([imageBase64 ?? '', ...imagesBase64].some((image) => getDataUriByteLength(image) > MAX_IMAGE_BYTES)) {
+      return createErrorResponse(`Images must be smaller than ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`, 413, corsHeaders);
     }
-
-    if (imageBase64) {
-      userContent.push({
-        type: 'image_url',
-        image_url: { url: imageBase64 }
-      });
+    if ([...(imageBase64 ? [imageBase64] : []), ...imagesBase64].some((image) => !getImageContentType(image))) {
+      return createErrorResponse('Images must be JPEG, PNG, WebP or GIF files.', 400, corsHeaders);
     }
 
-    console.log('Calling OpenAI for moderation...');
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userContent }
-        ],
-        max_tokens: 200,
-        temperature: 0.1,
-        response_format: { type: 'json_object' }
-      }),
+    console.log('Moderating content:', {
+      moderationType,
+      providers: providers.map((provider) => provider.name),
+      textLength: reviewText?.length || 0,
+      hasImage: !!imageBase64,
+      imageCount: imagesBase64.length,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenAI API error:', response.status, errorText);
-      
-      if (response.status === 429) {
-        return createErrorResponse('Content moderation is temporarily unavailable. Please try again in a moment.', 429, corsHeaders);
-      }
-      
-      // For other upstream errors, don't block the user.
-      return createSuccessResponse({ safe: true, reason: 'Moderation check failed, approved by default.' }, corsHeaders);
+    if (moderationType === 'review') {
+      // The text and every photo are checked in parallel, so the client can point at the photo that failed
+      const reviewContent = reviewText ?? '';
+      // Hashes of the exact text stored in reviews.comment and of the bytes of each photo.
+      // Tokens are bound to them and overturned appeals are matched by them
+      const [textHash, ...imageHashes] = await Promise.all([
+        sha256Hex(reviewContent),
+        ...imagesBase64.map((image) => sha256Hex(dataUriToBytes(image))),
+      ]);
+      const [textOutcome, ...imageOutcomes] = await Promise.all([
+        reviewContent.trim()
+          ? check({ type: 'review', text: reviewContent }, textHash)
+          : EMPTY_TEXT_OUTCOME,
+        ...imagesBase64.map((image, idx) => check({ type: 'image_only', imageBase64: image }, imageHashes[idx])),
+      ]);
+      console.log('Moderation results:', { text: textOutcome, images: imageOutcomes });
+
+      const reviewHeld = [textOutcome, ...imageOutcomes].some((outcome) => outcome.held);
+      const imageUrls = await Promise.all(
+        imageOutcomes.map((outcome, idx) => storeChecked(imagesBase64[idx], outcome, reviewHeld))
+      );
+      const [text, ...images] = await Promise.all([
+        signOutcome(tokenSecret, userId, 'review', textHash, textOutcome),
+        ...imageOutcomes.map((outcome, idx) =>
+          signOutcome(tokenSecret, userId, 'image_only', imageHashes[idx], outcome, imageUrls[idx])
+        ),
+      ]);
+      await logDecisions([
+        { type: 'review', outcome: text, text: reviewContent },
+        ...images.map((outcome, idx) => ({ type: 'image_only' as const, outcome, image: imagesBase64[idx] })),
+      ]);
+
+      // A rejection outranks a hold: the user has to fix the content before anyone reviews it
+      const results = [text, ...images];
+      const rejected = results.find((result) => !result.safe && !result.held);
+      const held = results.find((result) => result.held);
+      const result: ReviewModerationResponse = {
+        safe: !rejected && !held,
+        reason: rejected?.reason ?? held?.reason ?? '',
+        held: !rejected && !!held,
+        text,
+        images,
+      };
+      return createSuccessResponse(result, corsHeaders);
     }
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
-    if (!content) {
-      console.error('No content in AI response:', data);
-      return createSuccessResponse({ safe: true, reason: 'Moderation check failed, approved by default.' }, corsHeaders);
+    // image_only and avatar
+    if (!imageBase64) {
+      return createSuccessResponse({ safe: true, reason: '' }, corsHeaders);
     }
 
-    console.log('Moderation raw result:', content);
-
-    let jsonContent = content.trim();
-    if (jsonContent.startsWith('```json')) {
-      jsonContent = jsonContent.slice(7, -3).trim();
-    } else if (jsonContent.startsWith('```')) {
-      jsonContent = jsonContent.slice(3, -3).trim();
-    }
-    
-    const result: ModerationResponse = JSON.parse(jsonContent);
-    console.log('Moderation parsed result:', result);
+    const contentHash = await sha256Hex(dataUriToBytes(imageBase64));
+    const outcome = await check({ type: moderationType, imageBase64 }, contentHash);
+    console.log('Moderation result:', outcome);
 
+    // Avatars are uploaded by Profile; only photos for reviews and restaurants are stored here
+    const url = moderationType === 'image_only' ? await storeChecked(imageBase64, outcome, !!outcome.held) : undefined;
+    const result = await signOutcome(tokenSecret, userId, moderationType, contentHash, outcome, url);
+    await logDecisions([{ type: moderationType, outcome: result, image: imageBase64 }]);
     return createSuccessResponse(result, corsHeaders);
 
   } catch (error) {
+    if (error instanceof ModerationConfigError) {
+      console.error('Moderation is misconfigured:', error.message);
+      return createErrorResponse('Content moderation service is not configured. Please contact support.', 500, corsHeaders);
+    }
+    if (error instanceof RateLimitError) {
+      return createErrorResponse('Content moderation is temporarily unavailable. Please try again in a moment.', 429, corsHeaders);
+    }
     console.error('Moderation error:', error);
     return createErrorResponse('Unable to verify content. Please try again.', 500, corsHeaders);
   }
 };
 
-export const onRequestOptions: PagesFunction = async () => {
-  return new Response(null, {
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    },
-  });
-};
+export const onRequestPost = [guard, handleModeration];
+
+export const onRequestOptions = guard;
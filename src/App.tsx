@@ -91,7 +91,7 @@ const App = () => (
               <Route 
                 path="/admin" 
                 element={
-                  <ProtectedRoute requiredRole="admin">
+                  <ProtectedRoute requiredRole="moderator">
                     <AdminDashboard />
                   </ProtectedRoute>
                 } 
@@ -0,0 +1,193 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { Check, ExternalLink, X } from "lucide-react";
+import { LifecycleStatusBadge } from "@/components/restaurant/LifecycleStatusBadge";
+import { lifecycleStatusLabels, type LifecycleStatus } from "@/utils/restaurantLifecycle";
+
+interface ClosureReport {
+  id: string;
+  reported_status: LifecycleStatus;
+  reopens_on: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+interface ReportedRestaurant {
+  id: string;
+  name: string;
+  address: string;
+  lifecycle_status: LifecycleStatus;
+  reopens_on: string | null;
+  reports: ClosureReport[];
+}
+
+export const AdminClosureReports = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: reported, isLoading } = useQuery({
+    queryKey: ["admin-closure-reports"],
+    queryFn: async () => {
+      const { data: reports, error } = await supabase
+        .from("restaurant_closure_reports")
+        .select("id, restaurant_id, reported_status, reopens_on, note, created_at")
+        .is("resolved_at", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      const ids = [...new Set(reports.map((r) => r.restaurant_id))];
+      if (ids.length === 0) return [];
+
+      const { data: restaurants, error: restaurantsError } = await supabase
+        .from("restaurants")
+        .select("id, name, address, lifecycle_status, reopens_on")
+        .in("id", ids);
+
+      if (restaurantsError) throw restaurantsError;
+
+      // Most reported first
+      return restaurants
+        .map((restaurant): ReportedRestaurant => ({
+          ...restaurant,
+          reports: reports.filter((r) => r.restaurant_id === restaurant.id),
+        }))
+        .sort((a, b) => b.reports.length - a.reports.length);
+    },
+  });
+
+  // Resolves every pending report for the restaurant; applying a report also updates the listing
+  const resolveMutation = useMutation({
+    mutationFn: async ({ restaurantId, report }: { restaurantId: string; report?: ClosureReport }) => {
+      if (report) {
+        const { error } = await supabase
+          .from("restaurants")
+          .update({
+            lifecycle_status: report.reported_status,
+            reopens_on: report.reported_status === "temporarily_closed" ? report.reopens_on : null,
+          })
+          .eq("id", restaurantId);
+        if (error) throw error;
+      }
+
+      const { error } = await supabase
+        .from("restaurant_closure_reports")
+        .update({ resolved_at: new Date().toISOString(), resolved_by: user?.id })
+        .eq("restaurant_id", restaurantId)
+        .is("resolved_at", null);
+      if (error) throw error;
+    },
+    onSuccess: (_, { restaurantId, report }) => {
+      toast.success(report ? `Marked as ${lifecycleStatusLabels[report.reported_status].toLowerCase()}` : "Reports dismissed");
+      queryClient.invalidateQueries({ queryKey: ["admin-closure-reports"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["restaurant", restaurantId] });
+      queryClient.invalidateQueries({ queryKey: ["restaurants", "explore"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-lg sm:text-xl">Closure Reports</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Restaurants users have reported as closed or reopened.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0">
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : reported && reported.length > 0 ? (
+          <div className="space-y-4">
+            {reported.map((restaurant) => (
+              <div key={restaurant.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold">{restaurant.name}</span>
+                      {restaurant.lifecycle_status === "active" ? (
+                        <Badge variant="secondary" className="text-xs">
+                          {lifecycleStatusLabels.active}
+                        </Badge>
+                      ) : (
+                        <LifecycleStatusBadge status={restaurant.lifecycle_status} reopensOn={restaurant.reopens_on} />
+                      )}
+                      <Badge variant="destructive" className="text-xs">
+                        {restaurant.reports.length} {restaurant.reports.length === 1 ? "report" : "reports"}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{restaurant.address}</p>
+                  </div>
+                  <div className="flex gap-2 flex-wrap shrink-0">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => navigate(`/restaurant/${restaurant.id}`)}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => resolveMutation.mutate({ restaurantId: restaurant.id })}
+                      disabled={resolveMutation.isPending}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Dismiss
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2 border-t pt-3">
+                  {restaurant.reports.map((report) => (
+                    <div key={report.id} className="flex items-start justify-between gap-3">
+                      <div className="min-w-0 text-sm">
+                        <span className="text-xs text-muted-foreground mr-2">
+                          {format(new Date(report.created_at), "MMM d, yyyy")}
+                        </span>
+                        <span className="font-medium">{lifecycleStatusLabels[report.reported_status]}</span>
+                        {report.reopens_on && (
+                          <span className="text-muted-foreground">
+                            {" "}· reopens {format(parseISO(report.reopens_on), "MMM d, yyyy")}
+                          </span>
+                        )}
+                        {report.note && <p className="text-muted-foreground">{report.note}</p>}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="shrink-0"
+                        onClick={() => resolveMutation.mutate({ restaurantId: restaurant.id, report })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Apply
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">No closure reports to review.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Check, Search, X } from "lucide-react";
+import {
+  moderationContentTypeLabels,
+  moderationVerdictLabels,
+  type ModerationContentType,
+  type ModerationVerdict,
+} from "@/utils/contentModeration";
+
+// Matches are case-insensitive substrings. Commas and parentheses would break PostgREST's
+// or() syntax, and LIKE wildcards are matched literally
+const toSearchPattern = (term: string) =>
+  `%${term.trim().replace(/[,()"\\]/g, " ").replace(/[%_]/g, "\\$&")}%`;
+
+// Blocked text is shown as plain text, never rendered as HTML
+const toPlainText = (html: string) => html.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+
+const verdictBadgeClasses: Record<ModerationVerdict, string> = {
+  approved: "bg-green-500/10 text-green-600 border-green-500/30",
+  rejected: "bg-red-500/10 text-red-600 border-red-500/30",
+  held: "bg-yellow-500/10 text-yellow-600 border-yellow-500/30",
+};
+
+// Decisions reference auth users, so usernames are looked up separately
+const fetchUsernames = async (userIds: (string | null)[]) => {
+  const ids = [...new Set(userIds.filter((id): id is string => !!id))];
+  if (ids.length === 0) return new Map<string, string>();
+
+  const { data, error } = await supabase.from("profiles").select("user_id, username").in("user_id", ids);
+  if (error) throw error;
+  return new Map(data.flatMap((profile) => (profile.username ? [[profile.user_id, profile.username] as const] : [])));
+};
+
+const LOG_LIMIT = 100;
+
+export const AdminContentModeration = () => {
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [searchInput, setSearchInput] = useState("");
+  const [usernameInput, setUsernameInput] = useState("");
+  const [filters, setFilters] = useState({ search: "", username: "" });
+  const [contentType, setContentType] = useState<ModerationContentType | "all">("all");
+  const [verdict, setVerdict] = useState<ModerationVerdict | "all">("all");
+
+  // Oldest first, like the held reviews queue
+  const { data: appeals = [], isLoading: isAppealsLoading } = useQuery({
+    queryKey: ["admin-moderation-appeals"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("moderation_appeals")
+        .select("id, user_id, message, created_at, moderation_decisions (content_type, reason, provider, content_text, image_path)")
+        .eq("status", "pending")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      const imagePaths = data.flatMap((appeal) => {
+        const imagePath = appeal.moderation_decisions?.image_path;
+        return imagePath ? [imagePath] : [];
+      });
+      const [usernames, signedUrls] = await Promise.all([
+        fetchUsernames(data.map((appeal) => appeal.user_id)),
+        imagePaths.length > 0
+          ? supabase.storage.from("moderation-appeals").createSignedUrls(imagePaths, 60 * 60)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+      if (signedUrls.error) throw signedUrls.error;
+      const imageUrls = new Map(signedUrls.data.map((entry) => [entry.path, entry.signedUrl]));
+
+      return data.map((appeal) => ({
+        ...appeal,
+        username: usernames.get(appeal.user_id) ?? null,
+        image_url: appeal.moderation_decisions?.image_path
+          ? imageUrls.get(appeal.moderation_decisions.image_path) ?? null
+          : null,
+      }));
+    },
+  });
+
+  const { data: decisions, isLoading: isLogLoading } = useQuery({
+    queryKey: ["admin-moderation-decisions", filters, contentType, verdict],
+    queryFn: async () => {
+      let query = supabase
+        .from("moderation_decisions")
+        .select("id, user_id, content_type, verdict, reason, provider, content_text, created_at")
+        .order("created_at", { ascending: false })
+        .limit(LOG_LIMIT);
+
+      if (contentType !== "all") query = query.eq("content_type", contentType);
+      if (verdict !== "all") query = query.eq("verdict", verdict);
+      if (filters.search.trim()) {
+        const pattern = toSearchPattern(filters.search);
+        query = query.or(`reason.ilike.${pattern},content_text.ilike.${pattern},provider.ilike.${pattern}`);
+      }
+      if (filters.username.trim()) {
+        const { data: profile, error: profileError } = await supabase
+          .from("profiles")
+          .select("user_id")
+          .ilike("username", filters.username.trim().replace(/[\\%_]/g, "\\$&"))
+          .maybeSingle();
+
+        if (profileError) throw profileError;
+        if (!profile) return [];
+        query = query.eq("user_id", profile.user_id);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const usernames = await fetchUsernames(data.map((decision) => decision.user_id));
+      return data.map((decision) => ({
+        ...decision,
+        username: decision.user_id ? usernames.get(decision.user_id) ?? null : null,
+      }));
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ appealId, overturn }: { appealId: string; overturn: boolean }) => {
+      const { error } = await supabase.rpc("resolve_moderation_appeal", {
+        _appeal_id: appealId,
+        _overturn: overturn,
+        _note: notes[appealId] || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { appealId, overturn }) => {
+      toast.success(overturn ? "Appeal approved" : "Decision upheld");
+      setNotes((prev) => {
+        const next = { ...prev };
+        delete next[appealId];
+        return next;
+      });
+      queryClient.invalidateQueries({ queryKey: ["admin-moderation-appeals"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-stats"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <Card>
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="text-lg sm:text-xl">Appeals</CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Users disputing an automatic rejection. Approved content passes when they submit it again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 pt-0">
+          {isAppealsLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : appeals.length > 0 ? (
+            <div className="space-y-4">
+              {appeals.map((appeal) => (
+                <div key={appeal.id} className="rounded-lg border p-4 space-y-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold">{appeal.username ?? "Unknown user"}</span>
+                      {appeal.moderation_decisions && (
+                        <Badge variant="outline" className="text-xs">
+                          {moderationContentTypeLabels[appeal.moderation_decisions.content_type]}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Appealed {format(new Date(appeal.created_at), "MMM d, yyyy")}
+                      {appeal.moderation_decisions && (
+                        <> · {appeal.moderation_decisions.reason || "No reason given"} ({appeal.moderation_decisions.provider})</>
+                      )}
+                    </p>
+                  </div>
+
+                  {appeal.moderation_decisions?.content_text && (
+                    <p className="text-sm text-muted-foreground rounded-md bg-muted/40 p-3">
+                      {toPlainText(appeal.moderation_decisions.content_text)}
+                    </p>
+                  )}
+
+                  {appeal.image_url && (
+                    <a href={appeal.image_url} target="_blank" rel="noopener noreferrer" className="inline-block">
+                      <img src={appeal.image_url} alt="" className="h-32 w-32 rounded-md object-cover" />
+                    </a>
+                  )}
+
+                  {appeal.message && (
+                    <p className="text-sm">
+                      <span className="font-medium">User says:</span> {appeal.message}
+                    </p>
+                  )}
+
+                  <div className="flex flex-col sm:flex-row gap-2 border-t pt-3">
+                    <Input
+                      value={notes[appeal.id] ?? ""}
+                      onChange={(e) => setNotes({ ...notes, [appeal.id]: e.target.value })}
+                      placeholder="Note for the user (optional)"
+                      className="h-9 sm:flex-1"
+                    />
+                    <div className="flex gap-2 flex-wrap">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => resolveMutation.mutate({ appealId: appeal.id, overturn: true })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => resolveMutation.mutate({ appealId: appeal.id, overturn: false })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Uphold
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-center py-8">No pending appeals.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="text-lg sm:text-xl">Decision Log</CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Automatic moderation verdicts, newest first. Shows up to {LOG_LIMIT} matches.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 pt-0 space-y-4">
+          <form
+            className="flex flex-col sm:flex-row gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setFilters({ search: searchInput, username: usernameInput });
+            }}
+          >
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search reason, text or provider"
+              className="h-9 sm:flex-1"
+            />
+            <Input
+              value={usernameInput}
+              onChange={(e) => setUsernameInput(e.target.value)}
+              placeholder="Username"
+              className="h-9 sm:w-[150px]"
+            />
+            <Select value={contentType} onValueChange={(v) => setContentType(v as ModerationContentType | "all")}>
+              <SelectTrigger className="h-9 sm:w-[130px]">
+                <SelectValue placeholder="Content" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All content</SelectItem>
+                {(Object.keys(moderationContentTypeLabels) as ModerationContentType[]).map((value) => (
+                  <SelectItem key={value} value={value}>{moderationContentTypeLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={verdict} onValueChange={(v) => setVerdict(v as ModerationVerdict | "all")}>
+              <SelectTrigger className="h-9 sm:w-[130px]">
+                <SelectValue placeholder="Verdict" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All verdicts</SelectItem>
+                {(Object.keys(moderationVerdictLabels) as ModerationVerdict[]).map((value) => (
+                  <SelectItem key={value} value={value}>{moderationVerdictLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" size="sm" variant="outline" className="h-9">
+              <Search className="h-4 w-4 mr-1" />
+              Search
+            </Button>
+          </form>
+
+          {isLogLoading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : decisions && decisions.length > 0 ? (
+            <div className="space-y-2">
+              {decisions.map((decision) => (
+                <div key={decision.id} className="text-sm border-b last:border-0 pb-2">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(decision.created_at), "MMM d, yyyy HH:mm")}
+                    </span>
+                    <Badge variant="outline" className={verdictBadgeClasses[decision.verdict]}>
+                      {moderationVerdictLabels[decision.verdict]}
+                    </Badge>
+                    <span className="font-medium">{moderationContentTypeLabels[decision.content_type]}</span>
+                    <span className="text-muted-foreground">
+                      by {decision.username ?? (decision.user_id ? "unknown user" : "signed-out user")} · {decision.provider}
+                    </span>
+                  </div>
+                  {decision.reason && <p className="text-muted-foreground">{decision.reason}</p>}
+                  {decision.content_text && (
+                    <p className="text-xs text-muted-foreground line-clamp-2">{toPlainText(decision.content_text)}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-center py-8">No matching decisions.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { CheckCircle, ExternalLink } from "lucide-react";
+import { HalalConfidenceIndicator } from "@/components/restaurant/HalalConfidenceIndicator";
+
+type HalalStatus = "Full Halal" | "Partial Halal";
+
+interface Dispute {
+  id: string;
+  note: string | null;
+  updated_at: string;
+}
+
+interface FlaggedRestaurant {
+  id: string;
+  name: string;
+  address: string;
+  halal_status: HalalStatus;
+  confidence: number | null;
+  last_confirmed_at: string | null;
+  confirm_count: number;
+  recent_dispute_count: number;
+  disputes: Dispute[];
+}
+
+export const AdminHalalReviewQueue = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: flagged, isLoading } = useQuery({
+    queryKey: ["admin-halal-reviews"],
+    queryFn: async () => {
+      const { data: confidence, error } = await supabase
+        .from("restaurant_halal_confidence")
+        .select("*")
+        .eq("needs_review", true)
+        .order("recent_dispute_count", { ascending: false });
+
+      if (error) throw error;
+      const ids = (confidence || []).map((c) => c.restaurant_id!).filter(Boolean);
+      if (ids.length === 0) return [];
+
+      const [restaurantsResult, disputesResult] = await Promise.all([
+        supabase.from("restaurants").select("id, name, address, halal_status").in("id", ids),
+        supabase
+          .from("halal_confirmations")
+          .select("id, restaurant_id, note, updated_at")
+          .eq("verdict", "dispute")
+          .in("restaurant_id", ids)
+          .order("updated_at", { ascending: false }),
+      ]);
+
+      if (restaurantsResult.error) throw restaurantsResult.error;
+      if (disputesResult.error) throw disputesResult.error;
+
+      return confidence.flatMap((c): FlaggedRestaurant[] => {
+        const restaurant = restaurantsResult.data.find((r) => r.id === c.restaurant_id);
+        if (!restaurant) return [];
+        return [{
+          ...restaurant,
+          confidence: c.confidence,
+          last_confirmed_at: c.last_confirmed_at,
+          confirm_count: c.confirm_count || 0,
+          recent_dispute_count: c.recent_dispute_count || 0,
+          disputes: disputesResult.data.filter((d) => d.restaurant_id === c.restaurant_id),
+        }];
+      });
+    },
+  });
+
+  // Marking reviewed restarts the dispute window; optionally changes the status too
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, halalStatus }: { id: string; halalStatus?: HalalStatus }) => {
+      const { error } = await supabase
+        .from("restaurants")
+        .update({
+          halal_reviewed_at: new Date().toISOString(),
+          ...(halalStatus && { halal_status: halalStatus }),
+        })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { id, halalStatus }) => {
+      toast.success(halalStatus ? `Status changed to ${halalStatus}` : "Marked as reviewed");
+      queryClient.invalidateQueries({ queryKey: ["admin-halal-reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["restaurant", id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-lg sm:text-xl">Halal Status Reviews</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Restaurants whose halal status the community has recently disputed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0">
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : flagged && flagged.length > 0 ? (
+          <div className="space-y-4">
+            {flagged.map((restaurant) => (
+              <div key={restaurant.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold">{restaurant.name}</span>
+                      <Badge
+                        variant="secondary"
+                        className={
+                          restaurant.halal_status === "Full Halal"
+                            ? "bg-halal-full/20 text-halal-full"
+                            : "bg-halal-partial/20 text-halal-partial"
+                        }
+                      >
+                        {restaurant.halal_status}
+                      </Badge>
+                      <Badge variant="destructive" className="text-xs">
+                        {restaurant.recent_dispute_count} recent disputes
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{restaurant.address}</p>
+                    <HalalConfidenceIndicator
+                      confidence={restaurant.confidence}
+                      lastConfirmedAt={restaurant.last_confirmed_at}
+                      size="sm"
+                    />
+                  </div>
+                  <div className="flex gap-2 flex-wrap shrink-0">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => navigate(`/restaurant/${restaurant.id}`)}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                    {restaurant.halal_status === "Full Halal" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => resolveMutation.mutate({ id: restaurant.id, halalStatus: "Partial Halal" })}
+                        disabled={resolveMutation.isPending}
+                      >
+                        Downgrade to Partial
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      onClick={() => resolveMutation.mutate({ id: restaurant.id })}
+                      disabled={resolveMutation.isPending}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Mark Reviewed
+                    </Button>
+                  </div>
+                </div>
+
+                {restaurant.disputes.some((d) => d.note) && (
+                  <div className="space-y-2 border-t pt-3">
+                    {restaurant.disputes.filter((d) => d.note).slice(0, 5).map((dispute) => (
+                      <div key={dispute.id} className="text-sm">
+                        <span className="text-xs text-muted-foreground mr-2">
+                          {format(new Date(dispute.updated_at), "MMM d, yyyy")}
+                        </span>
+                        {dispute.note}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">No restaurants need review.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
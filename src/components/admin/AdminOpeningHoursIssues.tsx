@@ -0,0 +1,165 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Check, ExternalLink } from "lucide-react";
+
+interface OpeningHoursIssue {
+  id: string;
+  source_table: "restaurants" | "restaurant_requests";
+  source_id: string;
+  // Name of the restaurant or requested restaurant; null once it's been deleted
+  name: string | null;
+  opening_hours: unknown;
+  issues: string[];
+  created_at: string;
+}
+
+const sourceLabels: Record<OpeningHoursIssue["source_table"], string> = {
+  restaurants: "Restaurant",
+  restaurant_requests: "Request",
+};
+
+// Opening hours the normalization migration couldn't read, left as they were for an admin to fix
+export const AdminOpeningHoursIssues = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: issues, isLoading } = useQuery({
+    queryKey: ["admin-opening-hours-issues"],
+    queryFn: async () => {
+      const { data: rows, error } = await supabase
+        .from("opening_hours_migration_issues")
+        .select("id, source_table, source_id, opening_hours, issues, created_at")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      const idsFor = (table: string) =>
+        rows.filter((row) => row.source_table === table).map((row) => row.source_id);
+      const restaurantIds = idsFor("restaurants");
+      const requestIds = idsFor("restaurant_requests");
+
+      const [restaurantsResult, requestsResult] = await Promise.all([
+        restaurantIds.length > 0
+          ? supabase.from("restaurants").select("id, name").in("id", restaurantIds)
+          : Promise.resolve({ data: [], error: null }),
+        requestIds.length > 0
+          ? supabase.from("restaurant_requests").select("id, submission_data").in("id", requestIds)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (restaurantsResult.error) throw restaurantsResult.error;
+      if (requestsResult.error) throw requestsResult.error;
+
+      const names = new Map<string, string | null>([
+        ...(restaurantsResult.data ?? []).map((r): [string, string] => [r.id, r.name]),
+        ...(requestsResult.data ?? []).map((r): [string, string | null] => [
+          r.id,
+          (r.submission_data as { name?: string } | null)?.name || null,
+        ]),
+      ]);
+
+      return rows.map((row): OpeningHoursIssue => ({
+        ...row,
+        source_table: row.source_table as OpeningHoursIssue["source_table"],
+        name: names.get(row.source_id) ?? null,
+      }));
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (issueId: string) => {
+      const { error } = await supabase
+        .from("opening_hours_migration_issues")
+        .delete()
+        .eq("id", issueId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Marked as fixed");
+      queryClient.invalidateQueries({ queryKey: ["admin-opening-hours-issues"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-stats"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const openSource = (issue: OpeningHoursIssue) =>
+    navigate(issue.source_table === "restaurants" ? `/restaurant/${issue.source_id}` : `/admin/request/${issue.source_id}`);
+
+  return (
+    <Card>
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-lg sm:text-xl">Opening Hours Issues</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Hours that couldn't be converted to the new format. Fix them by hand, then mark them fixed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0">
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : issues && issues.length > 0 ? (
+          <div className="space-y-4">
+            {issues.map((issue) => (
+              <div key={issue.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold">{issue.name ?? "Deleted"}</span>
+                      <Badge variant="secondary" className="text-xs">
+                        {sourceLabels[issue.source_table]}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Found {format(new Date(issue.created_at), "MMM d, yyyy")}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-wrap shrink-0">
+                    {issue.name !== null && (
+                      <Button size="sm" variant="ghost" onClick={() => openSource(issue)}>
+                        <ExternalLink className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => resolveMutation.mutate(issue.id)}
+                      disabled={resolveMutation.isPending}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Mark fixed
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2 border-t pt-3">
+                  <ul className="list-disc pl-5 text-sm space-y-1">
+                    {issue.issues.map((problem, index) => (
+                      <li key={index}>{problem}</li>
+                    ))}
+                  </ul>
+                  <pre className="text-xs bg-muted rounded p-2 overflow-x-auto whitespace-pre-wrap break-all">
+                    {JSON.stringify(issue.opening_hours, null, 2)}
+                  </pre>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">No opening hours issues to fix.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
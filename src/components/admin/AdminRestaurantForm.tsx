@@ -17,14 +17,22 @@ import { toast } from "sonner";
 import { Loader2, Search, PenLine } from "lucide-react";
 import { ImageUploadZone } from "@/components/forms/ImageUploadZone";
 import { GooglePlacesAutocomplete } from "@/components/forms/GooglePlacesAutocomplete";
-import { OpeningHoursEditor, getDefaultOpeningHours, parseGoogleHours, type OpeningHoursData } from "@/components/forms/OpeningHoursEditor";
+import { OpeningHoursEditor, getDefaultOpeningHours } from "@/components/forms/OpeningHoursEditor";
+import { HalalAttributesEditor } from "@/components/forms/HalalAttributesEditor";
+import { HalalCertificationsManager } from "@/components/admin/HalalCertificationsManager";
+import { RestaurantOwnersManager } from "@/components/admin/RestaurantOwnersManager";
 import { geocodeAddress } from "@/utils/geocoding";
+import { lookupTimezone } from "@/utils/timezone";
+import { parseGoogleHours, parseOpeningHours, validateOpeningHours, type OpeningHours } from "@/utils/openingHours";
+import { parseHalalAttributes, type HalalAttributes } from "@/utils/halalAttributes";
+import { lifecycleStatusLabels, type LifecycleStatus } from "@/utils/restaurantLifecycle";
 
 interface UploadedImage {
   id: string;
   url: string;
   file?: File;
   isUploading?: boolean;
+  moderationToken?: string;
 }
 
 interface RestaurantFormData {
@@ -32,14 +40,18 @@ interface RestaurantFormData {
   address: string;
   cuisine_type: string;
   halal_status: "Full Halal" | "Partial Halal";
+  halal_attributes: HalalAttributes;
   price_range: "$" | "$$" | "$$$" | "$$$$";
   description: string;
   phone: string;
   website_url: string;
   lat: number;
   lng: number;
-  opening_hours: OpeningHoursData;
+  timezone: string | null;
+  opening_hours: OpeningHours;
   google_place_id: string;
+  lifecycle_status: LifecycleStatus;
+  reopens_on: string;
 }
 
 interface AdminRestaurantFormProps {
@@ -111,14 +123,18 @@ const getDefaultFormData = (): RestaurantFormData => ({
   address: "",
   cuisine_type: "",
   halal_status: "Full Halal",
+  halal_attributes: {},
   price_range: "$$",
   description: "",
   phone: "",
   website_url: "",
   lat: 0,
   lng: 0,
+  timezone: null,
   opening_hours: getDefaultOpeningHours(),
   google_place_id: "",
+  lifecycle_status: "active",
+  reopens_on: "",
 });
 
 export const AdminRestaurantForm = ({ editRestaurantId, onSuccess }: AdminRestaurantFormProps) => {
@@ -159,14 +175,18 @@ export const AdminRestaurantForm = ({ editRestaurantId, onSuccess }: AdminRestau
         address: existingRestaurant.address,
         cuisine_type: existingRestaurant.cuisine_type,
         halal_status: existingRestaurant.halal_status,
+        halal_attributes: parseHalalAttributes(existingRestaurant.halal_attributes),
         price_range: existingRestaurant.price_range,
         description: existingRestaurant.description || "",
         phone: existingRestaurant.phone || "",
         website_url: existingRestaurant.website_url || "",
         lat: existingRestaurant.lat,
         lng: existingRestaurant.lng,
-        opening_hours: (existingRestaurant.opening_hours as unknown as OpeningHoursData) || getDefaultOpeningHours(),
+        timezone: existingRestaurant.timezone,
+        opening_hours: parseOpeningHours(existingRestaurant.opening_hours) ?? getDefaultOpeningHours(),
         google_place_id: existingRestaurant.google_place_id || "",
+        lifecycle_status: existingRestaurant.lifecycle_status,
+        reopens_on: existingRestaurant.reopens_on || "",
       });
 
       // Load existing images
@@ -205,20 +225,30 @@ export const AdminRestaurantForm = ({ editRestaurantId, onSuccess }: AdminRestau
         }
       }
 
+      // Hours are evaluated in the restaurant's zone; look it up for new or moved restaurants
+      const moved = lat !== existingRestaurant?.lat || lng !== existingRestaurant?.lng;
+      const timezone = !data.timezone || moved
+        ? (await lookupTimezone(lat, lng)) ?? data.timezone
+        : data.timezone;
+
       const restaurantData = {
         name: data.name,
         address: data.address,
         cuisine_type: data.cuisine_type,
         halal_status: data.halal_status,
+        halal_attributes: data.halal_attributes,
         price_range: data.price_range,
         description: data.description || null,
         phone: data.phone || null,
         website_url: data.website_url || null,
         lat,
         lng,
-        opening_hours: data.opening_hours as any,
+        timezone,
+        opening_hours: data.opening_hours,
         google_place_id: data.google_place_id || null,
         google_data_fetched_at: data.google_place_id ? new Date().toISOString() : null,
+        lifecycle_status: data.lifecycle_status,
+        reopens_on: data.lifecycle_status === "temporarily_closed" && data.reopens_on ? data.reopens_on : null,
       };
 
       let restaurant;
@@ -268,6 +298,8 @@ export const AdminRestaurantForm = ({ editRestaurantId, onSuccess }: AdminRestau
             restaurant_id: restaurant.id,
             url: img.url,
             is_primary: index === 0 && !isEditing,
+            // Only needed by users who can't moderate; admins' images are accepted as they are
+            moderation_token: img.moderationToken,
           }));
 
         if (imageInserts.length > 0) {
@@ -312,6 +344,12 @@ export const AdminRestaurantForm = ({ editRestaurantId, onSuccess }: AdminRestau
       toast.error("Please wait for all images to finish uploading");
       return;
     }
+
+    const hoursError = validateOpeningHours(formData.opening_hours);
+    if (hoursError) {
+      toast.error(hoursError);
+      return;
+    }
     
     saveMutation.mutate(formData);
   };
@@ -527,6 +565,71 @@ export const AdminRestaurantForm = ({ editRestaurantId, onSuccess }: AdminRestau
               </Select>
             </div>
           </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select
+                value={formData.lifecycle_status}
+                onValueChange={(value: LifecycleStatus) =>
+                  setFormData({ ...formData, lifecycle_status: value })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(lifecycleStatusLabels) as LifecycleStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {lifecycleStatusLabels[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.lifecycle_status === "temporarily_closed" && (
+              <div className="space-y-2">
+                <Label htmlFor="reopens_on">Reopens On</Label>
+                <Input
+                  id="reopens_on"
+                  type="date"
+                  value={formData.reopens_on}
+                  onChange={(e) => setFormData({ ...formData, reopens_on: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Halal Details</Label>
+            <HalalAttributesEditor
+              value={formData.halal_attributes}
+              onChange={(attributes) => setFormData({ ...formData, halal_attributes: attributes })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Halal Certifications</Label>
+            {editRestaurantId ? (
+              <HalalCertificationsManager restaurantId={editRestaurantId} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Save the restaurant first, then edit it to add certifications.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Verified Owners</Label>
+            {editRestaurantId ? (
+              <RestaurantOwnersManager restaurantId={editRestaurantId} />
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Save the restaurant first, then edit it to add owners.
+              </p>
+            )}
+          </div>
         </div>
 
         {/* Additional Info */}
@@ -0,0 +1,425 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Check, Eye, EyeOff, ExternalLink, Star, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  getHeldReviewImageUrls,
+  moderationActionLabels,
+  releaseHeldReviewImages,
+  removeReviewImageFiles,
+  reviewReportReasonLabels,
+  type ReviewModerationAction,
+  type ReviewReportReason,
+} from "@/utils/reviewModeration";
+
+interface ReportedReview {
+  id: string;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+  hidden_at: string | null;
+  restaurant_id: string;
+  restaurant_name: string | null;
+  reports: {
+    id: string;
+    reason: ReviewReportReason;
+    details: string | null;
+    created_at: string;
+  }[];
+}
+
+// Enough to act on a review from either queue
+type ModeratedReview = Pick<ReportedReview, "id" | "restaurant_id">;
+
+const RatingStars = ({ rating }: { rating: number }) => (
+  <div className="flex items-center gap-0.5">
+    {Array.from({ length: 5 }).map((_, idx) => (
+      <Star
+        key={idx}
+        className={cn("h-3 w-3", idx < rating ? "fill-gold text-gold" : "fill-muted text-muted")}
+      />
+    ))}
+  </div>
+);
+
+export const AdminReviewReports = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewToDelete, setReviewToDelete] = useState<ModeratedReview | null>(null);
+
+  const { data: reported, isLoading } = useQuery({
+    queryKey: ["admin-review-reports"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("review_reports")
+        .select(`
+          id, reason, details, created_at,
+          reviews (id, rating, comment, created_at, hidden_at, restaurant_id, restaurants (name))
+        `)
+        .eq("status", "pending")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      // One entry per review, most reported first
+      const byReview = new Map<string, ReportedReview>();
+      for (const { reviews: review, ...report } of data) {
+        if (!review) continue;
+        const entry = byReview.get(review.id) ?? {
+          id: review.id,
+          rating: review.rating,
+          comment: review.comment,
+          created_at: review.created_at,
+          hidden_at: review.hidden_at,
+          restaurant_id: review.restaurant_id,
+          restaurant_name: review.restaurants?.name ?? null,
+          reports: [],
+        };
+        entry.reports.push(report);
+        byReview.set(review.id, entry);
+      }
+      return [...byReview.values()].sort((a, b) => b.reports.length - a.reports.length);
+    },
+  });
+
+  // Reviews automatic moderation couldn't decide on, oldest first
+  const { data: heldReviews = [], isLoading: isHeldLoading } = useQuery({
+    queryKey: ["admin-held-reviews"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("reviews")
+        .select("id, rating, comment, created_at, held_reason, restaurant_id, restaurants (name), review_images (id, url)")
+        .not("held_reason", "is", null)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      // Held photos are private until the review is released
+      const signedUrls = await getHeldReviewImageUrls(data.flatMap((review) => review.review_images.map((image) => image.url)));
+      return data.map((review) => ({
+        ...review,
+        review_images: review.review_images.map((image) => ({ ...image, url: signedUrls.get(image.url) ?? image.url })),
+      }));
+    },
+  });
+
+  const { data: recentActions = [] } = useQuery({
+    queryKey: ["admin-review-moderation-log"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("review_moderation_log")
+        .select("id, action, note, resolved_report_count, created_at, restaurants (name)")
+        .order("created_at", { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ review, action }: { review: ModeratedReview; action: ReviewModerationAction }) => {
+      // Publish the files first so the photos work as soon as the review is visible
+      if (action === "unhide") await releaseHeldReviewImages(review.id);
+      const { data: imageUrls, error } = await supabase.rpc("moderate_review", {
+        _review_id: review.id,
+        _action: action,
+        _note: notes[review.id] || undefined,
+      });
+      if (error) throw error;
+      if (action === "delete") await removeReviewImageFiles(imageUrls);
+    },
+    onSuccess: (_, { review, action }) => {
+      toast.success(moderationActionLabels[action]);
+      setNotes((prev) => {
+        const next = { ...prev };
+        delete next[review.id];
+        return next;
+      });
+      queryClient.invalidateQueries({ queryKey: ["admin-review-reports"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-held-reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-review-moderation-log"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["restaurant-reviews", review.restaurant_id] });
+      queryClient.invalidateQueries({ queryKey: ["restaurant-images", review.restaurant_id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <Card>
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="text-lg sm:text-xl">Reported Reviews</CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Reviews users have flagged. Every action is recorded in the log below.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 pt-0">
+          {isLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-24 w-full" />
+              ))}
+            </div>
+          ) : reported && reported.length > 0 ? (
+            <div className="space-y-4">
+              {reported.map((review) => (
+                <div key={review.id} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-semibold">{review.restaurant_name ?? "Unknown restaurant"}</span>
+                        <RatingStars rating={review.rating} />
+                        <Badge variant="destructive" className="text-xs">
+                          {review.reports.length} {review.reports.length === 1 ? "report" : "reports"}
+                        </Badge>
+                        {review.hidden_at && (
+                          <Badge variant="outline" className="text-xs">Hidden</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Posted {format(new Date(review.created_at), "MMM d, yyyy")}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="shrink-0"
+                      onClick={() => navigate(`/restaurant/${review.restaurant_id}`)}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {review.comment && (
+                    <div
+                      className="text-sm text-muted-foreground prose prose-sm max-w-none [&_p]:m-0 rounded-md bg-muted/40 p-3"
+                      dangerouslySetInnerHTML={{ __html: review.comment }}
+                    />
+                  )}
+
+                  <div className="space-y-1 border-t pt-3">
+                    {review.reports.map((report) => (
+                      <div key={report.id} className="text-sm">
+                        <span className="text-xs text-muted-foreground mr-2">
+                          {format(new Date(report.created_at), "MMM d, yyyy")}
+                        </span>
+                        <span className="font-medium">{reviewReportReasonLabels[report.reason]}</span>
+                        {report.details && <span className="text-muted-foreground"> · {report.details}</span>}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="flex flex-col sm:flex-row gap-2 border-t pt-3">
+                    <Input
+                      value={notes[review.id] ?? ""}
+                      onChange={(e) => setNotes({ ...notes, [review.id]: e.target.value })}
+                      placeholder="Note for the log (optional)"
+                      className="h-9 sm:flex-1"
+                    />
+                    <div className="flex gap-2 flex-wrap">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => moderateMutation.mutate({ review, action: "dismiss" })}
+                        disabled={moderateMutation.isPending}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Dismiss
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => moderateMutation.mutate({ review, action: review.hidden_at ? "unhide" : "hide" })}
+                        disabled={moderateMutation.isPending}
+                      >
+                        {review.hidden_at ? <Eye className="h-4 w-4 mr-1" /> : <EyeOff className="h-4 w-4 mr-1" />}
+                        {review.hidden_at ? "Unhide" : "Hide"}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => setReviewToDelete(review)}
+                        disabled={moderateMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-center py-8">No reported reviews.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="text-lg sm:text-xl">Held for Review</CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Reviews automatic moderation couldn't check. They stay hidden until approved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 pt-0">
+          {isHeldLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : heldReviews.length > 0 ? (
+            <div className="space-y-4">
+              {heldReviews.map((review) => (
+                <div key={review.id} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-semibold">{review.restaurants?.name ?? "Unknown restaurant"}</span>
+                        <RatingStars rating={review.rating} />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Posted {format(new Date(review.created_at), "MMM d, yyyy")} · {review.held_reason}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="shrink-0"
+                      onClick={() => navigate(`/restaurant/${review.restaurant_id}`)}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  {review.comment && (
+                    <div
+                      className="text-sm text-muted-foreground prose prose-sm max-w-none [&_p]:m-0 rounded-md bg-muted/40 p-3"
+                      dangerouslySetInnerHTML={{ __html: review.comment }}
+                    />
+                  )}
+
+                  {review.review_images.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {review.review_images.map((image) => (
+                        <a key={image.id} href={image.url} target="_blank" rel="noopener noreferrer">
+                          <img src={image.url} alt="" className="h-16 w-16 rounded-md object-cover" />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex flex-col sm:flex-row gap-2 border-t pt-3">
+                    <Input
+                      value={notes[review.id] ?? ""}
+                      onChange={(e) => setNotes({ ...notes, [review.id]: e.target.value })}
+                      placeholder="Note for the log (optional)"
+                      className="h-9 sm:flex-1"
+                    />
+                    <div className="flex gap-2 flex-wrap">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => moderateMutation.mutate({ review, action: "unhide" })}
+                        disabled={moderateMutation.isPending}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => setReviewToDelete(review)}
+                        disabled={moderateMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-center py-8">No reviews waiting.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="p-4 sm:p-6">
+          <CardTitle className="text-lg sm:text-xl">Moderation Log</CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            The 20 most recent review moderation actions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-4 sm:p-6 pt-0">
+          {recentActions.length > 0 ? (
+            <div className="space-y-2">
+              {recentActions.map((entry) => (
+                <div key={entry.id} className="text-sm">
+                  <span className="text-xs text-muted-foreground mr-2">
+                    {format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}
+                  </span>
+                  <span className="font-medium">{moderationActionLabels[entry.action]}</span>
+                  {entry.restaurants?.name && <span> at {entry.restaurants.name}</span>}
+                  {entry.resolved_report_count > 0 && (
+                    <span className="text-muted-foreground"> · {entry.resolved_report_count} reports closed</span>
+                  )}
+                  {entry.note && <span className="text-muted-foreground"> · {entry.note}</span>}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-center py-8">No moderation actions yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!reviewToDelete} onOpenChange={(open) => !open && setReviewToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Review</AlertDialogTitle>
+            <AlertDialogDescription>
+              The review and its photos will be removed permanently. A copy of the text stays in the moderation log.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (reviewToDelete) moderateMutation.mutate({ review: reviewToDelete, action: "delete" });
+                setReviewToDelete(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
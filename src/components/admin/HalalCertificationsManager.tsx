@@ -0,0 +1,385 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { FileText, Loader2, Pencil, Plus, Trash2, Upload, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  HALAL_CERTIFICATES_BUCKET,
+  HalalCertification,
+  formatCertificationDate,
+  getCertificationStatus,
+} from "@/utils/halalCertifications";
+
+interface HalalCertificationsManagerProps {
+  restaurantId: string;
+}
+
+interface CertificationFormData {
+  certifying_body: string;
+  certificate_number: string;
+  issued_on: string;
+  expires_on: string;
+  document_url: string;
+}
+
+const emptyForm: CertificationFormData = {
+  certifying_body: "",
+  certificate_number: "",
+  issued_on: "",
+  expires_on: "",
+  document_url: "",
+};
+
+const ACCEPTED_DOCUMENT_TYPES = "image/jpeg,image/png,image/webp,application/pdf";
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+// Storage path of a document from its public URL, used to clean up replaced files
+const getDocumentPath = (url: string): string | null => {
+  const marker = `/${HALAL_CERTIFICATES_BUCKET}/`;
+  const index = url.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length));
+};
+
+export const HalalCertificationsManager = ({ restaurantId }: HalalCertificationsManagerProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // null: form closed, "new": adding, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CertificationFormData>(emptyForm);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const { data: certifications = [], isLoading } = useQuery({
+    queryKey: ["halal-certifications", restaurantId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("halal_certifications")
+        .select("*")
+        .eq("restaurant_id", restaurantId)
+        .order("expires_on", { ascending: false, nullsFirst: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["halal-certifications", restaurantId] });
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const record = {
+        certifying_body: formData.certifying_body.trim(),
+        certificate_number: formData.certificate_number.trim() || null,
+        issued_on: formData.issued_on || null,
+        expires_on: formData.expires_on || null,
+        document_url: formData.document_url || null,
+      };
+
+      if (editingId && editingId !== "new") {
+        const { error } = await supabase
+          .from("halal_certifications")
+          .update(record)
+          .eq("id", editingId);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from("halal_certifications")
+          .insert({ ...record, restaurant_id: restaurantId, created_by: user?.id });
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success(editingId === "new" ? "Certification added" : "Certification updated");
+      invalidate();
+      closeForm();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (certification: HalalCertification) => {
+      const { error } = await supabase
+        .from("halal_certifications")
+        .delete()
+        .eq("id", certification.id);
+      if (error) throw error;
+
+      const path = certification.document_url && getDocumentPath(certification.document_url);
+      if (path) {
+        await supabase.storage.from(HALAL_CERTIFICATES_BUCKET).remove([path]);
+      }
+    },
+    onSuccess: () => {
+      toast.success("Certification removed");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.size > MAX_DOCUMENT_SIZE) {
+      toast.error("Certificate documents must be under 10MB");
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const fileExt = file.name.split('.').pop()?.toLowerCase() || 'pdf';
+      const fileName = `${restaurantId}/${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
+
+      const { error } = await supabase.storage
+        .from(HALAL_CERTIFICATES_BUCKET)
+        .upload(fileName, file, { cacheControl: '3600', upsert: false });
+      if (error) throw error;
+
+      const { data: publicUrl } = supabase.storage
+        .from(HALAL_CERTIFICATES_BUCKET)
+        .getPublicUrl(fileName);
+
+      setFormData((prev) => ({ ...prev, document_url: publicUrl.publicUrl }));
+    } catch (error) {
+      console.error('Upload error:', error);
+      toast.error(`Failed to upload ${file.name}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleEdit = (certification: HalalCertification) => {
+    setEditingId(certification.id);
+    setFormData({
+      certifying_body: certification.certifying_body,
+      certificate_number: certification.certificate_number || "",
+      issued_on: certification.issued_on || "",
+      expires_on: certification.expires_on || "",
+      document_url: certification.document_url || "",
+    });
+  };
+
+  const handleSave = () => {
+    if (!formData.certifying_body.trim()) {
+      toast.error("Please enter the certifying body");
+      return;
+    }
+    if (formData.issued_on && formData.expires_on && formData.expires_on < formData.issued_on) {
+      toast.error("Expiry date must be after the issue date");
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading certifications...
+        </div>
+      ) : certifications.length === 0 && !editingId ? (
+        <p className="text-sm text-muted-foreground">No certifications on record.</p>
+      ) : (
+        <div className="space-y-2">
+          {certifications.map((certification) => {
+            const status = getCertificationStatus(certification);
+            return (
+              <div
+                key={certification.id}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium truncate">{certification.certifying_body}</span>
+                    <Badge
+                      variant="outline"
+                      className={cn(
+                        "text-xs",
+                        status === 'valid'
+                          ? "border-halal-full/40 text-halal-full"
+                          : "border-halal-partial/40 text-halal-partial"
+                      )}
+                    >
+                      {status === 'valid' ? "Valid" : status === 'expired' ? "Expired" : "Not yet valid"}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {certification.certificate_number && `#${certification.certificate_number} · `}
+                    {certification.issued_on && `Issued ${formatCertificationDate(certification.issued_on)} · `}
+                    {certification.expires_on
+                      ? `Expires ${formatCertificationDate(certification.expires_on)}`
+                      : "No expiry date"}
+                  </p>
+                  {certification.document_url && (
+                    <a
+                      href={certification.document_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                    >
+                      <FileText className="h-3 w-3" />
+                      View document
+                    </a>
+                  )}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleEdit(certification)}
+                    disabled={saveMutation.isPending}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(certification)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editingId ? (
+        <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="certifying_body">Certifying Body *</Label>
+              <Input
+                id="certifying_body"
+                value={formData.certifying_body}
+                onChange={(e) => setFormData({ ...formData, certifying_body: e.target.value })}
+                placeholder="e.g. HMC, IFANCA"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="certificate_number">Certificate Number</Label>
+              <Input
+                id="certificate_number"
+                value={formData.certificate_number}
+                onChange={(e) => setFormData({ ...formData, certificate_number: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="issued_on">Issued On</Label>
+              <Input
+                id="issued_on"
+                type="date"
+                value={formData.issued_on}
+                onChange={(e) => setFormData({ ...formData, issued_on: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expires_on">Expires On</Label>
+              <Input
+                id="expires_on"
+                type="date"
+                value={formData.expires_on}
+                onChange={(e) => setFormData({ ...formData, expires_on: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Certificate Document</Label>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_DOCUMENT_TYPES}
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isUploading}
+              >
+                {isUploading ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                {formData.document_url ? "Replace document" : "Upload image or PDF"}
+              </Button>
+              {formData.document_url && (
+                <>
+                  <a
+                    href={formData.document_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                  >
+                    <FileText className="h-4 w-4" />
+                    View
+                  </a>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setFormData({ ...formData, document_url: "" })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={closeForm}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={saveMutation.isPending || isUploading}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {editingId === "new" ? "Add Certification" : "Save Certification"}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setEditingId("new")}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Certification
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+interface RestaurantOwnersManagerProps {
+  restaurantId: string;
+}
+
+// Owners are added by username once an admin has verified them outside the app
+export const RestaurantOwnersManager = ({ restaurantId }: RestaurantOwnersManagerProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [username, setUsername] = useState("");
+
+  const { data: owners = [], isLoading } = useQuery({
+    queryKey: ["restaurant-owners", restaurantId, "profiles"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("restaurant_owners")
+        .select("id, user_id, created_at")
+        .eq("restaurant_id", restaurantId)
+        .order("created_at");
+
+      if (error) throw error;
+      if (data.length === 0) return [];
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from("profiles")
+        .select("user_id, username")
+        .in("user_id", data.map((owner) => owner.user_id));
+
+      if (profilesError) throw profilesError;
+      return data.map((owner) => ({
+        ...owner,
+        username: profiles.find((p) => p.user_id === owner.user_id)?.username ?? null,
+      }));
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["restaurant-owners", restaurantId] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      // Case-insensitive exact match; escape LIKE wildcards common in usernames
+      const { data: profile, error: profileError } = await supabase
+        .from("profiles")
+        .select("user_id")
+        .ilike("username", username.trim().replace(/[\\%_]/g, "\\$&"))
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+      if (!profile) throw new Error(`No user named "${username.trim()}"`);
+
+      const { error } = await supabase
+        .from("restaurant_owners")
+        .insert({ restaurant_id: restaurantId, user_id: profile.user_id, created_by: user?.id });
+      if (error) {
+        if (error.code === "23505") throw new Error("That user is already an owner");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success("Owner added");
+      setUsername("");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("restaurant_owners")
+        .delete()
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Owner removed");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading owners...
+        </div>
+      ) : owners.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No verified owners.</p>
+      ) : (
+        <div className="space-y-2">
+          {owners.map((owner) => (
+            <div key={owner.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{owner.username || "No username"}</p>
+                <p className="text-xs text-muted-foreground font-mono truncate">{owner.user_id}</p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeMutation.mutate(owner.id)}
+                disabled={removeMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => addMutation.mutate()}
+          disabled={!username.trim() || addMutation.isPending}
+        >
+          {addMutation.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          ) : (
+            <Plus className="h-4 w-4 mr-2" />
+          )}
+          Add Owner
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { SlidersHorizontal, X, Clock, MapPin } from "lucide-react";
+import { SlidersHorizontal, X, Clock, MapPin, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -16,13 +16,28 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import { cuisineOptions } from "@/utils/cuisines";
+import { halalAttributeFilterOptions } from "@/utils/halalAttributes";
+import { OpenAtFilter, formatOpenAt, openAtPresets, weekdayOptions } from "@/utils/openAtFilter";
 
 export interface Filters {
   priceRange: string[];
   cuisineTypes: string[];
   halalStatus: string[];
+  // HalalAttributeFilter keys, see utils/halalAttributes
+  halalAttributes: string[];
   openNow: boolean;
+  // Open at a chosen weekday and time, e.g. Friday 23:00
+  openAt: OpenAtFilter | null;
   distance: number;
 }
 
@@ -32,21 +47,6 @@ interface FilterBarProps {
 }
 
 const priceOptions = ['$', '$$', '$$$', '$$$$'];
-const cuisineOptions = [
-  'American', 
-  'Middle Eastern', 
-  'South Asian', 
-  'Turkish', 
-  'Mediterranean', 
-  'Asian', 
-  'Halal',
-  'Seafood',
-  'Fast Food',
-  'BBQ',
-  'African',
-  'Caribbean',
-  'Latin American'
-];
 const halalOptions = ['Full Halal', 'Partial Halal'];
 const distanceMarks = [5, 10, 25, 50, 100];
 
@@ -58,10 +58,12 @@ export const FilterBar = ({ filters, onFiltersChange }: FilterBarProps) => {
     filters.priceRange.length + 
     filters.cuisineTypes.length + 
     filters.halalStatus.length + 
+    filters.halalAttributes.length +
     (filters.openNow ? 1 : 0) +
+    (filters.openAt ? 1 : 0) +
     (filters.distance !== 50 ? 1 : 0);
 
-  const toggleFilter = (category: 'priceRange' | 'cuisineTypes' | 'halalStatus', value: string) => {
+  const toggleFilter = (category: 'priceRange' | 'cuisineTypes' | 'halalStatus' | 'halalAttributes', value: string) => {
     setTempFilters(prev => ({
       ...prev,
       [category]: prev[category].includes(value)
@@ -80,14 +82,16 @@ export const FilterBar = ({ filters, onFiltersChange }: FilterBarProps) => {
       priceRange: [],
       cuisineTypes: [],
       halalStatus: [],
+      halalAttributes: [],
       openNow: false,
+      openAt: null,
       distance: 50
     };
     setTempFilters(emptyFilters);
     onFiltersChange(emptyFilters);
   };
 
-  const removeFilter = (category: 'priceRange' | 'cuisineTypes' | 'halalStatus', value: string) => {
+  const removeFilter = (category: 'priceRange' | 'cuisineTypes' | 'halalStatus' | 'halalAttributes', value: string) => {
     const newFilters = {
       ...filters,
       [category]: filters[category].filter(v => v !== value)
@@ -96,6 +100,19 @@ export const FilterBar = ({ filters, onFiltersChange }: FilterBarProps) => {
     setTempFilters(newFilters);
   };
 
+  const clearOpenAt = () => {
+    const newFilters = { ...filters, openAt: null };
+    onFiltersChange(newFilters);
+    setTempFilters(newFilters);
+  };
+
+  const setTempOpenAt = (updates: Partial<OpenAtFilter>) => {
+    setTempFilters(prev => ({
+      ...prev,
+      openAt: { day: new Date().getDay(), time: "19:00", ...prev.openAt, ...updates },
+    }));
+  };
+
   const toggleOpenNow = () => {
     const newFilters = { ...filters, openNow: !filters.openNow };
     onFiltersChange(newFilters);
@@ -106,7 +123,14 @@ export const FilterBar = ({ filters, onFiltersChange }: FilterBarProps) => {
     <div className="flex flex-col gap-3">
       {/* Filter Button & Quick Filters */}
       <div className="flex items-center gap-2 flex-wrap">
-        <Sheet open={isOpen} onOpenChange={setIsOpen}>
+        <Sheet
+          open={isOpen}
+          onOpenChange={(open) => {
+            // Start from the applied filters, which may have changed via the URL or chips
+            if (open) setTempFilters(filters);
+            setIsOpen(open);
+          }}
+        >
           <SheetTrigger asChild>
             <Button variant="outline" className="gap-2">
               <SlidersHorizontal className="h-4 w-4" />
@@ -139,6 +163,65 @@ export const FilterBar = ({ filters, onFiltersChange }: FilterBarProps) => {
 
               <Separator />
 
+              {/* Open At a chosen time */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label className="font-medium">Open At</Label>
+                    <p className="text-xs text-muted-foreground">Plan ahead, in each restaurant's local time</p>
+                  </div>
+                  {tempFilters.openAt && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setTempFilters(prev => ({ ...prev, openAt: null }))}
+                    >
+                      Clear
+                    </Button>
+                  )}
+                </div>
+                <div className="flex gap-2 flex-wrap">
+                  {openAtPresets.map((preset) => {
+                    const presetValue = preset.resolve(new Date());
+                    const isSelected = tempFilters.openAt?.day === presetValue.day && tempFilters.openAt?.time === presetValue.time;
+                    return (
+                      <Button
+                        key={preset.key}
+                        variant={isSelected ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setTempFilters(prev => ({ ...prev, openAt: presetValue }))}
+                      >
+                        {preset.label}
+                      </Button>
+                    );
+                  })}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Select
+                    value={tempFilters.openAt ? String(tempFilters.openAt.day) : undefined}
+                    onValueChange={(value) => setTempOpenAt({ day: Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Day" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {weekdayOptions.map((day) => (
+                        <SelectItem key={day.value} value={String(day.value)}>
+                          {day.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="time"
+                    value={tempFilters.openAt?.time ?? ""}
+                    onChange={(e) => e.target.value && setTempOpenAt({ time: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <Separator />
+
               {/* Distance Filter */}
               <div>
                 <div className="flex items-center justify-between mb-3">
@@ -210,6 +293,28 @@ export const FilterBar = ({ filters, onFiltersChange }: FilterBarProps) => {
 
               <Separator />
 
+              {/* Halal Details */}
+              <div>
+                <h3 className="font-medium mb-1">Halal Details</h3>
+                <p className="text-xs text-muted-foreground mb-3">Only show places confirmed to have these</p>
+                <div className="space-y-3">
+                  {halalAttributeFilterOptions.map((option) => (
+                    <div key={option.value} className="flex items-center justify-between">
+                      <Label htmlFor={`attr-${option.value}`} className="text-sm cursor-pointer">
+                        {option.label}
+                      </Label>
+                      <Switch
+                        id={`attr-${option.value}`}
+                        checked={tempFilters.halalAttributes.includes(option.value)}
+                        onCheckedChange={() => toggleFilter('halalAttributes', option.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <Separator />
+
               {/* Cuisine Types */}
               <div>
                 <h3 className="font-medium mb-3">Cuisine</h3>
@@ -284,6 +389,24 @@ export const FilterBar = ({ filters, onFiltersChange }: FilterBarProps) => {
               </Badge>
             </motion.div>
           )}
+          {filters.openAt && (
+            <motion.div
+              key="open-at"
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.8 }}
+            >
+              <Badge
+                variant="secondary"
+                className="gap-1 cursor-pointer pr-1.5 bg-halal-full/20 text-halal-full border-halal-full/30"
+                onClick={clearOpenAt}
+              >
+                <CalendarClock className="h-3 w-3" />
+                {formatOpenAt(filters.openAt)}
+                <X className="h-3 w-3" />
+              </Badge>
+            </motion.div>
+          )}
           {filters.halalStatus.map((status) => (
             <motion.div
               key={status}
@@ -305,6 +428,23 @@ export const FilterBar = ({ filters, onFiltersChange }: FilterBarProps) => {
               </Badge>
             </motion.div>
           ))}
+          {filters.halalAttributes.map((attribute) => (
+            <motion.div
+              key={attribute}
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.8 }}
+            >
+              <Badge
+                variant="secondary"
+                className="gap-1 cursor-pointer pr-1.5 bg-halal-full/20 text-halal-full border-halal-full/30"
+                onClick={() => removeFilter('halalAttributes', attribute)}
+              >
+                {halalAttributeFilterOptions.find(o => o.value === attribute)?.label ?? attribute}
+                <X className="h-3 w-3" />
+              </Badge>
+            </motion.div>
+          ))}
           {filters.priceRange.map((price) => (
             <motion.div
               key={price}
@@ -0,0 +1,36 @@
+import { ArrowUpDown } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { sortOptions, type SortOption } from "@/utils/exploreSort";
+
+interface SortSelectProps {
+  value: SortOption;
+  onChange: (value: SortOption) => void;
+  // Best match is only offered while searching
+  hasQuery?: boolean;
+  className?: string;
+}
+
+export const SortSelect = ({ value, onChange, hasQuery = false, className }: SortSelectProps) => {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as SortOption)}>
+      <SelectTrigger className={cn("h-8 w-auto gap-2 text-xs sm:text-sm", className)}>
+        <ArrowUpDown className="h-3.5 w-3.5 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent align="end">
+        {sortOptions.filter((option) => hasQuery || option.value !== 'relevance').map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
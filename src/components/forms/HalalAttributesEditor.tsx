@@ -0,0 +1,78 @@
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { HalalAttributes } from "@/utils/halalAttributes";
+
+interface HalalAttributesEditorProps {
+  value: HalalAttributes;
+  onChange: (value: HalalAttributes) => void;
+}
+
+type BooleanAttribute = 'alcohol_served' | 'pork_on_premises' | 'separate_prep' | 'certified_supplier';
+
+const BOOLEAN_ATTRIBUTES: { key: BooleanAttribute; label: string }[] = [
+  { key: 'certified_supplier', label: 'Halal-certified supplier' },
+  { key: 'separate_prep', label: 'Separate prep areas & fryers' },
+  { key: 'alcohol_served', label: 'Alcohol served' },
+  { key: 'pork_on_premises', label: 'Pork on premises' },
+];
+
+// Select values; "unknown" removes the key so we never claim something we don't know
+const UNKNOWN = "unknown";
+
+export const HalalAttributesEditor = ({ value, onChange }: HalalAttributesEditorProps) => {
+  const setAttribute = <K extends keyof HalalAttributes>(key: K, attributeValue: HalalAttributes[K] | undefined) => {
+    const next = { ...value };
+    if (attributeValue === undefined) {
+      delete next[key];
+    } else {
+      next[key] = attributeValue;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Slaughter Method</Label>
+        <Select
+          value={value.slaughter_method ?? UNKNOWN}
+          onValueChange={(v) => setAttribute('slaughter_method', v === UNKNOWN ? undefined : v as HalalAttributes['slaughter_method'])}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNKNOWN}>Not sure</SelectItem>
+            <SelectItem value="zabiha">Zabiha (hand slaughtered)</SelectItem>
+            <SelectItem value="machine">Machine slaughtered</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {BOOLEAN_ATTRIBUTES.map(({ key, label }) => (
+        <div key={key} className="space-y-2">
+          <Label>{label}</Label>
+          <Select
+            value={value[key] === undefined ? UNKNOWN : value[key] ? "yes" : "no"}
+            onValueChange={(v) => setAttribute(key, v === UNKNOWN ? undefined : v === "yes")}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNKNOWN}>Not sure</SelectItem>
+              <SelectItem value="yes">Yes</SelectItem>
+              <SelectItem value="no">No</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+};
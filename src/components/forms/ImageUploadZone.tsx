@@ -8,6 +8,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { getModerationHeaders } from "@/utils/contentModeration";
 
 // Helper to convert file to base64 data URI
 const fileToBase64 = (file: File): Promise<string> => {
@@ -24,6 +25,8 @@ interface UploadedImage {
   url: string;
   file?: File;
   isUploading?: boolean;
+  // Signed verdict for a checked upload; restaurant_images only accepts it with this exact URL
+  moderationToken?: string;
 }
 
 interface ImageUploadZoneProps {
@@ -50,29 +53,6 @@ export const ImageUploadZone = ({
 
   const generateId = () => `img-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-  const uploadFileToStorage = async (file: File): Promise<string> => {
-    const fileExt = file.name.split('.').pop()?.toLowerCase() || 'jpg';
-    const fileName = `${folderPrefix}/${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${fileExt}`;
-    
-    const { error } = await supabase.storage
-      .from(bucketName)
-      .upload(fileName, file, {
-        cacheControl: '3600',
-        upsert: false
-      });
-    
-    if (error) {
-      console.error('Upload error:', error);
-      throw new Error(`Failed to upload ${file.name}: ${error.message}`);
-    }
-    
-    const { data: publicUrl } = supabase.storage
-      .from(bucketName)
-      .getPublicUrl(fileName);
-    
-    return publicUrl.publicUrl;
-  };
-
   const downloadUrlToStorage = async (imageUrl: string): Promise<string> => {
     try {
       // Fetch the image from the URL
@@ -138,9 +118,7 @@ export const ImageUploadZone = ({
         
         const response = await fetch('/moderate-review', {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
+          headers: await getModerationHeaders(),
           body: JSON.stringify({ 
             imageBase64,
             moderationType: 'image_only'
@@ -175,19 +153,22 @@ export const ImageUploadZone = ({
           continue;
         }
         
-        const uploadedUrl = await uploadFileToStorage(img.file!);
+        // The function stores the file it checked, so the stored copy is the approved one
+        const uploadedUrl: string | undefined = result.data.url;
+        const moderationToken: string | undefined = result.data.token;
+        if (!uploadedUrl) throw new Error('The checked image was not stored');
         
         // Update the image with the real URL - need to get fresh state
         onImagesChange(
           updatedImages.map(p => p.id === img.id 
-            ? { ...p, url: uploadedUrl, isUploading: false, file: undefined }
+            ? { ...p, url: uploadedUrl, moderationToken, isUploading: false, file: undefined }
             : p
           )
         );
         // Update local reference for next iteration
         const imgIndex = updatedImages.findIndex(p => p.id === img.id);
         if (imgIndex !== -1) {
-          updatedImages[imgIndex] = { ...updatedImages[imgIndex], url: uploadedUrl, isUploading: false, file: undefined };
+          updatedImages[imgIndex] = { ...updatedImages[imgIndex], url: uploadedUrl, moderationToken, isUploading: false, file: undefined };
         }
       } catch (error: any) {
         toast.error(`Failed to upload ${img.file?.name}`);
@@ -196,7 +177,7 @@ export const ImageUploadZone = ({
         onImagesChange(filtered);
       }
     }
-  }, [images, maxImages, onImagesChange, folderPrefix, bucketName]);
+  }, [images, maxImages, onImagesChange]);
 
   const handleAddUrl = async () => {
     if (!urlInput.trim()) return;
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, Loader2, Scale } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import {
+  MAX_APPEAL_MESSAGE_LENGTH,
+  submitModerationAppeals,
+  type AppealableDecision,
+} from "@/utils/contentModeration";
+
+interface ModerationAppealButtonProps {
+  // Every rejection from the last check; they're appealed together
+  decisions: AppealableDecision[];
+  className?: string;
+}
+
+export const ModerationAppealButton = ({ decisions, className }: ModerationAppealButtonProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [message, setMessage] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+
+  const appealMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("You must be logged in to appeal");
+      await submitModerationAppeals(user.id, decisions, message);
+    },
+    onSuccess: () => {
+      toast.success("Appeal sent. If a moderator approves it, you can submit the same content again.");
+      setSubmitted(true);
+      setOpen(false);
+      setMessage("");
+      queryClient.invalidateQueries({ queryKey: ["moderation-appeals", user?.id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  if (!user || decisions.length === 0) return null;
+
+  if (submitted) {
+    return (
+      <Button type="button" size="sm" variant="outline" className={className} disabled>
+        <Check className="h-4 w-4 mr-1" />
+        Appeal sent
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <Button type="button" size="sm" variant="outline" className={className} onClick={() => setOpen(true)}>
+        <Scale className="h-4 w-4 mr-1" />
+        Appeal
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Appeal this decision</DialogTitle>
+            <DialogDescription>
+              A moderator will look at what was blocked. If they approve it, submit the same content again and it will go through.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value.slice(0, MAX_APPEAL_MESSAGE_LENGTH))}
+            placeholder="Optional: why do you think this was a mistake?"
+            rows={3}
+          />
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => appealMutation.mutate()} disabled={appealMutation.isPending}>
+              {appealMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Send appeal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -1,26 +1,11 @@
-import { useState } from "react";
-import { Clock, Plus, Trash2 } from "lucide-react";
+import { addDays, format } from "date-fns";
+import { CalendarDays, Clock, Moon, Plus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { cn } from "@/lib/utils";
-
-interface DayHours {
-  isOpen: boolean;
-  openTime: string;
-  closeTime: string;
-}
-
-interface OpeningHoursData {
-  monday: DayHours;
-  tuesday: DayHours;
-  wednesday: DayHours;
-  thursday: DayHours;
-  friday: DayHours;
-  saturday: DayHours;
-  sunday: DayHours;
-}
+import type { DayHours, DayKey, HoursException, OpeningHours, TimeRange } from "@/utils/openingHours";
 
 const DAYS = [
   { key: "monday", label: "Monday" },
@@ -32,30 +17,69 @@ const DAYS = [
   { key: "sunday", label: "Sunday" },
 ] as const;
 
-const DEFAULT_HOURS: DayHours = {
-  isOpen: true,
+const DEFAULT_RANGE: TimeRange = {
   openTime: "09:00",
   closeTime: "21:00",
 };
 
+const DEFAULT_HOURS: DayHours = {
+  isOpen: true,
+  ranges: [DEFAULT_RANGE],
+};
+
 interface OpeningHoursEditorProps {
-  value: OpeningHoursData;
-  onChange: (hours: OpeningHoursData) => void;
+  value: OpeningHours;
+  onChange: (hours: OpeningHours) => void;
 }
 
 export const OpeningHoursEditor = ({ value, onChange }: OpeningHoursEditorProps) => {
-  const updateDay = (day: keyof OpeningHoursData, updates: Partial<DayHours>) => {
+  const updateDay = (day: DayKey, updates: Partial<DayHours>) => {
     onChange({
       ...value,
       [day]: { ...value[day], ...updates },
     });
   };
 
-  const applyToAll = (sourceDay: keyof OpeningHoursData) => {
+  const getRanges = (day: DayKey) =>
+    value[day]?.ranges?.length ? value[day].ranges : [DEFAULT_RANGE];
+
+  const exceptions = value.exceptions ?? [];
+
+  const updateExceptions = (next: HoursException[]) => {
+    onChange({ ...value, exceptions: next });
+  };
+
+  const updateException = (index: number, updates: Partial<HoursException>) => {
+    updateExceptions(exceptions.map((exception, i) => {
+      if (i !== index) return exception;
+      const next = { ...exception, ...updates };
+      // Keep the range valid when the start moves past the end
+      if (next.endDate < next.startDate) next.endDate = next.startDate;
+      return next;
+    }));
+  };
+
+  const addException = (preset: 'closure' | 'ramadan') => {
+    const today = format(new Date(), "yyyy-MM-dd");
+    updateExceptions([
+      ...exceptions,
+      preset === 'ramadan'
+        ? {
+            label: "Ramadan",
+            startDate: today,
+            endDate: format(addDays(new Date(), 29), "yyyy-MM-dd"),
+            isOpen: true,
+            ranges: [{ openTime: "18:00", closeTime: "03:00" }],
+          }
+        : { label: "", startDate: today, endDate: today, isOpen: false, ranges: [] },
+    ]);
+  };
+
+  const applyToAll = (sourceDay: DayKey) => {
     const sourceHours = value[sourceDay];
     const newHours = { ...value };
     DAYS.forEach(({ key }) => {
-      newHours[key] = { ...sourceHours };
+      newHours[key] = { ...sourceHours, ranges: sourceHours.ranges.map(range => ({ ...range })) };
     });
     onChange(newHours);
   };
@@ -74,30 +98,26 @@ export const OpeningHoursEditor = ({ value, onChange }: OpeningHoursEditorProps)
           <div
             key={key}
             className={cn(
-              "grid grid-cols-[100px_auto_1fr_1fr_auto] gap-3 items-center p-2 rounded-lg",
+              "grid grid-cols-[100px_auto_1fr] gap-3 items-start p-2 rounded-lg",
               !value[key]?.isOpen && "bg-muted/50"
             )}
           >
-            <span className="text-sm font-medium">{label}</span>
+            <span className="text-sm font-medium leading-8">{label}</span>
             
             <Switch
               checked={value[key]?.isOpen ?? true}
-              onCheckedChange={(checked) => updateDay(key, { isOpen: checked })}
+              onCheckedChange={(checked) => updateDay(key, {
+                isOpen: checked,
+                ranges: checked && !value[key]?.ranges?.length ? [DEFAULT_RANGE] : value[key]?.ranges ?? [],
+              })}
+              className="mt-1.5"
             />
             
             {value[key]?.isOpen ? (
-              <>
-                <Input
-                  type="time"
-                  value={value[key]?.openTime || "09:00"}
-                  onChange={(e) => updateDay(key, { openTime: e.target.value })}
-                  className="h-8 text-sm"
-                />
-                <Input
-                  type="time"
-                  value={value[key]?.closeTime || "21:00"}
-                  onChange={(e) => updateDay(key, { closeTime: e.target.value })}
-                  className="h-8 text-sm"
+              <div className="space-y-2">
+                <TimeRangesInput
+                  ranges={getRanges(key)}
+                  onChange={(ranges) => updateDay(key, { ranges })}
                 />
                 {key === "monday" && (
                   <Button
@@ -110,18 +130,158 @@ export const OpeningHoursEditor = ({ value, onChange }: OpeningHoursEditorProps)
                     Apply to all
                   </Button>
                 )}
-              </>
+              </div>
             ) : (
-              <span className="col-span-2 text-sm text-muted-foreground">Closed</span>
+              <span className="text-sm text-muted-foreground leading-8">Closed</span>
             )}
           </div>
         ))}
       </div>
+
+      <div className="space-y-3 pt-2">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <Label className="flex items-center gap-2">
+            <CalendarDays className="h-4 w-4" />
+            Special Hours & Closures
+          </Label>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => addException('closure')}>
+              <Plus className="h-4 w-4 mr-1" />
+              Closure
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => addException('ramadan')}>
+              <Moon className="h-4 w-4 mr-1" />
+              Ramadan hours
+            </Button>
+          </div>
+        </div>
+
+        {exceptions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Holidays like Eid, Ramadan schedules and one-off closures override the weekly hours.
+          </p>
+        ) : (
+          exceptions.map((exception, index) => (
+            <div key={index} className="space-y-3 rounded-lg border p-3">
+              <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_auto] gap-2 items-center">
+                <Input
+                  value={exception.label}
+                  onChange={(e) => updateException(index, { label: e.target.value })}
+                  placeholder="e.g. Eid al-Fitr"
+                  className="h-8 text-sm"
+                />
+                <Input
+                  type="date"
+                  value={exception.startDate}
+                  onChange={(e) => updateException(index, { startDate: e.target.value })}
+                  className="h-8 text-sm"
+                />
+                <Input
+                  type="date"
+                  value={exception.endDate}
+                  min={exception.startDate}
+                  onChange={(e) => updateException(index, { endDate: e.target.value })}
+                  className="h-8 text-sm"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => updateExceptions(exceptions.filter((_, i) => i !== index))}
+                  className="h-8 w-8"
+                  title="Remove exception"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-[auto_1fr] gap-3 items-start">
+                <div className="flex items-center gap-2 h-8">
+                  <Switch
+                    checked={exception.isOpen}
+                    onCheckedChange={(checked) => updateException(index, {
+                      isOpen: checked,
+                      ranges: checked && exception.ranges.length === 0 ? [DEFAULT_RANGE] : exception.ranges,
+                    })}
+                  />
+                  <span className="text-sm">{exception.isOpen ? "Open" : "Closed"}</span>
+                </div>
+                {exception.isOpen && (
+                  <TimeRangesInput
+                    ranges={exception.ranges.length ? exception.ranges : [DEFAULT_RANGE]}
+                    onChange={(ranges) => updateException(index, { ranges })}
+                  />
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface TimeRangesInputProps {
+  ranges: TimeRange[];
+  onChange: (ranges: TimeRange[]) => void;
+}
+
+const TimeRangesInput = ({ ranges, onChange }: TimeRangesInputProps) => {
+  const updateRange = (index: number, updates: Partial<TimeRange>) => {
+    onChange(ranges.map((range, i) => (i === index ? { ...range, ...updates } : range)));
+  };
+
+  const addRange = () => {
+    // Start the new shift where the last one ends, so the common lunch/dinner split needs one edit
+    const last = ranges[ranges.length - 1];
+    onChange([...ranges, { openTime: last.closeTime, closeTime: last.closeTime }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {ranges.map((range, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+          <Input
+            type="time"
+            value={range.openTime || "09:00"}
+            onChange={(e) => updateRange(index, { openTime: e.target.value })}
+            className="h-8 text-sm"
+          />
+          <Input
+            type="time"
+            value={range.closeTime || "21:00"}
+            onChange={(e) => updateRange(index, { closeTime: e.target.value })}
+            className="h-8 text-sm"
+          />
+          {index === 0 ? (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={addRange}
+              className="h-8 w-8"
+              title="Add another time range"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(ranges.filter((_, i) => i !== index))}
+              className="h-8 w-8"
+              title="Remove time range"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
     </div>
   );
 };
 
-export const getDefaultOpeningHours = (): OpeningHoursData => ({
+export const getDefaultOpeningHours = (): OpeningHours => ({
   monday: { ...DEFAULT_HOURS },
   tuesday: { ...DEFAULT_HOURS },
   wednesday: { ...DEFAULT_HOURS },
@@ -130,56 +290,3 @@ export const getDefaultOpeningHours = (): OpeningHoursData => ({
   saturday: { ...DEFAULT_HOURS },
   sunday: { ...DEFAULT_HOURS },
 });
-
-export const parseGoogleHours = (weekdayText?: string[]): OpeningHoursData => {
-  const hours = getDefaultOpeningHours();
-  
-  if (!weekdayText) return hours;
-  
-  const dayMap: Record<string, keyof OpeningHoursData> = {
-    "Monday": "monday",
-    "Tuesday": "tuesday", 
-    "Wednesday": "wednesday",
-    "Thursday": "thursday",
-    "Friday": "friday",
-    "Saturday": "saturday",
-    "Sunday": "sunday",
-  };
-  
-  weekdayText.forEach(text => {
-    // Parse strings like "Monday: 9:00 AM – 9:00 PM"
-    const match = text.match(/^(\w+):\s*(.+)$/);
-    if (match) {
-      const [, dayName, hoursStr] = match;
-      const dayKey = dayMap[dayName];
-      
-      if (dayKey) {
-        if (hoursStr.toLowerCase().includes("closed")) {
-          hours[dayKey] = { isOpen: false, openTime: "", closeTime: "" };
-        } else {
-          const timeMatch = hoursStr.match(/(\d{1,2}):(\d{2})\s*(AM|PM)?\s*[–-]\s*(\d{1,2}):(\d{2})\s*(AM|PM)?/i);
-          if (timeMatch) {
-            const [, openHour, openMin, openAmPm, closeHour, closeMin, closeAmPm] = timeMatch;
-            
-            const convertTo24 = (hour: string, ampm?: string) => {
-              let h = parseInt(hour);
-              if (ampm?.toUpperCase() === "PM" && h !== 12) h += 12;
-              if (ampm?.toUpperCase() === "AM" && h === 12) h = 0;
-              return h.toString().padStart(2, "0");
-            };
-            
-            hours[dayKey] = {
-              isOpen: true,
-              openTime: `${convertTo24(openHour, openAmPm)}:${openMin}`,
-              closeTime: `${convertTo24(closeHour, closeAmPm)}:${closeMin}`,
-            };
-          }
-        }
-      }
-    }
-  });
-  
-  return hours;
-};
-
-export type { OpeningHoursData, DayHours };
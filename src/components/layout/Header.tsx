@@ -18,6 +18,7 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTheme } from "@/contexts/ThemeContext";
+import { NotificationsMenu } from "./NotificationsMenu";
 
 export const Header = () => {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -94,6 +95,8 @@ export const Header = () => {
               </DropdownMenuContent>
             </DropdownMenu>
 
+            {!loading && user && <NotificationsMenu />}
+
             {!loading && user ? (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -140,12 +143,12 @@ export const Header = () => {
                     <Settings className="mr-2 h-4 w-4" />
                     Settings
                   </DropdownMenuItem>
-                  {role === 'admin' && (
+                  {(role === 'admin' || role === 'moderator') && (
                     <>
                       <DropdownMenuSeparator />
                       <DropdownMenuItem onClick={() => navigate('/admin')}>
                         <Shield className="mr-2 h-4 w-4" />
-                        Admin Dashboard
+                        {role === 'admin' ? 'Admin Dashboard' : 'Moderation'}
                       </DropdownMenuItem>
                     </>
                   )}
@@ -0,0 +1,116 @@
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { cn } from "@/lib/utils";
+import type { Database } from "@/integrations/supabase/types";
+
+type NotificationType = Database["public"]["Enums"]["notification_type"];
+
+const notificationMessages: Record<NotificationType, (restaurantName: string) => string> = {
+  review_response: (restaurantName) => `Your review of ${restaurantName} got a response`,
+};
+
+export const NotificationsMenu = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: notifications = [] } = useQuery({
+    queryKey: ['notifications', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, type, restaurant_id, read_at, created_at, restaurants(name)')
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+    refetchInterval: 60_000,
+  });
+
+  const unreadIds = notifications.filter((n) => !n.read_at).map((n) => n.id);
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      if (ids.length === 0) return;
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .in('id', ids);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', user?.id] });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-4 w-4" />
+          {unreadIds.length > 0 && (
+            <span className="absolute top-1 right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-medium leading-4">
+              {unreadIds.length > 9 ? '9+' : unreadIds.length}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadIds.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => markReadMutation.mutate(unreadIds)}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length > 0 ? (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="flex flex-col items-start gap-0.5"
+              onClick={() => {
+                if (!notification.read_at) markReadMutation.mutate([notification.id]);
+                if (notification.restaurant_id) navigate(`/restaurant/${notification.restaurant_id}`);
+              }}
+            >
+              <span className={cn("text-sm", !notification.read_at && "font-medium")}>
+                {notificationMessages[notification.type](notification.restaurants?.name ?? 'a restaurant')}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+              </span>
+            </DropdownMenuItem>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">You're all caught up.</p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
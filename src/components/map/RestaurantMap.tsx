@@ -1,6 +1,6 @@
-import { useRef, useCallback, useState, useEffect } from "react";
+import { useRef, useCallback, useState, useEffect, useMemo, ReactNode } from "react";
 import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents } from "react-leaflet";
-import { Icon, divIcon, LatLngBounds } from "leaflet";
+import { Icon, divIcon, LatLngBounds, latLngBounds, point } from "leaflet";
 import { motion, AnimatePresence } from "framer-motion";
 import { MapPin, Navigation, Loader2, Star, ExternalLink, X, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -28,6 +28,7 @@ interface RestaurantMapProps {
   selectedId?: string;
   onMarkerClick?: (id: string) => void;
   onBoundsChange?: (bounds: { north: number; south: number; east: number; west: number }) => void;
+  onZoomChange?: (zoom: number) => void;
   onNavigateToRestaurant?: (id: string) => void;
   center?: { lat: number; lng: number };
   zoom?: number;
@@ -61,13 +62,129 @@ const getMarkerColor = (restaurant: Restaurant) => {
   return '#d4a853'; // Gold/amber for partial halal
 };
 
+// Clustering: markers closer than CLUSTER_RADIUS_PX on screen are grouped per halal status,
+// until CLUSTER_MAX_ZOOM where every marker is shown individually
+const CLUSTER_RADIUS_PX = 60;
+const CLUSTER_MAX_ZOOM = 16;
+
+interface MarkerCluster {
+  key: string;
+  lat: number;
+  lng: number;
+  halal_status: Restaurant['halal_status'];
+  restaurants: Restaurant[];
+}
+
+const createClusterIcon = (count: number, halalStatus: Restaurant['halal_status']) => {
+  const size = count < 10 ? 36 : count < 50 ? 44 : 52;
+  const color = halalStatus === 'Full Halal' ? '#2da05a' : '#d4a853';
+
+  return divIcon({
+    className: 'custom-marker',
+    html: `
+      <div class="rounded-full flex items-center justify-center shadow-lg border-2 border-white text-white font-semibold text-sm" style="background-color: ${color}; width: ${size}px; height: ${size}px; box-shadow: 0 0 0 4px ${color}55;">
+        ${count}
+      </div>
+    `,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
+// Mounts only markers inside the (padded) viewport and groups nearby ones into clusters
+const ClusteredMarkers = ({
+  restaurants,
+  pinnedIds,
+  renderMarker,
+}: {
+  restaurants: Restaurant[];
+  // Restaurants that are never clustered so a selection is always visible
+  pinnedIds: (string | undefined)[];
+  renderMarker: (restaurant: Restaurant) => ReactNode;
+}) => {
+  const map = useMap();
+  const [view, setView] = useState(() => ({ zoom: map.getZoom(), bounds: map.getBounds() }));
+
+  useMapEvents({
+    moveend: () => setView({ zoom: map.getZoom(), bounds: map.getBounds() }),
+  });
+
+  const { singles, clusters } = useMemo(() => {
+    const visibleBounds = view.bounds.pad(0.2);
+    const visible = restaurants.filter(r => visibleBounds.contains([r.lat, r.lng]));
+
+    if (view.zoom >= CLUSTER_MAX_ZOOM) {
+      return { singles: visible, clusters: [] as MarkerCluster[] };
+    }
+
+    const cells: Record<string, Restaurant[]> = {};
+    const pinned: Restaurant[] = [];
+    visible.forEach((restaurant) => {
+      if (pinnedIds.includes(restaurant.id)) {
+        pinned.push(restaurant);
+        return;
+      }
+      const projected = map.project([restaurant.lat, restaurant.lng], view.zoom);
+      const key = `${restaurant.halal_status}-${Math.floor(projected.x / CLUSTER_RADIUS_PX)}-${Math.floor(projected.y / CLUSTER_RADIUS_PX)}`;
+      (cells[key] ||= []).push(restaurant);
+    });
+
+    const singleMarkers = [...pinned];
+    const clusterMarkers: MarkerCluster[] = [];
+    Object.entries(cells).forEach(([key, members]) => {
+      if (members.length === 1) {
+        singleMarkers.push(members[0]);
+        return;
+      }
+      clusterMarkers.push({
+        key,
+        lat: members.reduce((sum, r) => sum + r.lat, 0) / members.length,
+        lng: members.reduce((sum, r) => sum + r.lng, 0) / members.length,
+        halal_status: members[0].halal_status,
+        restaurants: members,
+      });
+    });
+
+    return { singles: singleMarkers, clusters: clusterMarkers };
+  }, [restaurants, pinnedIds, view, map]);
+
+  const expandCluster = (cluster: MarkerCluster) => {
+    const bounds = latLngBounds(cluster.restaurants.map(r => [r.lat, r.lng] as [number, number]));
+    const targetZoom = Math.min(map.getBoundsZoom(bounds, false, point(40, 40)), CLUSTER_MAX_ZOOM);
+    // Members at (nearly) the same spot can't be separated by fitting bounds; zoom past clustering
+    if (targetZoom <= view.zoom) {
+      map.flyTo(bounds.getCenter(), CLUSTER_MAX_ZOOM, { duration: 0.5 });
+    } else {
+      map.flyTo(bounds.getCenter(), targetZoom, { duration: 0.5 });
+    }
+  };
+
+  return (
+    <>
+      {clusters.map((cluster) => (
+        <Marker
+          key={cluster.key}
+          position={[cluster.lat, cluster.lng]}
+          icon={createClusterIcon(cluster.restaurants.length, cluster.halal_status)}
+          eventHandlers={{
+            click: () => expandCluster(cluster),
+          }}
+        />
+      ))}
+      {singles.map(renderMarker)}
+    </>
+  );
+};
+
 // Component to handle map events
 const MapEventHandler = ({ 
   onBoundsChange, 
+  onZoomChange,
   selectedId, 
   restaurants 
 }: { 
   onBoundsChange?: (bounds: { north: number; south: number; east: number; west: number }) => void;
+  onZoomChange?: (zoom: number) => void;
   selectedId?: string;
   restaurants: Restaurant[];
 }) => {
@@ -85,6 +202,9 @@ const MapEventHandler = ({
         });
       }
     },
+    zoomend: () => {
+      onZoomChange?.(map.getZoom());
+    },
   });
 
   // Fly to selected restaurant
@@ -317,6 +437,7 @@ export const RestaurantMap = ({
   selectedId,
   onMarkerClick,
   onBoundsChange,
+  onZoomChange,
   onNavigateToRestaurant,
   center = { lat: 40.7128, lng: -74.0060 },
   zoom = 12,
@@ -343,6 +464,84 @@ export const RestaurantMap = ({
     setSelectedRestaurant(null);
   }, []);
 
+  const pinnedIds = useMemo(() => [selectedId, selectedRestaurant?.id], [selectedId, selectedRestaurant?.id]);
+
+  const renderRestaurantMarker = (restaurant: Restaurant) => (
+    <Marker
+      key={restaurant.id}
+      position={[restaurant.lat, restaurant.lng]}
+      icon={createMarkerIcon(
+        getMarkerColor(restaurant),
+        selectedId === restaurant.id || selectedRestaurant?.id === restaurant.id
+      )}
+      eventHandlers={{
+        click: () => handleMarkerClick(restaurant),
+      }}
+    >
+      {/* Only show popup on desktop - card-like styling */}
+      {!isMobile && (
+        <Popup className="restaurant-popup" closeButton={true}>
+          <div className="popup-card">
+            {restaurant.images && restaurant.images[0] && (
+              <div className="popup-card-image">
+                <img 
+                  src={restaurant.images[0]} 
+                  alt={restaurant.name}
+                />
+              </div>
+            )}
+            <div className="popup-card-content">
+              <div className="popup-card-header">
+                <h3 className="popup-card-title">{restaurant.name}</h3>
+                {restaurant.rating !== undefined && restaurant.rating > 0 && (
+                  <div className="popup-card-rating">
+                    <Star className="h-3.5 w-3.5 fill-gold text-gold" />
+                    <span>{restaurant.rating.toFixed(1)}</span>
+                  </div>
+                )}
+              </div>
+              <div className="popup-card-meta">
+                {restaurant.cuisine_type && (
+                  <span>{restaurant.cuisine_type}</span>
+                )}
+                {restaurant.price_range && (
+                  <>
+                    <span className="popup-card-dot">•</span>
+                    <span className="popup-card-price">{restaurant.price_range}</span>
+                  </>
+                )}
+              </div>
+              <Badge
+                variant="secondary"
+                className={cn(
+                  "text-xs font-medium",
+                  restaurant.halal_status === 'Full Halal' 
+                    ? "bg-halal-full text-halal-full-foreground" 
+                    : "bg-halal-partial text-halal-partial-foreground"
+                )}
+              >
+                {restaurant.halal_status}
+              </Badge>
+              {onNavigateToRestaurant && (
+                <Button 
+                  size="sm" 
+                  className="w-full mt-2 gap-2"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onNavigateToRestaurant(restaurant.id);
+                  }}
+                >
+                  View Details
+                  <ExternalLink className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </Popup>
+      )}
+    </Marker>
+  );
+
   return (
     <div className="relative w-full h-full rounded-xl overflow-hidden" style={{ zIndex: 0, minHeight: '300px' }}>
       <MapContainer
@@ -360,6 +559,7 @@ export const RestaurantMap = ({
 
         <MapEventHandler 
           onBoundsChange={onBoundsChange} 
+          onZoomChange={onZoomChange}
           selectedId={selectedId}
           restaurants={restaurants}
         />
@@ -378,82 +578,12 @@ export const RestaurantMap = ({
           </Marker>
         )}
 
-        {/* Restaurant markers */}
-        {restaurants.map((restaurant) => (
-          <Marker
-            key={restaurant.id}
-            position={[restaurant.lat, restaurant.lng]}
-            icon={createMarkerIcon(
-              getMarkerColor(restaurant),
-              selectedId === restaurant.id || selectedRestaurant?.id === restaurant.id
-            )}
-            eventHandlers={{
-              click: () => handleMarkerClick(restaurant),
-            }}
-          >
-            {/* Only show popup on desktop - card-like styling */}
-            {!isMobile && (
-              <Popup className="restaurant-popup" closeButton={true}>
-                <div className="popup-card">
-                  {restaurant.images && restaurant.images[0] && (
-                    <div className="popup-card-image">
-                      <img 
-                        src={restaurant.images[0]} 
-                        alt={restaurant.name}
-                      />
-                    </div>
-                  )}
-                  <div className="popup-card-content">
-                    <div className="popup-card-header">
-                      <h3 className="popup-card-title">{restaurant.name}</h3>
-                      {restaurant.rating !== undefined && restaurant.rating > 0 && (
-                        <div className="popup-card-rating">
-                          <Star className="h-3.5 w-3.5 fill-gold text-gold" />
-                          <span>{restaurant.rating.toFixed(1)}</span>
-                        </div>
-                      )}
-                    </div>
-                    <div className="popup-card-meta">
-                      {restaurant.cuisine_type && (
-                        <span>{restaurant.cuisine_type}</span>
-                      )}
-                      {restaurant.price_range && (
-                        <>
-                          <span className="popup-card-dot">•</span>
-                          <span className="popup-card-price">{restaurant.price_range}</span>
-                        </>
-                      )}
-                    </div>
-                    <Badge
-                      variant="secondary"
-                      className={cn(
-                        "text-xs font-medium",
-                        restaurant.halal_status === 'Full Halal' 
-                          ? "bg-halal-full text-halal-full-foreground" 
-                          : "bg-halal-partial text-halal-partial-foreground"
-                      )}
-                    >
-                      {restaurant.halal_status}
-                    </Badge>
-                    {onNavigateToRestaurant && (
-                      <Button 
-                        size="sm" 
-                        className="w-full mt-2 gap-2"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onNavigateToRestaurant(restaurant.id);
-                        }}
-                      >
-                        View Details
-                        <ExternalLink className="h-3 w-3" />
-                      </Button>
-                    )}
-                  </div>
-                </div>
-              </Popup>
-            )}
-          </Marker>
-        ))}
+        {/* Restaurant markers, clustered and limited to the viewport */}
+        <ClusteredMarkers
+          restaurants={restaurants}
+          pinnedIds={pinnedIds}
+          renderMarker={renderRestaurantMarker}
+        />
       </MapContainer>
 
       {/* Mobile annotation overlay */}
@@ -0,0 +1,63 @@
+import { ShieldCheck, ShieldAlert, FileText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import {
+  HalalCertification,
+  formatCertificationDate,
+  summarizeCertifications,
+} from "@/utils/halalCertifications";
+
+interface CertificationBadgeProps {
+  certifications: HalalCertification[];
+  className?: string;
+}
+
+export const CertificationBadge = ({ certifications, className }: CertificationBadgeProps) => {
+  const summary = summarizeCertifications(certifications);
+  if (!summary) return null;
+
+  const { certification, status } = summary;
+  const isValid = status === 'valid';
+
+  const label = isValid
+    ? certification.expires_on
+      ? `Certified by ${certification.certifying_body} until ${formatCertificationDate(certification.expires_on)}`
+      : `Certified by ${certification.certifying_body}`
+    : status === 'expired'
+      ? `Certification expired ${formatCertificationDate(certification.expires_on!)}`
+      : `Certified by ${certification.certifying_body} from ${formatCertificationDate(certification.issued_on!)}`;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      <Badge
+        variant="outline"
+        className={cn(
+          "gap-1.5 py-1 font-medium",
+          isValid
+            ? "border-halal-full/40 bg-halal-full/10 text-halal-full"
+            : "border-halal-partial/40 bg-halal-partial/10 text-halal-partial"
+        )}
+      >
+        {isValid ? <ShieldCheck className="h-3.5 w-3.5" /> : <ShieldAlert className="h-3.5 w-3.5" />}
+        {label}
+      </Badge>
+      {status === 'expired' && (
+        <span className="text-xs text-muted-foreground">
+          Last certified by {certification.certifying_body}
+        </span>
+      )}
+      {certification.document_url && (
+        <a
+          href={certification.document_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+        >
+          <FileText className="h-3 w-3" />
+          View certificate
+          {certification.certificate_number && ` #${certification.certificate_number}`}
+        </a>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { format, parseISO } from "date-fns";
+import { CalendarClock, CircleSlash } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { cn } from "@/lib/utils";
+import { lifecycleStatusLabels, type LifecycleStatus } from "@/utils/restaurantLifecycle";
+
+interface ClosureBannerProps {
+  // Effective status, see getEffectiveLifecycleStatus; nothing is shown for active restaurants
+  status: LifecycleStatus;
+  reopensOn?: string | null;
+  className?: string;
+}
+
+export const ClosureBanner = ({ status, reopensOn, className }: ClosureBannerProps) => {
+  if (status === 'active') return null;
+
+  const isPermanent = status === 'permanently_closed';
+  const Icon = isPermanent ? CircleSlash : CalendarClock;
+
+  return (
+    <Alert
+      variant={isPermanent ? "destructive" : "default"}
+      className={cn(!isPermanent && "border-halal-partial/50 bg-halal-partial/10 [&>svg]:text-halal-partial", className)}
+    >
+      <Icon className="h-4 w-4" />
+      <AlertTitle>{lifecycleStatusLabels[status]}</AlertTitle>
+      <AlertDescription>
+        {isPermanent
+          ? "This restaurant has closed for good. It's kept here so reviews and lists still make sense."
+          : reopensOn
+            ? `Expected to reopen on ${format(parseISO(reopensOn), "EEEE, MMMM d")}.`
+            : "No reopening date yet. Check before you go."}
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Flag, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  MAX_CLOSURE_REPORT_NOTE_LENGTH,
+  lifecycleStatusLabels,
+  type LifecycleStatus,
+} from "@/utils/restaurantLifecycle";
+
+interface ClosureReportButtonProps {
+  restaurantId: string;
+  // Effective status, so a lapsed temporary closure offers closure reports again
+  status: LifecycleStatus;
+  className?: string;
+}
+
+const reportOptions: Record<LifecycleStatus, { value: LifecycleStatus; label: string }[]> = {
+  active: [
+    { value: 'temporarily_closed', label: 'Temporarily closed' },
+    { value: 'permanently_closed', label: 'Permanently closed' },
+  ],
+  temporarily_closed: [
+    { value: 'active', label: "It's open again" },
+    { value: 'permanently_closed', label: 'Closed for good' },
+  ],
+  permanently_closed: [
+    { value: 'active', label: "It's open again" },
+  ],
+};
+
+export const ClosureReportButton = ({ restaurantId, status, className }: ClosureReportButtonProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [reportedStatus, setReportedStatus] = useState<LifecycleStatus | null>(null);
+  const [reopensOn, setReopensOn] = useState("");
+  const [note, setNote] = useState("");
+
+  // The user's report that an admin hasn't handled yet
+  const { data: myReport } = useQuery({
+    queryKey: ['closure-report', restaurantId, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('restaurant_closure_reports')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .eq('user_id', user!.id)
+        .is('resolved_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['closure-report', restaurantId] });
+    queryClient.invalidateQueries({ queryKey: ['admin-closure-reports'] });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!user || !reportedStatus) return;
+      const { error } = await supabase
+        .from('restaurant_closure_reports')
+        .insert({
+          restaurant_id: restaurantId,
+          user_id: user.id,
+          reported_status: reportedStatus,
+          reopens_on: reportedStatus === 'temporarily_closed' && reopensOn ? reopensOn : null,
+          note: note.trim() || null,
+        });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Thanks, we'll take a look");
+      setOpen(false);
+      setReportedStatus(null);
+      setReopensOn("");
+      setNote("");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async () => {
+      if (!myReport) return;
+      const { error } = await supabase
+        .from('restaurant_closure_reports')
+        .delete()
+        .eq('id', myReport.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Your report was withdrawn");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  if (myReport) {
+    return (
+      <div className={cn("flex items-center justify-between gap-2 flex-wrap text-xs sm:text-sm", className)}>
+        <p className="text-muted-foreground">
+          You reported "{lifecycleStatusLabels[myReport.reported_status]}" on{' '}
+          {format(new Date(myReport.created_at), 'MMM d, yyyy')}.
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => withdrawMutation.mutate()}
+          disabled={withdrawMutation.isPending}
+        >
+          Withdraw
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn("text-muted-foreground", className)}
+        onClick={() => (user ? setOpen(true) : navigate('/auth/signin'))}
+      >
+        <Flag className="h-4 w-4 mr-2" />
+        {status === 'active' ? "Report closed" : "Report reopened"}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>What's changed?</DialogTitle>
+            <DialogDescription>
+              An admin checks each report before the listing is updated.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex gap-2 flex-wrap">
+              {reportOptions[status].map((option) => (
+                <Button
+                  key={option.value}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className={cn(reportedStatus === option.value && "border-primary bg-primary/10 text-primary")}
+                  onClick={() => setReportedStatus(option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+
+            {reportedStatus === 'temporarily_closed' && (
+              <div className="space-y-2">
+                <Label htmlFor="closure-reopens-on">Reopening date, if known</Label>
+                <Input
+                  id="closure-reopens-on"
+                  type="date"
+                  value={reopensOn}
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  onChange={(e) => setReopensOn(e.target.value)}
+                />
+              </div>
+            )}
+
+            {reportedStatus && (
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value.slice(0, MAX_CLOSURE_REPORT_NOTE_LENGTH))}
+                placeholder="Optional: e.g. sign on the door says closed for renovation"
+                rows={2}
+              />
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => submitMutation.mutate()}
+              disabled={!reportedStatus || submitMutation.isPending}
+            >
+              {submitMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Submit
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,44 @@
+import { Check, AlertTriangle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { getHalalAttributeBadges, parseHalalAttributes } from "@/utils/halalAttributes";
+
+interface HalalAttributeBadgesProps {
+  attributes: unknown;
+  // Show at most this many badges (cards have limited room)
+  limit?: number;
+  size?: 'sm' | 'default';
+  className?: string;
+}
+
+export const HalalAttributeBadges = ({ attributes, limit, size = 'default', className }: HalalAttributeBadgesProps) => {
+  const badges = getHalalAttributeBadges(parseHalalAttributes(attributes));
+  const visible = limit ? badges.slice(0, limit) : badges;
+
+  if (visible.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-1.5", className)}>
+      {visible.map((badge) => (
+        <Badge
+          key={badge.key}
+          variant="outline"
+          className={cn(
+            "gap-1 font-normal",
+            size === 'sm' ? "text-[10px] px-1.5 py-0" : "text-xs",
+            badge.tone === 'positive'
+              ? "border-halal-full/30 text-halal-full"
+              : "border-halal-partial/40 text-halal-partial"
+          )}
+        >
+          {badge.tone === 'positive' ? (
+            <Check className={size === 'sm' ? "h-2.5 w-2.5" : "h-3 w-3"} />
+          ) : (
+            <AlertTriangle className={size === 'sm' ? "h-2.5 w-2.5" : "h-3 w-3"} />
+          )}
+          {badge.label}
+        </Badge>
+      ))}
+    </div>
+  );
+};
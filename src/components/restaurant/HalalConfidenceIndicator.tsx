@@ -0,0 +1,42 @@
+import { ShieldCheck, ShieldQuestion } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatLastConfirmed, getConfidenceLevel } from "@/utils/halalConfidence";
+
+interface HalalConfidenceIndicatorProps {
+  confidence?: number | null;
+  lastConfirmedAt?: string | null;
+  size?: 'sm' | 'default';
+  className?: string;
+}
+
+export const HalalConfidenceIndicator = ({
+  confidence,
+  lastConfirmedAt,
+  size = 'default',
+  className,
+}: HalalConfidenceIndicatorProps) => {
+  if (confidence === null || confidence === undefined) return null;
+
+  const level = getConfidenceLevel(confidence);
+  const Icon = level === 'low' ? ShieldQuestion : ShieldCheck;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1",
+        size === 'sm' ? "text-xs" : "text-sm",
+        level === 'high' && "text-halal-full",
+        level === 'medium' && "text-muted-foreground",
+        level === 'low' && "text-halal-partial",
+        className
+      )}
+      title="Community halal confidence"
+    >
+      <Icon className={size === 'sm' ? "h-3.5 w-3.5" : "h-4 w-4"} />
+      <span className="font-medium">{Math.round(confidence * 100)}% confident</span>
+      <span className="text-muted-foreground">
+        · {lastConfirmedAt ? formatLastConfirmed(lastConfirmedAt) : "Not yet confirmed"}
+      </span>
+    </div>
+  );
+};
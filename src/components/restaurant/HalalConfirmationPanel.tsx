@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, ThumbsDown, ThumbsUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { HalalConfidenceIndicator } from "./HalalConfidenceIndicator";
+import { MAX_CONFIRMATION_NOTE_LENGTH, type HalalConfirmationVerdict } from "@/utils/halalConfidence";
+
+interface HalalConfirmationPanelProps {
+  restaurantId: string;
+  halalStatus: string;
+  className?: string;
+}
+
+export const HalalConfirmationPanel = ({ restaurantId, halalStatus, className }: HalalConfirmationPanelProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [verdict, setVerdict] = useState<HalalConfirmationVerdict | null>(null);
+  const [note, setNote] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+
+  const { data: confidence } = useQuery({
+    queryKey: ['halal-confidence', restaurantId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('restaurant_halal_confidence')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: myConfirmation } = useQuery({
+    queryKey: ['halal-confirmation', restaurantId, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('halal_confirmations')
+        .select('*')
+        .eq('restaurant_id', restaurantId)
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  // Start from the user's existing vote when they change it
+  useEffect(() => {
+    setVerdict(myConfirmation?.verdict ?? null);
+    setNote(myConfirmation?.note ?? "");
+  }, [myConfirmation]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['halal-confidence', restaurantId] });
+    queryClient.invalidateQueries({ queryKey: ['halal-confirmation', restaurantId] });
+    queryClient.invalidateQueries({ queryKey: ['restaurants', 'explore'] });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!user || !verdict) return;
+      // One vote per user; re-submitting refreshes it so recency counts
+      const { error } = await supabase
+        .from('halal_confirmations')
+        .upsert(
+          {
+            restaurant_id: restaurantId,
+            user_id: user.id,
+            verdict,
+            note: note.trim() || null,
+          },
+          { onConflict: 'restaurant_id,user_id' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(verdict === 'confirm' ? "Thanks for confirming!" : "Thanks, we'll take a look");
+      setIsEditing(false);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      if (!myConfirmation) return;
+      const { error } = await supabase
+        .from('halal_confirmations')
+        .delete()
+        .eq('id', myConfirmation.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Your response was removed");
+      setIsEditing(false);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const showForm = !!user && (!myConfirmation || isEditing);
+
+  return (
+    <div className={cn("rounded-xl border bg-muted/30 p-4 space-y-3", className)}>
+      <div className="space-y-1">
+        <p className="font-medium text-sm sm:text-base">Is this still {halalStatus}?</p>
+        {confidence?.confidence !== null && confidence?.confidence !== undefined ? (
+          <HalalConfidenceIndicator
+            confidence={confidence.confidence}
+            lastConfirmedAt={confidence.last_confirmed_at}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">No one has confirmed this yet.</p>
+        )}
+      </div>
+
+      {!user ? (
+        <Button variant="outline" size="sm" onClick={() => navigate('/auth/signin')}>
+          Sign in to confirm
+        </Button>
+      ) : !showForm && myConfirmation ? (
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <p className="text-sm text-muted-foreground">
+            You {myConfirmation.verdict === 'confirm' ? 'confirmed' : 'disputed'} this on{' '}
+            {format(new Date(myConfirmation.updated_at), 'MMM d, yyyy')}.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+              Update
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeMutation.mutate()}
+              disabled={removeMutation.isPending}
+            >
+              Remove
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex gap-2 flex-wrap">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className={cn(verdict === 'confirm' && "border-halal-full bg-halal-full/10 text-halal-full")}
+              onClick={() => setVerdict('confirm')}
+            >
+              <ThumbsUp className="h-4 w-4 mr-2" />
+              Yes, still halal
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className={cn(verdict === 'dispute' && "border-destructive bg-destructive/10 text-destructive")}
+              onClick={() => setVerdict('dispute')}
+            >
+              <ThumbsDown className="h-4 w-4 mr-2" />
+              Something changed
+            </Button>
+          </div>
+
+          {verdict && (
+            <>
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value.slice(0, MAX_CONFIRMATION_NOTE_LENGTH))}
+                placeholder={verdict === 'confirm'
+                  ? "Optional: e.g. saw the certificate on the wall"
+                  : "Optional: what changed? e.g. new owners, now serves alcohol"}
+                rows={2}
+              />
+              <div className="flex justify-end gap-2">
+                {isEditing && (
+                  <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                    Cancel
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  onClick={() => submitMutation.mutate()}
+                  disabled={submitMutation.isPending}
+                >
+                  {submitMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  Submit
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import { cn } from "@/lib/utils";
+import { formatLifecycleStatus, type LifecycleStatus } from "@/utils/restaurantLifecycle";
+
+interface LifecycleStatusBadgeProps {
+  // Effective status, see getEffectiveLifecycleStatus; nothing is shown for active restaurants
+  status: LifecycleStatus;
+  reopensOn?: string | null;
+  className?: string;
+}
+
+export const LifecycleStatusBadge = ({ status, reopensOn, className }: LifecycleStatusBadgeProps) => {
+  if (status === 'active') return null;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center text-xs font-medium px-2 py-0.5 rounded-full",
+        status === 'permanently_closed'
+          ? "bg-destructive/15 text-destructive"
+          : "bg-halal-partial/15 text-halal-partial",
+        className
+      )}
+    >
+      {formatLifecycleStatus(status, reopensOn)}
+    </span>
+  );
+};
@@ -3,16 +3,19 @@ import { checkIfOpen } from "@/utils/timeFormat";
 
 interface OpenStatusBadgeProps {
   openingHours: unknown;
+  // Restaurant's IANA timezone; hours are evaluated there
+  timeZone?: string | null;
   className?: string;
   showDetails?: boolean;
 }
 
 export const OpenStatusBadge = ({ 
   openingHours, 
+  timeZone,
   className,
   showDetails = true 
 }: OpenStatusBadgeProps) => {
-  const { isOpen, status } = checkIfOpen(openingHours);
+  const { isOpen, status } = checkIfOpen(openingHours, timeZone);
 
   return (
     <span
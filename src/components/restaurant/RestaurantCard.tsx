@@ -4,8 +4,13 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ImageCarousel } from "./ImageCarousel";
 import { OpenStatusBadge } from "./OpenStatusBadge";
+import { HalalAttributeBadges } from "./HalalAttributeBadges";
+import { HalalConfidenceIndicator } from "./HalalConfidenceIndicator";
+import { LifecycleStatusBadge } from "./LifecycleStatusBadge";
 import { AddToListButton } from "@/components/favorites/AddToListButton";
 import { cn } from "@/lib/utils";
+import { getEffectiveLifecycleStatus, type LifecycleStatus } from "@/utils/restaurantLifecycle";
+import { getZonedNow } from "@/utils/timezone";
 
 interface Restaurant {
   id: string;
@@ -20,6 +25,12 @@ interface Restaurant {
   rating: number;
   review_count: number;
   opening_hours?: unknown;
+  timezone?: string | null;
+  halal_attributes?: unknown;
+  halal_confidence?: number | null;
+  last_confirmed_at?: string | null;
+  lifecycle_status?: LifecycleStatus;
+  reopens_on?: string | null;
 }
 
 interface RestaurantCardProps {
@@ -37,12 +48,20 @@ export const RestaurantCard = ({
   onFavorite,
   isFavorited = false 
 }: RestaurantCardProps) => {
+  const lifecycleStatus = getEffectiveLifecycleStatus(
+    restaurant.lifecycle_status,
+    restaurant.reopens_on,
+    getZonedNow(restaurant.timezone)
+  );
+  const isClosed = lifecycleStatus !== 'active';
+
   return (
     <motion.div
       layout
       initial={{ opacity: 0, y: 20 }}
       animate={{ 
-        opacity: 1, 
+        // Closed places stay visible but clearly out of service
+        opacity: isClosed ? 0.6 : 1, 
         y: 0,
         scale: isHighlighted ? 1.02 : 1,
       }}
@@ -52,7 +71,8 @@ export const RestaurantCard = ({
       className={cn(
         "group relative rounded-xl overflow-hidden bg-card border transition-all duration-500 cursor-pointer",
         isHighlighted && "ring-2 ring-primary shadow-elevated bg-primary/5",
-        restaurant.is_sponsored && "ring-1 ring-gold/50"
+        restaurant.is_sponsored && "ring-1 ring-gold/50",
+        isClosed && "grayscale"
       )}
       onClick={() => onSelect?.(restaurant.id)}
     >
@@ -139,10 +159,23 @@ export const RestaurantCard = ({
           </Badge>
           
           {/* Open/Closed Status */}
-          {restaurant.opening_hours && (
-            <OpenStatusBadge openingHours={restaurant.opening_hours} showDetails={false} />
-          )}
+          {isClosed ? (
+            <LifecycleStatusBadge status={lifecycleStatus} reopensOn={restaurant.reopens_on} />
+          ) : restaurant.opening_hours ? (
+            <OpenStatusBadge openingHours={restaurant.opening_hours} timeZone={restaurant.timezone} showDetails={false} />
+          ) : null}
         </div>
+
+        {/* Halal Details */}
+        <HalalAttributeBadges attributes={restaurant.halal_attributes} limit={3} size="sm" className="mt-2" />
+
+        {/* Community Confidence */}
+        <HalalConfidenceIndicator
+          confidence={restaurant.halal_confidence}
+          lastConfirmedAt={restaurant.last_confirmed_at}
+          size="sm"
+          className="mt-2"
+        />
       </div>
     </motion.div>
   );
@@ -0,0 +1,56 @@
+import { format, parseISO } from "date-fns";
+import { CalendarDays } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getUpcomingHoursExceptions, type HoursException, type OpeningHours } from "@/utils/openingHours";
+import { formatDayHours } from "@/utils/timeFormat";
+import { getZonedNow } from "@/utils/timezone";
+
+interface SpecialHoursListProps {
+  openingHours: OpeningHours | null;
+  // Show at most this many upcoming exceptions
+  limit?: number;
+  // Restaurant's timezone, so "upcoming" follows its calendar
+  timeZone?: string | null;
+  className?: string;
+}
+
+const formatExceptionDates = ({ startDate, endDate }: HoursException) => {
+  const start = parseISO(startDate);
+  if (startDate === endDate) return format(start, "EEE, MMM d");
+  return `${format(start, "MMM d")} – ${format(parseISO(endDate), "MMM d")}`;
+};
+
+export const SpecialHoursList = ({ openingHours, limit = 5, timeZone, className }: SpecialHoursListProps) => {
+  const now = getZonedNow(timeZone);
+  const exceptions = getUpcomingHoursExceptions(openingHours, now).slice(0, limit);
+  if (exceptions.length === 0) return null;
+
+  const today = format(now, "yyyy-MM-dd");
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <p className="flex items-center gap-2 text-xs sm:text-sm font-medium">
+        <CalendarDays className="h-4 w-4 text-muted-foreground" />
+        Special Hours
+      </p>
+      {exceptions.map((exception, index) => {
+        const isActive = exception.startDate <= today;
+        return (
+          <div
+            key={`${exception.startDate}-${index}`}
+            className={cn(
+              "flex justify-between gap-3 text-xs sm:text-sm",
+              isActive && "font-medium text-primary"
+            )}
+          >
+            <span className="min-w-0">
+              {exception.label || "Special hours"}
+              <span className="block text-muted-foreground font-normal">{formatExceptionDates(exception)}</span>
+            </span>
+            <span className="text-right">{formatDayHours(exception)}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
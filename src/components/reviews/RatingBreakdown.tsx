@@ -0,0 +1,67 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getRatingHistogram, getSubRatingSummaries, type SubRatings } from "@/utils/reviewRatings";
+
+interface RatingBreakdownProps {
+  reviews: (Partial<SubRatings> & { rating: number })[];
+  // Star rating currently used as a filter, highlighted in the histogram
+  selectedRating: number | null;
+  onRatingSelect: (rating: number | null) => void;
+  className?: string;
+}
+
+export const RatingBreakdown = ({ reviews, selectedRating, onRatingSelect, className }: RatingBreakdownProps) => {
+  if (reviews.length === 0) return null;
+
+  const histogram = getRatingHistogram(reviews);
+  const maxCount = Math.max(...histogram.map((bucket) => bucket.count));
+  const summaries = getSubRatingSummaries(reviews);
+
+  return (
+    <div className={cn("grid gap-4 sm:grid-cols-2 p-4 rounded-xl bg-muted/30", className)}>
+      {/* Histogram; clicking a row filters reviews to that rating */}
+      <div className="space-y-1">
+        {histogram.map(({ stars, count }) => (
+          <button
+            key={stars}
+            type="button"
+            className={cn(
+              "w-full flex items-center gap-2 text-xs rounded px-1 py-0.5 hover:bg-muted disabled:pointer-events-none",
+              selectedRating === stars && "bg-muted"
+            )}
+            onClick={() => onRatingSelect(selectedRating === stars ? null : stars)}
+            disabled={count === 0}
+          >
+            <span className="flex items-center gap-0.5 w-7 shrink-0">
+              {stars}
+              <Star className="h-3 w-3 fill-gold text-gold" />
+            </span>
+            <span className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+              <span
+                className="block h-full rounded-full bg-gold"
+                style={{ width: maxCount > 0 ? `${(count / maxCount) * 100}%` : 0 }}
+              />
+            </span>
+            <span className="w-6 text-right text-muted-foreground">{count}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Dimension averages */}
+      {summaries.length > 0 && (
+        <div className="space-y-1.5">
+          {summaries.map(({ key, label, average, count }) => (
+            <div key={key} className="flex items-center justify-between gap-2 text-sm">
+              <span className={cn(key === 'halal_rating' && "font-medium")}>{label}</span>
+              <span className="flex items-center gap-1">
+                <Star className="h-3.5 w-3.5 fill-gold text-gold" />
+                <span className="font-semibold">{average.toFixed(1)}</span>
+                <span className="text-xs text-muted-foreground">({count})</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
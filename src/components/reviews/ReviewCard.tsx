@@ -1,7 +1,8 @@
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
-import { Star, Edit, Trash2, X, ChevronLeft, ChevronRight, MoreVertical } from "lucide-react";
+import { Star, Edit, Trash2, X, ChevronLeft, ChevronRight, MoreVertical, ThumbsUp, Flag, EyeOff } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -25,45 +26,73 @@ import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { ReviewForm } from "./ReviewForm";
+import { ReviewResponse, type ReviewResponseData } from "./ReviewResponse";
+import { ReviewReportDialog } from "./ReviewReportDialog";
+import { removeReviewImageFiles } from "@/utils/reviewModeration";
+import { subRatingOptions, type SubRatings } from "@/utils/reviewRatings";
 
 interface ReviewCardProps {
-  review: {
+  review: SubRatings & {
     id: string;
     user_id: string;
     rating: number;
     comment: string | null;
     created_at: string;
     restaurant_id: string;
+    hidden_at: string | null;
+    held_reason: string | null;
     profile: {
       username: string | null;
       avatar_url: string | null;
     } | null;
     images: { id: string; url: string }[];
+    helpful_count: number;
+    response: ReviewResponseData | null;
   };
   currentUserId: string | null;
   isAdmin: boolean;
   isOwnReview: boolean;
+  isMarkedHelpful: boolean;
+  // Verified owners of the restaurant, who can respond alongside admins
+  ownerIds: string[];
 }
 
-export const ReviewCard = ({ review, currentUserId, isAdmin, isOwnReview }: ReviewCardProps) => {
+export const ReviewCard = ({
+  review,
+  currentUserId,
+  isAdmin,
+  isOwnReview,
+  isMarkedHelpful,
+  ownerIds,
+}: ReviewCardProps) => {
+  const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [isEditing, setIsEditing] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
 
+  const ratedDimensions = subRatingOptions.filter(({ key }) => review[key] !== null);
   const canDelete = isOwnReview || isAdmin;
   const canEdit = isOwnReview;
 
   const deleteMutation = useMutation({
     mutationFn: async () => {
+      // Removing someone else's review is a moderation action and gets logged
+      if (!isOwnReview) {
+        const { data: imageUrls, error } = await supabase.rpc('moderate_review', {
+          _review_id: review.id,
+          _action: 'delete',
+        });
+        if (error) throw error;
+        await removeReviewImageFiles(imageUrls);
+        return;
+      }
+
       // Delete review images from storage and tables
       if (review.images.length > 0) {
-        const imageFileNames = review.images.map(img => img.url.split('/').pop());
-        
         // From storage
-        await supabase.storage
-          .from('restaurant-images')
-          .remove(imageFileNames as string[]);
+        await removeReviewImageFiles(review.images.map(img => img.url));
 
         // From review_images table
         await supabase
@@ -95,6 +124,30 @@ export const ReviewCard = ({ review, currentUserId, isAdmin, isOwnReview }: Revi
     },
   });
 
+  // One vote per user; a second click takes it back
+  const helpfulMutation = useMutation({
+    mutationFn: async () => {
+      if (!currentUserId) return;
+      const { error } = isMarkedHelpful
+        ? await supabase
+            .from('review_helpful_votes')
+            .delete()
+            .eq('review_id', review.id)
+            .eq('user_id', currentUserId)
+        : await supabase
+            .from('review_helpful_votes')
+            .insert({ review_id: review.id, user_id: currentUserId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['restaurant-reviews', review.restaurant_id] });
+      queryClient.invalidateQueries({ queryKey: ['review-helpful-votes', review.restaurant_id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
   const handleDelete = () => {
     setShowDeleteDialog(false);
     deleteMutation.mutate();
@@ -107,6 +160,10 @@ export const ReviewCard = ({ review, currentUserId, isAdmin, isOwnReview }: Revi
         existingReview={{
           id: review.id,
           rating: review.rating,
+          food_rating: review.food_rating,
+          service_rating: review.service_rating,
+          value_rating: review.value_rating,
+          halal_rating: review.halal_rating,
           comment: review.comment || "",
           images: review.images,
         }}
@@ -142,12 +199,18 @@ export const ReviewCard = ({ review, currentUserId, isAdmin, isOwnReview }: Revi
                 {isOwnReview && (
                   <Badge variant="secondary" className="text-xs">You</Badge>
                 )}
+                {review.hidden_at && (
+                  <Badge variant="outline" className="text-xs gap-1 border-destructive/40 text-destructive">
+                    <EyeOff className="h-3 w-3" />
+                    {review.held_reason ? "Pending review" : "Hidden"}
+                  </Badge>
+                )}
               </div>
               <div className="flex items-center gap-2 flex-shrink-0">
                 <span className="text-xs sm:text-sm text-muted-foreground">
                   {new Date(review.created_at).toLocaleDateString()}
                 </span>
-                {(canEdit || canDelete) && (
+                {(canEdit || canDelete || !isOwnReview) && (
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
                       <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -170,6 +233,14 @@ export const ReviewCard = ({ review, currentUserId, isAdmin, isOwnReview }: Revi
                           Delete
                         </DropdownMenuItem>
                       )}
+                      {!isOwnReview && (
+                        <DropdownMenuItem
+                          onClick={() => (currentUserId ? setShowReportDialog(true) : navigate('/auth/signin'))}
+                        >
+                          <Flag className="h-4 w-4 mr-2" />
+                          Report
+                        </DropdownMenuItem>
+                      )}
                     </DropdownMenuContent>
                   </DropdownMenu>
                 )}
@@ -188,9 +259,31 @@ export const ReviewCard = ({ review, currentUserId, isAdmin, isOwnReview }: Revi
                 />
               ))}
             </div>
+            {ratedDimensions.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {ratedDimensions.map(({ key, label }, idx) => (
+                  <span key={key}>
+                    {idx > 0 && " · "}
+                    {label} <span className="font-medium text-foreground">{review[key]}</span>/5
+                  </span>
+                ))}
+              </p>
+            )}
           </div>
         </div>
 
+        {review.hidden_at && (
+          <p className="text-xs text-destructive mb-2">
+            {review.held_reason
+              ? isOwnReview
+                ? "Waiting for a moderator to check this review. Only you can see it for now."
+                : `Held for moderator review: ${review.held_reason}`
+              : isOwnReview
+                ? "A moderator hid this review. Only you can see it."
+                : "Hidden by a moderator. Only the author and moderators can see it."}
+          </p>
+        )}
+
         {review.comment && (
           <div 
             className="text-muted-foreground text-sm prose prose-sm max-w-none [&_p]:m-0 [&_ul]:mt-1 [&_ol]:mt-1 mb-3"
@@ -217,6 +310,40 @@ export const ReviewCard = ({ review, currentUserId, isAdmin, isOwnReview }: Revi
             ))}
           </div>
         )}
+
+        {/* Helpful Votes */}
+        <div className="flex items-center gap-2 mt-3 text-xs text-muted-foreground">
+          {isOwnReview ? (
+            review.helpful_count > 0 && (
+              <span>
+                {review.helpful_count} {review.helpful_count === 1 ? 'person' : 'people'} found this helpful
+              </span>
+            )
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn("h-7 px-2 text-xs text-muted-foreground", isMarkedHelpful && "text-primary")}
+              onClick={() => (currentUserId ? helpfulMutation.mutate() : navigate('/auth/signin'))}
+              disabled={helpfulMutation.isPending}
+            >
+              <ThumbsUp className={cn("h-3.5 w-3.5 mr-1.5", isMarkedHelpful && "fill-current")} />
+              Helpful{review.helpful_count > 0 && ` (${review.helpful_count})`}
+            </Button>
+          )}
+        </div>
+
+        {/* Owner / Admin Response */}
+        <ReviewResponse
+          reviewId={review.id}
+          restaurantId={review.restaurant_id}
+          response={review.response}
+          responderIsOwner={!!review.response && ownerIds.includes(review.response.user_id)}
+          currentUserId={currentUserId}
+          isAdmin={isAdmin}
+          canRespond={!!currentUserId && (isAdmin || ownerIds.includes(currentUserId))}
+          className="mt-2"
+        />
       </motion.div>
 
       {/* Image Lightbox */}
@@ -299,6 +426,16 @@ export const ReviewCard = ({ review, currentUserId, isAdmin, isOwnReview }: Revi
         )}
       </AnimatePresence>
 
+      {/* Report Dialog */}
+      {currentUserId && !isOwnReview && (
+        <ReviewReportDialog
+          reviewId={review.id}
+          userId={currentUserId}
+          open={showReportDialog}
+          onOpenChange={setShowReportDialog}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
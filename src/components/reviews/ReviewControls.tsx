@@ -0,0 +1,68 @@
+import { ArrowUpDown, Camera, Star } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Toggle } from "@/components/ui/toggle";
+import { cn } from "@/lib/utils";
+import { reviewSortOptions, type ReviewFilters, type ReviewSortOption } from "@/utils/reviewListOptions";
+
+interface ReviewControlsProps {
+  sort: ReviewSortOption;
+  onSortChange: (value: ReviewSortOption) => void;
+  filters: ReviewFilters;
+  onFiltersChange: (filters: ReviewFilters) => void;
+  className?: string;
+}
+
+export const ReviewControls = ({ sort, onSortChange, filters, onFiltersChange, className }: ReviewControlsProps) => {
+  return (
+    <div className={cn("flex items-center gap-2 flex-wrap", className)}>
+      <Select value={sort} onValueChange={(v) => onSortChange(v as ReviewSortOption)}>
+        <SelectTrigger className="h-8 w-auto gap-2 text-xs sm:text-sm">
+          <ArrowUpDown className="h-3.5 w-3.5 text-muted-foreground" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {reviewSortOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.rating?.toString() ?? 'all'}
+        onValueChange={(v) => onFiltersChange({ ...filters, rating: v === 'all' ? null : Number(v) })}
+      >
+        <SelectTrigger className="h-8 w-auto gap-2 text-xs sm:text-sm">
+          <Star className="h-3.5 w-3.5 text-muted-foreground" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All ratings</SelectItem>
+          {[5, 4, 3, 2, 1].map((stars) => (
+            <SelectItem key={stars} value={stars.toString()}>
+              {stars} {stars === 1 ? 'star' : 'stars'}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Toggle
+        variant="outline"
+        size="sm"
+        className="h-8 gap-2 text-xs sm:text-sm"
+        pressed={filters.withPhotos}
+        onPressedChange={(withPhotos) => onFiltersChange({ ...filters, withPhotos })}
+      >
+        <Camera className="h-3.5 w-3.5" />
+        With photos
+      </Toggle>
+    </div>
+  );
+};
@@ -9,6 +9,9 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import { EMPTY_SUB_RATINGS, subRatingOptions, type SubRatings } from "@/utils/reviewRatings";
+import { getModerationHeaders, type AppealableDecision } from "@/utils/contentModeration";
+import { ModerationAppealButton } from "@/components/forms/ModerationAppealButton";
 
 // Helper to convert file to base64 data URI
 const fileToBase64 = (file: File): Promise<string> => {
@@ -20,7 +23,33 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-interface ExistingReview {
+interface ModerationResult {
+  safe: boolean;
+  reason: string;
+  // Couldn't be checked automatically; the review is posted hidden until a moderator looks at it
+  held?: boolean;
+  // Signed verdict the database requires with the review or image row
+  token?: string;
+  // SHA-256 of the moderated content
+  contentHash: string;
+  // Where the function stored a photo that may be posted; the image row must use this URL
+  url?: string;
+  // Logged decision, used to appeal a rejection
+  decisionId?: string;
+}
+
+const HELD_FALLBACK_REASON = "We couldn't check your review automatically, so a moderator will review it first.";
+
+interface ReviewImage {
+  file?: File;
+  preview: string;
+  id?: string;
+  isExisting?: boolean;
+  // Set when moderation flagged this photo; the user has to remove it before posting
+  moderationReason?: string;
+}
+
+interface ExistingReview extends SubRatings {
   id: string;
   rating: number;
   comment: string;
@@ -39,11 +68,22 @@ export const ReviewForm = ({ restaurantId, existingReview, onSuccess, onCancel }
   const queryClient = useQueryClient();
   const [rating, setRating] = useState(existingReview?.rating || 0);
   const [hoverRating, setHoverRating] = useState(0);
+  const [subRatings, setSubRatings] = useState<SubRatings>(() =>
+    existingReview
+      ? {
+          food_rating: existingReview.food_rating,
+          service_rating: existingReview.service_rating,
+          value_rating: existingReview.value_rating,
+          halal_rating: existingReview.halal_rating,
+        }
+      : EMPTY_SUB_RATINGS
+  );
   const [content, setContent] = useState(existingReview?.comment || "");
-  const [images, setImages] = useState<{ file?: File; preview: string; id?: string; isExisting?: boolean }[]>([]);
+  const [images, setImages] = useState<ReviewImage[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [isModerating, setIsModerating] = useState(false);
   const [moderationError, setModerationError] = useState<string | null>(null);
+  const [appealableDecisions, setAppealableDecisions] = useState<AppealableDecision[]>([]);
 
   const isEditing = !!existingReview;
 
@@ -65,25 +105,25 @@ export const ReviewForm = ({ restaurantId, existingReview, onSuccess, onCancel }
 
       // Clear any previous moderation errors
       setModerationError(null);
+      setAppealableDecisions([]);
       setIsModerating(true);
+      let heldReason: string | null = null;
+      let textResult: ModerationResult | undefined;
+      // Keyed by image preview URL
+      const imageModeration = new Map<string, ModerationResult>();
 
       try {
-        // Get the first new image for moderation (if any)
-        const newImages = images.filter(img => !img.isExisting && img.file);
-        let imageBase64: string | undefined;
-        
-        if (newImages.length > 0 && newImages[0].file) {
-          imageBase64 = await fileToBase64(newImages[0].file);
-        }
+        // Every new image is checked; existing ones already passed when they were posted
+        const newImages = images.filter((img): img is ReviewImage & { file: File } => !img.isExisting && !!img.file);
+        const imagesBase64 = await Promise.all(newImages.map(img => fileToBase64(img.file)));
 
         const response = await fetch('/moderate-review', {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
+          headers: await getModerationHeaders(),
           body: JSON.stringify({ 
-            reviewText: content || `${rating} star review`, 
-            imageBase64 
+            // Hashed as-is, so it has to match what is stored in reviews.comment
+            reviewText: content,
+            imagesBase64
           }),
         });
         
@@ -104,8 +144,35 @@ export const ReviewForm = ({ restaurantId, existingReview, onSuccess, onCancel }
         const result = await response.json();
 
         if (result.success) {
-          if (!result.data.safe) {
-            setModerationError(result.data.reason || 'Your review contains content that violates our community guidelines.');
+          // Results come back in the order the images were sent
+          const imageResults: ModerationResult[] = result.data.images ?? [];
+          textResult = result.data.text;
+          newImages.forEach((img, idx) => imageResults[idx] && imageModeration.set(img.preview, imageResults[idx]));
+          const flagged = new Map(
+            newImages.flatMap((img, idx) => {
+              const imageResult = imageResults[idx];
+              return imageResult && !imageResult.safe && !imageResult.held
+                ? [[img.preview, imageResult.reason || 'This photo violates our community guidelines.'] as const]
+                : [];
+            })
+          );
+          setImages(prev => prev.map(img => ({ ...img, moderationReason: flagged.get(img.preview) })));
+
+          if (result.data.held) {
+            heldReason = result.data.reason || HELD_FALLBACK_REASON;
+          } else if (!result.data.safe) {
+            setAppealableDecisions([
+              ...(textResult && !textResult.safe && textResult.decisionId ? [{ decisionId: textResult.decisionId }] : []),
+              ...newImages.flatMap((img, idx) => {
+                const decisionId = imageResults[idx]?.decisionId;
+                return flagged.has(img.preview) && decisionId ? [{ decisionId }] : [];
+              }),
+            ]);
+            setModerationError(
+              flagged.size > 0 && textResult?.safe !== false
+                ? `${flagged.size === 1 ? 'A photo' : `${flagged.size} photos`} didn't pass our community guidelines. Remove the flagged ${flagged.size === 1 ? 'photo' : 'photos'} to post your review.`
+                : (textResult?.reason || result.data.reason || 'Your review contains content that violates our community guidelines.')
+            );
             throw new Error('moderation_failed');
           }
         } else {
@@ -118,8 +185,10 @@ export const ReviewForm = ({ restaurantId, existingReview, onSuccess, onCancel }
         if (modError.message === 'moderation_failed') {
           throw modError;
         }
-        // Log but continue if moderation fails unexpectedly
+        // Without a verdict the database won't accept the review
         console.error('Moderation check failed:', modError);
+        setModerationError('Your review could not be checked at this time. Please try again.');
+        throw new Error('moderation_failed');
       }
 
       let reviewId = existingReview?.id;
@@ -130,7 +199,10 @@ export const ReviewForm = ({ restaurantId, existingReview, onSuccess, onCancel }
           .from('reviews')
           .update({
             rating,
+            ...subRatings,
             comment: content || null,
+            held_reason: heldReason,
+            moderation_token: textResult?.token,
           })
           .eq('id', reviewId);
 
@@ -142,10 +214,12 @@ export const ReviewForm = ({ restaurantId, existingReview, onSuccess, onCancel }
         const removedImageIds = existingImageIds.filter(id => !keptImageIds.includes(id));
 
         if (removedImageIds.length > 0) {
-          await supabase
+          const { error: deleteError } = await supabase
             .from('review_images')
             .delete()
             .in('id', removedImageIds);
+
+          if (deleteError) throw deleteError;
         }
       } else {
         // Create new review
@@ -155,7 +229,10 @@ export const ReviewForm = ({ restaurantId, existingReview, onSuccess, onCancel }
             restaurant_id: restaurantId,
             user_id: user.id,
             rating,
+            ...subRatings,
             comment: content || null,
+            held_reason: heldReason,
+            moderation_token: textResult?.token,
           })
           .select()
           .single();
@@ -164,54 +241,63 @@ export const ReviewForm = ({ restaurantId, existingReview, onSuccess, onCancel }
         reviewId = review.id;
       }
 
-      // Upload new images
+      // Attach new images; moderate-review already stored each one that passed.
+      // The review is saved by now, so a photo that fails is reported rather than thrown
       const newImages = images.filter(img => !img.isExisting && img.file);
+      const imageErrors: string[] = [];
       if (newImages.length > 0) {
         setIsUploading(true);
         
         for (const image of newImages) {
-          if (!image.file) continue;
-          
-          const fileName = `review-${reviewId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}.jpg`;
-          
-          const { error: uploadError } = await supabase.storage
-            .from('restaurant-images')
-            .upload(fileName, image.file, {
-              contentType: image.file.type,
-            });
-
-          if (uploadError) {
-            console.error('Error uploading image:', uploadError);
+          const verdict = imageModeration.get(image.preview);
+          if (!verdict?.url || !verdict.token) {
+            imageErrors.push("it wasn't checked");
             continue;
           }
 
-          const { data: urlData } = supabase.storage
-            .from('restaurant-images')
-            .getPublicUrl(fileName);
-
           // Save to review_images table
-          await supabase.from('review_images').insert({
+          const { error: imageError } = await supabase.from('review_images').insert({
             review_id: reviewId,
-            url: urlData.publicUrl,
+            url: verdict.url,
             uploaded_by: user.id,
+            moderation_token: verdict.token,
           });
 
+          if (imageError) {
+            imageErrors.push(imageError.message);
+            continue;
+          }
+
+          // Held photos reach the restaurant gallery once a moderator releases the review
+          if (heldReason) continue;
+
           // Also add to restaurant_images (user-uploaded, not from Google)
-          await supabase.from('restaurant_images').insert({
+          const { error: galleryError } = await supabase.from('restaurant_images').insert({
             restaurant_id: restaurantId,
-            url: urlData.publicUrl,
+            url: verdict.url,
             uploaded_by: user.id,
             is_primary: false,
+            moderation_token: verdict.token,
           });
+
+          if (galleryError) imageErrors.push(galleryError.message);
         }
         
         setIsUploading(false);
       }
 
-      return { id: reviewId };
+      return { id: reviewId, held: !!heldReason, imageErrors };
     },
-    onSuccess: () => {
-      toast.success(isEditing ? "Review updated successfully!" : "Review submitted successfully!");
+    onSuccess: ({ held, imageErrors }) => {
+      if (held) {
+        toast.info("Thanks! Your review will appear once a moderator has checked it.");
+      } else if (imageErrors.length === 0) {
+        toast.success(isEditing ? "Review updated successfully!" : "Review submitted successfully!");
+      }
+      if (imageErrors.length > 0) {
+        const photos = imageErrors.length === 1 ? 'a photo' : `${imageErrors.length} photos`;
+        toast.error(`Your review was saved, but ${photos} couldn't be added (${imageErrors[0]}). Edit the review to try again.`);
+      }
       queryClient.invalidateQueries({ queryKey: ['restaurant-reviews', restaurantId] });
       queryClient.invalidateQueries({ queryKey: ['restaurant-images', restaurantId] });
       onSuccess?.();
@@ -271,7 +357,13 @@ export const ReviewForm = ({ restaurantId, existingReview, onSuccess, onCancel }
           >
             <Alert variant="destructive" className="flex items-start gap-2">
               <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
-              <AlertDescription>{moderationError}</AlertDescription>
+              <div className="flex-1 space-y-2">
+                <AlertDescription>{moderationError}</AlertDescription>
+                <ModerationAppealButton
+                  key={appealableDecisions.map((decision) => decision.decisionId).join()}
+                  decisions={appealableDecisions}
+                />
+              </div>
             </Alert>
           </motion.div>
         )}
@@ -302,6 +394,42 @@ export const ReviewForm = ({ restaurantId, existingReview, onSuccess, onCancel }
         </div>
       </div>
 
+      {/* Dimension Ratings */}
+      <div>
+        <p className="text-sm font-medium mb-2">Rate the details (optional)</p>
+        <div className="space-y-1.5">
+          {subRatingOptions.map(({ key, label, description }) => (
+            <div key={key} className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm">{label}</p>
+                <p className="text-xs text-muted-foreground truncate">{description}</p>
+              </div>
+              <div className="flex items-center gap-0.5 flex-shrink-0">
+                {Array.from({ length: 5 }).map((_, idx) => (
+                  <button
+                    key={idx}
+                    type="button"
+                    className="p-0.5"
+                    aria-label={`${label}: ${idx + 1} of 5`}
+                    // Clicking the current score again clears it
+                    onClick={() =>
+                      setSubRatings((prev) => ({ ...prev, [key]: prev[key] === idx + 1 ? null : idx + 1 }))
+                    }
+                  >
+                    <Star
+                      className={cn(
+                        "h-4 w-4 sm:h-5 sm:w-5 transition-colors",
+                        (subRatings[key] ?? 0) > idx ? "fill-gold text-gold" : "fill-muted text-muted"
+                      )}
+                    />
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
       {/* Rich Text Editor */}
       <div>
         <p className="text-sm font-medium mb-2">Your Review</p>
@@ -323,13 +451,23 @@ export const ReviewForm = ({ restaurantId, existingReview, onSuccess, onCancel }
                 initial={{ opacity: 0, scale: 0.8 }}
                 animate={{ opacity: 1, scale: 1 }}
                 exit={{ opacity: 0, scale: 0.8 }}
-                className="relative w-20 h-20 rounded-lg overflow-hidden"
+                className={cn(
+                  "relative w-20 h-20 rounded-lg overflow-hidden",
+                  image.moderationReason && "ring-2 ring-destructive"
+                )}
+                title={image.moderationReason}
               >
                 <img
                   src={image.preview}
                   alt={`Upload ${idx + 1}`}
                   className="w-full h-full object-cover"
                 />
+                {image.moderationReason && (
+                  <span className="absolute inset-x-0 bottom-0 flex items-center justify-center gap-1 bg-destructive/90 py-0.5 text-[10px] font-medium text-destructive-foreground">
+                    <AlertTriangle className="h-3 w-3" />
+                    Flagged
+                  </span>
+                )}
                 <button
                   type="button"
                   onClick={() => removeImage(idx)}
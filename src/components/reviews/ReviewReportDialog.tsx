@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  reviewReportReasonLabels,
+  type ReviewReportReason,
+} from "@/utils/reviewModeration";
+
+interface ReviewReportDialogProps {
+  reviewId: string;
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ReviewReportDialog = ({ reviewId, userId, open, onOpenChange }: ReviewReportDialogProps) => {
+  const [reason, setReason] = useState<ReviewReportReason | null>(null);
+  const [details, setDetails] = useState("");
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      if (!reason) return;
+      const { error } = await supabase
+        .from('review_reports')
+        .insert({
+          review_id: reviewId,
+          user_id: userId,
+          reason,
+          details: details.trim() || null,
+        });
+      if (error) {
+        // Unique pending report per user and review
+        if (error.code === '23505') throw new Error("You've already reported this review");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success("Thanks, a moderator will take a look");
+      onOpenChange(false);
+      setReason(null);
+      setDetails("");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report review</DialogTitle>
+          <DialogDescription>
+            Tell us what's wrong with this review. Reports are anonymous to the reviewer.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={reason ?? ""} onValueChange={(v) => setReason(v as ReviewReportReason)}>
+            {(Object.keys(reviewReportReasonLabels) as ReviewReportReason[]).map((value) => (
+              <div key={value} className="flex items-center gap-2">
+                <RadioGroupItem value={value} id={`report-reason-${value}`} />
+                <Label htmlFor={`report-reason-${value}`} className="font-normal">
+                  {reviewReportReasonLabels[value]}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          {reason && (
+            <Textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value.slice(0, MAX_REPORT_DETAILS_LENGTH))}
+              placeholder="Optional: anything that helps the moderator"
+              rows={2}
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => reportMutation.mutate()}
+            disabled={!reason || reportMutation.isPending}
+          >
+            {reportMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
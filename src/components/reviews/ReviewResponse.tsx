@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Edit, Loader2, MessageSquareReply, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+const MAX_RESPONSE_LENGTH = 1000;
+
+export interface ReviewResponseData {
+  id: string;
+  user_id: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ReviewResponseProps {
+  reviewId: string;
+  restaurantId: string;
+  response: ReviewResponseData | null;
+  // Whether the response was written by a verified owner rather than an admin
+  responderIsOwner: boolean;
+  currentUserId: string | null;
+  isAdmin: boolean;
+  // Current user is an admin or a verified owner of the restaurant
+  canRespond: boolean;
+  className?: string;
+}
+
+export const ReviewResponse = ({
+  reviewId,
+  restaurantId,
+  response,
+  responderIsOwner,
+  currentUserId,
+  isAdmin,
+  canRespond,
+  className,
+}: ReviewResponseProps) => {
+  const queryClient = useQueryClient();
+  const [isEditing, setIsEditing] = useState(false);
+  const [body, setBody] = useState("");
+
+  const isAuthor = !!response && response.user_id === currentUserId;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['restaurant-reviews', restaurantId] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!currentUserId) return;
+      const { error } = response
+        ? await supabase
+            .from('review_responses')
+            .update({ body: body.trim() })
+            .eq('id', response.id)
+        : await supabase
+            .from('review_responses')
+            .insert({ review_id: reviewId, user_id: currentUserId, body: body.trim() });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(response ? "Response updated" : "Response posted");
+      setIsEditing(false);
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      if (!response) return;
+      const { error } = await supabase
+        .from('review_responses')
+        .delete()
+        .eq('id', response.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Response deleted");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const startEditing = () => {
+    setBody(response?.body ?? "");
+    setIsEditing(true);
+  };
+
+  if (isEditing) {
+    return (
+      <div className={cn("ml-4 sm:ml-8 pl-3 border-l-2 border-primary/30 space-y-2", className)}>
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value.slice(0, MAX_RESPONSE_LENGTH))}
+          placeholder="Write a public response to this review"
+          rows={3}
+          autoFocus
+        />
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground">
+            {body.length}/{MAX_RESPONSE_LENGTH}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => saveMutation.mutate()}
+              disabled={!body.trim() || saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {response ? "Save" : "Post Response"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!response) {
+    return canRespond ? (
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn("h-7 px-2 text-xs text-muted-foreground", className)}
+        onClick={startEditing}
+      >
+        <MessageSquareReply className="h-3.5 w-3.5 mr-1.5" />
+        Respond
+      </Button>
+    ) : null;
+  }
+
+  return (
+    <div className={cn("ml-4 sm:ml-8 pl-3 border-l-2 border-primary/30", className)}>
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <p className="text-xs sm:text-sm font-medium">
+          {responderIsOwner ? "Response from the owner" : "Response from HalalBytes"}
+          <span className="font-normal text-muted-foreground ml-2">
+            {format(new Date(response.created_at), 'MMM d, yyyy')}
+            {response.updated_at !== response.created_at && " (edited)"}
+          </span>
+        </p>
+        {(isAuthor || isAdmin) && (
+          <div className="flex gap-1 shrink-0">
+            {isAuthor && canRespond && (
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={startEditing}>
+                <Edit className="h-3.5 w-3.5" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-destructive hover:text-destructive"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground whitespace-pre-line">{response.body}</p>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Renders <mark>...</mark> fragments from the search RPC as React nodes (never as raw HTML)
+export const HighlightedText = ({ text, className }: HighlightedTextProps) => {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g).filter(Boolean);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) => {
+        const match = part.match(/^<mark>(.*)<\/mark>$/);
+        return match ? (
+          <mark key={index} className="bg-primary/15 text-foreground rounded-sm px-0.5">
+            {match[1]}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        );
+      })}
+    </span>
+  );
+};
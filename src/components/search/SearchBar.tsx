@@ -1,71 +1,269 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Search, MapPin, X, Loader2 } from "lucide-react";
+import { Search, MapPin, X, Loader2, Utensils, Clock, ChefHat } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { cuisineOptions } from "@/utils/cuisines";
 import { cn } from "@/lib/utils";
+import { searchRestaurants, RestaurantSearchResult } from "@/utils/restaurantSearch";
+import { searchPlaces, PlaceSuggestion } from "@/utils/geocoding";
+import { HighlightedText } from "./HighlightedText";
 
 interface SearchBarProps {
   placeholder?: string;
+  initialQuery?: string;
+  // Called on submit (Enter without a highlighted suggestion)
   onSearch?: (query: string) => void;
+  // Called on every keystroke, for pages that filter live
+  onQueryChange?: (query: string) => void;
+  onRestaurantSelect?: (restaurantId: string) => void;
+  onCuisineSelect?: (cuisine: string) => void;
   onLocationSelect?: (location: { name: string; lat: number; lng: number }) => void;
+  // When known, restaurant suggestions include the distance from this point
+  location?: { lat: number; lng: number } | null;
   className?: string;
   size?: 'default' | 'large';
   showLocationButton?: boolean;
+  showSubmitButton?: boolean;
 }
 
-// Mock suggestions - in production, this would come from an API
-const mockSuggestions = [
-  { name: "New York, NY", lat: 40.7128, lng: -74.0060 },
-  { name: "Los Angeles, CA", lat: 34.0522, lng: -118.2437 },
-  { name: "Chicago, IL", lat: 41.8781, lng: -87.6298 },
-  { name: "Houston, TX", lat: 29.7604, lng: -95.3698 },
-  { name: "Brooklyn, NY", lat: 40.6782, lng: -73.9442 },
-];
-
-export const SearchBar = ({ 
-  placeholder = "Search for halal food...", 
-  onSearch, 
+interface RecentSearch {
+  type: 'query' | 'restaurant' | 'cuisine' | 'place';
+  label: string;
+  id?: string;
+  lat?: number;
+  lng?: number;
+}
+
+type SuggestionItem =
+  | { kind: 'recent'; recent: RecentSearch }
+  | { kind: 'restaurant'; restaurant: RestaurantSearchResult }
+  | { kind: 'cuisine'; cuisine: string }
+  | { kind: 'place'; place: PlaceSuggestion };
+
+const RECENT_SEARCHES_KEY = "recent-searches";
+const MAX_RECENT_SEARCHES = 5;
+
+const getRecentSearches = (): RecentSearch[] => {
+  try {
+    const stored = localStorage.getItem(RECENT_SEARCHES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveRecentSearch = (search: RecentSearch) => {
+  const existing = getRecentSearches().filter(
+    s => !(s.type === search.type && s.label === search.label)
+  );
+  const updated = [search, ...existing].slice(0, MAX_RECENT_SEARCHES);
+  localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(updated));
+  return updated;
+};
+
+const groupLabels: Record<SuggestionItem['kind'], string> = {
+  recent: "Recent searches",
+  restaurant: "Restaurants",
+  cuisine: "Cuisines",
+  place: "Places",
+};
+
+const getItemLabel = (item: SuggestionItem) => {
+  switch (item.kind) {
+    case 'recent': return item.recent.label;
+    case 'restaurant': return item.restaurant.name;
+    case 'cuisine': return item.cuisine;
+    case 'place': return item.place.name;
+  }
+};
+
+export const SearchBar = ({
+  placeholder = "Search restaurants, cuisines or places...",
+  initialQuery = "",
+  onSearch,
+  onQueryChange,
+  onRestaurantSelect,
+  onCuisineSelect,
   onLocationSelect,
+  location,
   className,
   size = 'default',
-  showLocationButton = true
+  showLocationButton = true,
+  showSubmitButton = true,
 }: SearchBarProps) => {
-  const [query, setQuery] = useState("");
+  const [query, setQuery] = useState(initialQuery);
   const [isFocused, setIsFocused] = useState(false);
-  const [suggestions, setSuggestions] = useState<typeof mockSuggestions>([]);
+  const [restaurants, setRestaurants] = useState<RestaurantSearchResult[]>([]);
+  const [places, setPlaces] = useState<PlaceSuggestion[]>([]);
+  const [recentSearches, setRecentSearches] = useState<RecentSearch[]>(getRecentSearches);
+  const [activeIndex, setActiveIndex] = useState(-1);
   const [isLoading, setIsLoading] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const debounceRef = useRef<NodeJS.Timeout>();
+  const requestIdRef = useRef(0);
+
+  // Fetch restaurants and places in parallel; ignore responses for outdated queries
+  const fetchSuggestions = async (searchQuery: string) => {
+    const requestId = ++requestIdRef.current;
+    if (searchQuery.trim().length < 2) {
+      setRestaurants([]);
+      setPlaces([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const [restaurantResults, placeResults] = await Promise.allSettled([
+      searchRestaurants(searchQuery, location, 5),
+      searchPlaces(searchQuery, 3),
+    ]);
+    if (requestId !== requestIdRef.current) return;
+
+    if (restaurantResults.status === 'rejected') {
+      console.error('Error fetching restaurant suggestions:', restaurantResults.reason);
+    }
+    setRestaurants(restaurantResults.status === 'fulfilled' ? restaurantResults.value : []);
+    setPlaces(placeResults.status === 'fulfilled' ? placeResults.value : []);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    return () => {
+      if (debounceRef.current) {
+        clearTimeout(debounceRef.current);
+      }
+    };
+  }, []);
+
+  const cuisines = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (q.length < 2) return [];
+    return cuisineOptions.filter(c => c.toLowerCase().includes(q)).slice(0, 3);
+  }, [query]);
+
+  // Flat list in display order, used for keyboard navigation
+  const items = useMemo<SuggestionItem[]>(() => {
+    if (query.trim().length < 2) {
+      return recentSearches.map(recent => ({ kind: 'recent' as const, recent }));
+    }
+    return [
+      ...restaurants.map(restaurant => ({ kind: 'restaurant' as const, restaurant })),
+      ...cuisines.map(cuisine => ({ kind: 'cuisine' as const, cuisine })),
+      ...places.map(place => ({ kind: 'place' as const, place })),
+    ];
+  }, [query, recentSearches, restaurants, cuisines, places]);
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [items]);
 
   const handleInputChange = (value: string) => {
     setQuery(value);
-    if (value.length > 1) {
-      setIsLoading(true);
-      // Simulate API delay
-      setTimeout(() => {
-        setSuggestions(
-          mockSuggestions.filter(s => 
-            s.name.toLowerCase().includes(value.toLowerCase())
-          )
-        );
-        setIsLoading(false);
-      }, 300);
-    } else {
-      setSuggestions([]);
+    onQueryChange?.(value);
+
+    // Debounce the API calls
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+
+    debounceRef.current = setTimeout(() => {
+      fetchSuggestions(value);
+    }, 300);
+  };
+
+  const remember = (search: RecentSearch) => {
+    setRecentSearches(saveRecentSearch(search));
+  };
+
+  // Cuisine and place picks are not text queries, so clear the input for live-filtering pages
+  const resetQuery = () => {
+    setQuery("");
+    onQueryChange?.("");
+    setRestaurants([]);
+    setPlaces([]);
+  };
+
+  const selectRestaurant = (id: string, name: string) => {
+    remember({ type: 'restaurant', label: name, id });
+    setQuery(name);
+    onRestaurantSelect?.(id);
+  };
+
+  const selectCuisine = (cuisine: string) => {
+    remember({ type: 'cuisine', label: cuisine });
+    resetQuery();
+    onCuisineSelect?.(cuisine);
+  };
+
+  const selectPlace = (place: { name: string; lat: number; lng: number }) => {
+    remember({ type: 'place', label: place.name, lat: place.lat, lng: place.lng });
+    resetQuery();
+    onLocationSelect?.(place);
+  };
+
+  const submitQuery = (value: string) => {
+    if (value.trim()) {
+      remember({ type: 'query', label: value.trim() });
     }
+    setQuery(value);
+    onQueryChange?.(value);
+    onSearch?.(value);
   };
 
-  const handleSuggestionSelect = (suggestion: typeof mockSuggestions[0]) => {
-    setQuery(suggestion.name);
-    setSuggestions([]);
-    onLocationSelect?.(suggestion);
+  const handleItemSelect = (item: SuggestionItem) => {
+    switch (item.kind) {
+      case 'restaurant':
+        selectRestaurant(item.restaurant.id, item.restaurant.name);
+        break;
+      case 'cuisine':
+        selectCuisine(item.cuisine);
+        break;
+      case 'place':
+        selectPlace(item.place);
+        break;
+      case 'recent': {
+        const { recent } = item;
+        if (recent.type === 'restaurant' && recent.id) selectRestaurant(recent.id, recent.label);
+        else if (recent.type === 'cuisine') selectCuisine(recent.label);
+        else if (recent.type === 'place' && recent.lat !== undefined && recent.lng !== undefined) {
+          selectPlace({ name: recent.label, lat: recent.lat, lng: recent.lng });
+        } else submitQuery(recent.label);
+        break;
+      }
+    }
+    setIsFocused(false);
     inputRef.current?.blur();
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSearch?.(query);
-    setSuggestions([]);
+    submitQuery(query);
+    setIsFocused(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isFocused) setIsFocused(true);
+
+    if (e.key === 'ArrowDown' && items.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev + 1) % items.length);
+    } else if (e.key === 'ArrowUp' && items.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev <= 0 ? items.length - 1 : prev - 1));
+    } else if (e.key === 'Enter' && activeIndex >= 0 && items[activeIndex]) {
+      e.preventDefault();
+      handleItemSelect(items[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsFocused(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  const clearRecentSearches = () => {
+    localStorage.removeItem(RECENT_SEARCHES_KEY);
+    setRecentSearches([]);
   };
 
   const handleGetLocation = () => {
@@ -78,7 +276,6 @@ export const SearchBar = ({
             lat: position.coords.latitude,
             lng: position.coords.longitude,
           });
-          setQuery("Current Location");
           setIsLoading(false);
         },
         () => {
@@ -88,9 +285,70 @@ export const SearchBar = ({
     }
   };
 
+  const renderItem = (item: SuggestionItem) => {
+    switch (item.kind) {
+      case 'restaurant': {
+        const { restaurant } = item;
+        return (
+          <>
+            <Utensils className="h-4 w-4 text-muted-foreground shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <HighlightedText
+                  text={restaurant.name_highlight}
+                  className="font-medium text-foreground text-sm line-clamp-1"
+                />
+                <Badge
+                  variant="secondary"
+                  className={cn(
+                    "text-xs shrink-0",
+                    restaurant.halal_status === 'Full Halal'
+                      ? "bg-halal-full/20 text-halal-full"
+                      : "bg-halal-partial/20 text-halal-partial"
+                  )}
+                >
+                  {restaurant.halal_status}
+                </Badge>
+              </div>
+              <span className="text-xs text-muted-foreground line-clamp-1">
+                {restaurant.cuisine_type} • <HighlightedText text={restaurant.address_highlight} />
+                {restaurant.distance_km !== null && (
+                  <> • {restaurant.distance_km.toFixed(1)} km</>
+                )}
+              </span>
+            </div>
+          </>
+        );
+      }
+      case 'cuisine':
+        return (
+          <>
+            <ChefHat className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="text-foreground text-sm">{item.cuisine}</span>
+          </>
+        );
+      case 'place':
+        return (
+          <>
+            <MapPin className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="text-foreground text-sm line-clamp-1">{item.place.name}</span>
+          </>
+        );
+      case 'recent':
+        return (
+          <>
+            <Clock className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="text-foreground text-sm line-clamp-1">{item.recent.label}</span>
+          </>
+        );
+    }
+  };
+
+  const showDropdown = isFocused && items.length > 0;
+
   return (
     <form onSubmit={handleSubmit} className={cn("relative w-full", className)}>
-      <div 
+      <div
         className={cn(
           "search-bar relative flex items-center gap-1 sm:gap-2 bg-card rounded-xl sm:rounded-2xl border overflow-hidden",
           isFocused && "ring-2 ring-primary/20",
@@ -101,12 +359,18 @@ export const SearchBar = ({
           "text-muted-foreground shrink-0",
           size === 'large' ? "h-4 w-4 sm:h-5 sm:w-5" : "h-4 w-4"
         )} />
-        
+
         <Input
           ref={inputRef}
           type="text"
+          role="combobox"
+          aria-expanded={showDropdown}
+          aria-controls="search-suggestions"
+          aria-activedescendant={activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
+          autoComplete="off"
           value={query}
           onChange={(e) => handleInputChange(e.target.value)}
+          onKeyDown={handleKeyDown}
           onFocus={() => setIsFocused(true)}
           onBlur={() => setTimeout(() => setIsFocused(false), 200)}
           placeholder={placeholder}
@@ -123,8 +387,7 @@ export const SearchBar = ({
             size="icon"
             className="h-6 w-6 shrink-0"
             onClick={() => {
-              setQuery("");
-              setSuggestions([]);
+              resetQuery();
               inputRef.current?.focus();
             }}
           >
@@ -143,44 +406,75 @@ export const SearchBar = ({
             size="icon"
             className="h-7 w-7 sm:h-8 sm:w-8 shrink-0 text-muted-foreground hover:text-primary"
             onClick={handleGetLocation}
+            title="Use my location"
           >
             <MapPin className="h-4 w-4" />
           </Button>
         )}
 
-        <Button 
-          type="submit"
-          size="sm"
-          className={cn(
-            "shrink-0 text-xs sm:text-sm",
-            size === 'large' ? "px-3 sm:px-6" : "px-2 sm:px-4"
-          )}
-        >
-          <Search className="h-4 w-4 sm:hidden" />
-          <span className="hidden sm:inline">Search</span>
-        </Button>
+        {showSubmitButton && (
+          <Button
+            type="submit"
+            size="sm"
+            className={cn(
+              "shrink-0 text-xs sm:text-sm",
+              size === 'large' ? "px-3 sm:px-6" : "px-2 sm:px-4"
+            )}
+          >
+            <Search className="h-4 w-4 sm:hidden" />
+            <span className="hidden sm:inline">Search</span>
+          </Button>
+        )}
       </div>
 
       {/* Suggestions Dropdown */}
       <AnimatePresence>
-        {isFocused && suggestions.length > 0 && (
+        {showDropdown && (
           <motion.div
             initial={{ opacity: 0, y: -10 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: -10 }}
-            className="absolute top-full left-0 right-0 mt-2 bg-card rounded-xl border shadow-elevated overflow-hidden z-50"
+            id="search-suggestions"
+            role="listbox"
+            className="absolute top-full left-0 right-0 mt-2 bg-card rounded-xl border shadow-elevated overflow-hidden z-50 max-h-[70vh] overflow-y-auto"
           >
-            {suggestions.map((suggestion, idx) => (
-              <button
-                key={idx}
-                type="button"
-                className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-accent transition-colors"
-                onClick={() => handleSuggestionSelect(suggestion)}
-              >
-                <MapPin className="h-4 w-4 text-muted-foreground shrink-0" />
-                <span className="text-foreground">{suggestion.name}</span>
-              </button>
-            ))}
+            {items.map((item, idx) => {
+              const isGroupStart = idx === 0 || items[idx - 1].kind !== item.kind;
+              return (
+                <div key={`${item.kind}-${getItemLabel(item)}-${idx}`}>
+                  {isGroupStart && (
+                    <div className="flex items-center justify-between px-4 pt-3 pb-1">
+                      <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                        {groupLabels[item.kind]}
+                      </span>
+                      {item.kind === 'recent' && (
+                        <button
+                          type="button"
+                          className="text-xs text-muted-foreground hover:text-foreground"
+                          onClick={clearRecentSearches}
+                        >
+                          Clear
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  <button
+                    id={`search-suggestion-${idx}`}
+                    type="button"
+                    role="option"
+                    aria-selected={idx === activeIndex}
+                    className={cn(
+                      "w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-accent transition-colors",
+                      idx === activeIndex && "bg-accent"
+                    )}
+                    onMouseEnter={() => setActiveIndex(idx)}
+                    onClick={() => handleItemSelect(item)}
+                  >
+                    {renderItem(item)}
+                  </button>
+                </div>
+              );
+            })}
           </motion.div>
         )}
       </AnimatePresence>
@@ -1,6 +1,7 @@
 import { useEffect } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { parseGoogleHours } from "@/utils/openingHours";
 
 const MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || "";
 const REFRESH_THRESHOLD_DAYS = 30;
@@ -36,32 +37,10 @@ export const useGoogleDataRefresh = (restaurant: RestaurantData | null) => {
 
       const data = await response.json();
       
-      // Parse opening hours
+      // Parse opening hours (a day can list several ranges, e.g. lunch and dinner)
       let openingHours = null;
       if (data.regularOpeningHours?.weekdayDescriptions) {
-        const dayMap: Record<string, string> = {
-          'Monday': 'mon', 'Tuesday': 'tue', 'Wednesday': 'wed',
-          'Thursday': 'thu', 'Friday': 'fri', 'Saturday': 'sat', 'Sunday': 'sun'
-        };
-        
-        openingHours = {};
-        data.regularOpeningHours.weekdayDescriptions.forEach((desc: string) => {
-          const [day, ...hours] = desc.split(': ');
-          const dayKey = dayMap[day];
-          if (dayKey) {
-            const hoursStr = hours.join(': ');
-            if (hoursStr.toLowerCase() === 'closed') {
-              openingHours[dayKey] = { isOpen: false };
-            } else {
-              const times = hoursStr.split(' – ');
-              openingHours[dayKey] = {
-                isOpen: true,
-                openTime: times[0] || undefined,
-                closeTime: times[1] || undefined,
-              };
-            }
-          }
-        });
+        openingHours = parseGoogleHours(data.regularOpeningHours.weekdayDescriptions);
       }
 
       // Get description
@@ -14,6 +14,24 @@ export type Database = {
   }
   public: {
     Tables: {
+      consumed_moderation_tokens: {
+        Row: {
+          expires_at: string
+          jti: string
+          table_name: string
+        }
+        Insert: {
+          expires_at: string
+          jti: string
+          table_name: string
+        }
+        Update: {
+          expires_at?: string
+          jti?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
       favorites: {
         Row: {
           created_at: string
@@ -46,11 +64,252 @@ export type Database = {
           },
         ]
       }
+      halal_certifications: {
+        Row: {
+          certificate_number: string | null
+          certifying_body: string
+          created_at: string
+          created_by: string | null
+          document_url: string | null
+          expires_on: string | null
+          id: string
+          issued_on: string | null
+          restaurant_id: string
+          updated_at: string
+        }
+        Insert: {
+          certificate_number?: string | null
+          certifying_body: string
+          created_at?: string
+          created_by?: string | null
+          document_url?: string | null
+          expires_on?: string | null
+          id?: string
+          issued_on?: string | null
+          restaurant_id: string
+          updated_at?: string
+        }
+        Update: {
+          certificate_number?: string | null
+          certifying_body?: string
+          created_at?: string
+          created_by?: string | null
+          document_url?: string | null
+          expires_on?: string | null
+          id?: string
+          issued_on?: string | null
+          restaurant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "halal_certifications_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      halal_confirmations: {
+        Row: {
+          created_at: string
+          id: string
+          note: string | null
+          restaurant_id: string
+          updated_at: string
+          user_id: string
+          verdict: Database["public"]["Enums"]["halal_confirmation_verdict"]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          restaurant_id: string
+          updated_at?: string
+          user_id: string
+          verdict: Database["public"]["Enums"]["halal_confirmation_verdict"]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          restaurant_id?: string
+          updated_at?: string
+          user_id?: string
+          verdict?: Database["public"]["Enums"]["halal_confirmation_verdict"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "halal_confirmations_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_appeals: {
+        Row: {
+          created_at: string
+          decision_id: string
+          id: string
+          message: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: Database["public"]["Enums"]["moderation_appeal_status"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          decision_id: string
+          id?: string
+          message?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["moderation_appeal_status"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          decision_id?: string
+          id?: string
+          message?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["moderation_appeal_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_appeals_decision_id_fkey"
+            columns: ["decision_id"]
+            isOneToOne: true
+            referencedRelation: "moderation_decisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_decisions: {
+        Row: {
+          content_hash: string
+          content_text: string | null
+          content_type: Database["public"]["Enums"]["moderation_content_type"]
+          created_at: string
+          id: string
+          image_path: string | null
+          provider: string
+          reason: string | null
+          user_id: string | null
+          verdict: Database["public"]["Enums"]["moderation_verdict"]
+        }
+        Insert: {
+          content_hash: string
+          content_text?: string | null
+          content_type: Database["public"]["Enums"]["moderation_content_type"]
+          created_at?: string
+          id?: string
+          image_path?: string | null
+          provider: string
+          reason?: string | null
+          user_id?: string | null
+          verdict: Database["public"]["Enums"]["moderation_verdict"]
+        }
+        Update: {
+          content_hash?: string
+          content_text?: string | null
+          content_type?: Database["public"]["Enums"]["moderation_content_type"]
+          created_at?: string
+          id?: string
+          image_path?: string | null
+          provider?: string
+          reason?: string | null
+          user_id?: string | null
+          verdict?: Database["public"]["Enums"]["moderation_verdict"]
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          read_at: string | null
+          restaurant_id: string | null
+          review_id: string | null
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          restaurant_id?: string | null
+          review_id?: string | null
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          restaurant_id?: string | null
+          review_id?: string | null
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      opening_hours_migration_issues: {
+        Row: {
+          created_at: string
+          id: string
+          issues: string[]
+          opening_hours: Json | null
+          source_id: string
+          source_table: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          issues: string[]
+          opening_hours?: Json | null
+          source_id: string
+          source_table: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          issues?: string[]
+          opening_hours?: Json | null
+          source_id?: string
+          source_table?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
           id: string
+          notify_review_responses: boolean
           updated_at: string
           user_id: string
           username: string | null
@@ -59,6 +318,7 @@ export type Database = {
           avatar_url?: string | null
           created_at?: string
           id?: string
+          notify_review_responses?: boolean
           updated_at?: string
           user_id: string
           username?: string | null
@@ -67,17 +327,63 @@ export type Database = {
           avatar_url?: string | null
           created_at?: string
           id?: string
+          notify_review_responses?: boolean
           updated_at?: string
           user_id?: string
           username?: string | null
         }
         Relationships: []
       }
+      restaurant_closure_reports: {
+        Row: {
+          created_at: string
+          id: string
+          note: string | null
+          reopens_on: string | null
+          reported_status: Database["public"]["Enums"]["restaurant_lifecycle_status"]
+          resolved_at: string | null
+          resolved_by: string | null
+          restaurant_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          reopens_on?: string | null
+          reported_status: Database["public"]["Enums"]["restaurant_lifecycle_status"]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          restaurant_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          note?: string | null
+          reopens_on?: string | null
+          reported_status?: Database["public"]["Enums"]["restaurant_lifecycle_status"]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          restaurant_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_closure_reports_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       restaurant_images: {
         Row: {
           created_at: string
           id: string
           is_primary: boolean
+          moderation_token: string | null
           restaurant_id: string
           uploaded_by: string | null
           url: string
@@ -86,6 +392,7 @@ export type Database = {
           created_at?: string
           id?: string
           is_primary?: boolean
+          moderation_token?: string | null
           restaurant_id: string
           uploaded_by?: string | null
           url: string
@@ -94,6 +401,7 @@ export type Database = {
           created_at?: string
           id?: string
           is_primary?: boolean
+          moderation_token?: string | null
           restaurant_id?: string
           uploaded_by?: string | null
           url?: string
@@ -108,6 +416,38 @@ export type Database = {
           },
         ]
       }
+      restaurant_owners: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          restaurant_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          restaurant_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          restaurant_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "restaurant_owners_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       restaurant_requests: {
         Row: {
           admin_notes: string | null
@@ -156,16 +496,20 @@ export type Database = {
           google_data_fetched_at: string | null
           google_place_id: string | null
           halal_attributes: Json | null
+          halal_reviewed_at: string | null
           halal_status: Database["public"]["Enums"]["halal_status"]
           id: string
           is_sponsored: boolean
           lat: number
+          lifecycle_status: Database["public"]["Enums"]["restaurant_lifecycle_status"]
           lng: number
           name: string
           opening_hours: Json | null
           partial_halal_meats: Json | null
           phone: string | null
           price_range: Database["public"]["Enums"]["price_range"]
+          reopens_on: string | null
+          timezone: string | null
           updated_at: string
           website_url: string | null
         }
@@ -180,16 +524,20 @@ export type Database = {
           google_data_fetched_at?: string | null
           google_place_id?: string | null
           halal_attributes?: Json | null
+          halal_reviewed_at?: string | null
           halal_status?: Database["public"]["Enums"]["halal_status"]
           id?: string
           is_sponsored?: boolean
           lat: number
+          lifecycle_status?: Database["public"]["Enums"]["restaurant_lifecycle_status"]
           lng: number
           name: string
           opening_hours?: Json | null
           partial_halal_meats?: Json | null
           phone?: string | null
           price_range?: Database["public"]["Enums"]["price_range"]
+          reopens_on?: string | null
+          timezone?: string | null
           updated_at?: string
           website_url?: string | null
         }
@@ -204,25 +552,59 @@ export type Database = {
           google_data_fetched_at?: string | null
           google_place_id?: string | null
           halal_attributes?: Json | null
+          halal_reviewed_at?: string | null
           halal_status?: Database["public"]["Enums"]["halal_status"]
           id?: string
           is_sponsored?: boolean
           lat?: number
+          lifecycle_status?: Database["public"]["Enums"]["restaurant_lifecycle_status"]
           lng?: number
           name?: string
           opening_hours?: Json | null
           partial_halal_meats?: Json | null
           phone?: string | null
           price_range?: Database["public"]["Enums"]["price_range"]
+          reopens_on?: string | null
+          timezone?: string | null
           updated_at?: string
           website_url?: string | null
         }
         Relationships: []
       }
+      review_helpful_votes: {
+        Row: {
+          created_at: string
+          id: string
+          review_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          review_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          review_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_helpful_votes_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       review_images: {
         Row: {
           created_at: string
           id: string
+          moderation_token: string | null
           review_id: string
           uploaded_by: string | null
           url: string
@@ -230,6 +612,7 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
+          moderation_token?: string | null
           review_id: string
           uploaded_by?: string | null
           url: string
@@ -237,6 +620,7 @@ export type Database = {
         Update: {
           created_at?: string
           id?: string
+          moderation_token?: string | null
           review_id?: string
           uploaded_by?: string | null
           url?: string
@@ -251,33 +635,183 @@ export type Database = {
           },
         ]
       }
+      review_moderation_log: {
+        Row: {
+          action: Database["public"]["Enums"]["review_moderation_action"]
+          actor_id: string | null
+          created_at: string
+          id: string
+          note: string | null
+          resolved_report_count: number
+          restaurant_id: string | null
+          review_author_id: string | null
+          review_id: string
+          review_snapshot: Json
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["review_moderation_action"]
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          resolved_report_count?: number
+          restaurant_id?: string | null
+          review_author_id?: string | null
+          review_id: string
+          review_snapshot: Json
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["review_moderation_action"]
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          resolved_report_count?: number
+          restaurant_id?: string | null
+          review_author_id?: string | null
+          review_id?: string
+          review_snapshot?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_moderation_log_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          reason: Database["public"]["Enums"]["review_report_reason"]
+          resolved_at: string | null
+          resolved_by: string | null
+          review_id: string
+          status: Database["public"]["Enums"]["review_report_status"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: Database["public"]["Enums"]["review_report_reason"]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id: string
+          status?: Database["public"]["Enums"]["review_report_status"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: Database["public"]["Enums"]["review_report_reason"]
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id?: string
+          status?: Database["public"]["Enums"]["review_report_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_reports_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_responses: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          review_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          review_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          review_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_responses_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: true
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reviews: {
         Row: {
           comment: string | null
           created_at: string
+          food_rating: number | null
+          halal_rating: number | null
+          held_reason: string | null
+          hidden_at: string | null
+          hidden_by: string | null
           id: string
+          moderation_token: string | null
           rating: number
           restaurant_id: string
+          service_rating: number | null
           updated_at: string
           user_id: string
+          value_rating: number | null
         }
         Insert: {
           comment?: string | null
           created_at?: string
+          food_rating?: number | null
+          halal_rating?: number | null
+          held_reason?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
+          moderation_token?: string | null
           rating: number
           restaurant_id: string
+          service_rating?: number | null
           updated_at?: string
           user_id: string
+          value_rating?: number | null
         }
         Update: {
           comment?: string | null
           created_at?: string
+          food_rating?: number | null
+          halal_rating?: number | null
+          held_reason?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
+          moderation_token?: string | null
           rating?: number
           restaurant_id?: string
+          service_rating?: number | null
           updated_at?: string
           user_id?: string
+          value_rating?: number | null
         }
         Relationships: [
           {
@@ -312,9 +846,87 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      restaurant_halal_confidence: {
+        Row: {
+          confidence: number | null
+          confirm_count: number | null
+          dispute_count: number | null
+          last_confirmed_at: string | null
+          last_disputed_at: string | null
+          needs_review: boolean | null
+          recent_dispute_count: number | null
+          restaurant_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "halal_confirmations_restaurant_id_fkey"
+            columns: ["restaurant_id"]
+            isOneToOne: false
+            referencedRelation: "restaurants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      can_moderate: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_respond_to_review: {
+        Args: {
+          _review_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      explore_restaurants: {
+        Args: {
+          _cuisine_types?: string[]
+          _east?: number
+          _halal_attributes?: string[]
+          _halal_statuses?: Database["public"]["Enums"]["halal_status"][]
+          _lat: number
+          _lng: number
+          _north?: number
+          _offset?: number
+          _page_size?: number
+          _price_ranges?: Database["public"]["Enums"]["price_range"][]
+          _query?: string
+          _radius_km?: number
+          _sort?: string
+          _south?: number
+          _west?: number
+        }
+        Returns: {
+          address: string
+          avg_rating: number
+          created_at: string
+          cuisine_type: string
+          description: string | null
+          distance_km: number
+          halal_attributes: Json | null
+          halal_confidence: number | null
+          halal_status: Database["public"]["Enums"]["halal_status"]
+          id: string
+          is_sponsored: boolean | null
+          last_confirmed_at: string | null
+          lat: number
+          lifecycle_status: Database["public"]["Enums"]["restaurant_lifecycle_status"]
+          lng: number
+          name: string
+          opening_hours: Json | null
+          price_range: Database["public"]["Enums"]["price_range"]
+          primary_image: string | null
+          rating_score: number
+          reopens_on: string | null
+          review_count: number
+          timezone: string | null
+          total_count: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -322,12 +934,106 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_restaurant_owner: {
+        Args: {
+          _restaurant_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      moderate_review: {
+        Args: {
+          _action: Database["public"]["Enums"]["review_moderation_action"]
+          _note?: string
+          _review_id: string
+        }
+        Returns: string[]
+      }
+      orphaned_moderated_images: {
+        Args: {
+          _limit?: number
+        }
+        Returns: {
+          bucket_id: string
+          name: string
+        }[]
+      }
+      read_moderation_token: {
+        Args: {
+          _token: string
+          _type: string
+        }
+        Returns: Json
+      }
+      resolve_moderation_appeal: {
+        Args: {
+          _appeal_id: string
+          _note?: string
+          _overturn: boolean
+        }
+        Returns: undefined
+      }
+      review_helpful_counts: {
+        Args: {
+          _review_ids: string[]
+        }
+        Returns: {
+          helpful_count: number
+          review_id: string
+        }[]
+      }
+      search_restaurants: {
+        Args: {
+          _lat?: number
+          _limit?: number
+          _lng?: number
+          _query: string
+        }
+        Returns: {
+          address: string
+          address_highlight: string
+          cuisine_type: string
+          distance_km: number | null
+          halal_status: Database["public"]["Enums"]["halal_status"]
+          id: string
+          lat: number
+          lng: number
+          name: string
+          name_highlight: string
+          rank: number
+        }[]
+      }
+      use_moderation_token: {
+        Args: {
+          _table: string
+          _token: string
+          _type: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
+      halal_confirmation_verdict: "confirm" | "dispute"
       halal_status: "Full Halal" | "Partial Halal"
+      moderation_appeal_status: "pending" | "upheld" | "overturned"
+      moderation_content_type: "review" | "image_only" | "avatar"
+      moderation_verdict: "approved" | "rejected" | "held"
+      notification_type: "review_response"
       price_range: "$" | "$$" | "$$$" | "$$$$"
       request_status: "pending" | "approved" | "rejected"
+      restaurant_lifecycle_status:
+        | "active"
+        | "temporarily_closed"
+        | "permanently_closed"
+      review_moderation_action: "dismiss" | "hide" | "unhide" | "delete"
+      review_report_reason:
+        | "spam"
+        | "fake"
+        | "offensive"
+        | "off_topic"
+        | "other"
+      review_report_status: "pending" | "dismissed" | "actioned"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -456,9 +1162,22 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "moderator", "user"],
+      halal_confirmation_verdict: ["confirm", "dispute"],
       halal_status: ["Full Halal", "Partial Halal"],
+      moderation_appeal_status: ["pending", "upheld", "overturned"],
+      moderation_content_type: ["review", "image_only", "avatar"],
+      moderation_verdict: ["approved", "rejected", "held"],
+      notification_type: ["review_response"],
       price_range: ["$", "$$", "$$$", "$$$$"],
       request_status: ["pending", "approved", "rejected"],
+      restaurant_lifecycle_status: [
+        "active",
+        "temporarily_closed",
+        "permanently_closed",
+      ],
+      review_moderation_action: ["dismiss", "hide", "unhide", "delete"],
+      review_report_reason: ["spam", "fake", "offensive", "off_topic", "other"],
+      review_report_status: ["pending", "dismissed", "actioned"],
     },
   },
 } as const
@@ -1,12 +1,13 @@
 import { useState, useCallback, useMemo, lazy, Suspense, useRef, useEffect } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { motion } from "framer-motion";
-import { Map, List, Star, MapPin } from "lucide-react";
+import { Map, List, Star, MapPin, Search } from "lucide-react";
 import { Virtuoso, VirtuosoHandle } from "react-virtuoso";
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { Header } from "@/components/layout/Header";
-import { RestaurantSearchBar } from "@/components/search/RestaurantSearchBar";
+import { SearchBar } from "@/components/search/SearchBar";
 import { FilterBar, Filters } from "@/components/filters/FilterBar";
+import { SortSelect } from "@/components/filters/SortSelect";
 import { RestaurantCard } from "@/components/restaurant/RestaurantCard";
 import { LocationSelector } from "@/components/location/LocationSelector";
 import { Button } from "@/components/ui/button";
@@ -16,12 +17,16 @@ import { supabase } from "@/integrations/supabase/client";
 import { useFavorites } from "@/hooks/useFavorites";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { checkIfOpen } from "@/utils/timeFormat";
+import { isOpenAt } from "@/utils/openAtFilter";
+import { parseOpeningHours } from "@/utils/openingHours";
+import { getEffectiveLifecycleStatus, type LifecycleStatus } from "@/utils/restaurantLifecycle";
+import { getZonedNow } from "@/utils/timezone";
+import { resolveSort, type SortOption } from "@/utils/exploreSort";
+import { parseExploreParams, buildExploreParams, ExploreParams } from "@/utils/exploreParams";
 
 // Lazy load the map to avoid context issues
 const RestaurantMap = lazy(() => import("@/components/map/RestaurantMap").then(m => ({ default: m.RestaurantMap })));
 
-const distanceOptions = [5, 10, 25, 50, 100];
-
 interface Restaurant {
   id: string;
   name: string;
@@ -37,6 +42,13 @@ interface Restaurant {
   rating: number;
   review_count: number;
   opening_hours: unknown;
+  timezone: string | null;
+  lifecycle_status: LifecycleStatus;
+  reopens_on: string | null;
+  halal_attributes: unknown;
+  distance_km: number;
+  halal_confidence: number | null;
+  last_confirmed_at: string | null;
 }
 
 // Fetch user's approximate location from IP
@@ -56,171 +68,240 @@ const fetchIPLocation = async (): Promise<{ lat: number; lng: number; city: stri
   }
 };
 
-// Calculate distance in km between two coordinates
-const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-  const R = 6371; // Earth's radius in km
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLng = (lng2 - lng1) * Math.PI / 180;
-  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-};
+interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+const DEFAULT_CENTER = { lat: 40.7128, lng: -74.0060 };
+
+// Number of restaurants fetched per page from the explore RPC
+const PAGE_SIZE = 50;
 
 const Explore = () => {
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const virtuosoRef = useRef<VirtuosoHandle>(null);
   const isMobile = useIsMobile();
   const { isInFavorites, toggleFavorite } = useFavorites();
 
   
   const [mobileView, setMobileView] = useState<'list' | 'map'>('list');
-  const [selectedRestaurantId, setSelectedRestaurantId] = useState<string | undefined>();
   const [highlightedCardId, setHighlightedCardId] = useState<string | undefined>();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [currentLocation, setCurrentLocation] = useState("Loading...");
-  const [mapCenter, setMapCenter] = useState({ lat: 40.7128, lng: -74.0060 });
-  const [filters, setFilters] = useState({
-    priceRange: [] as string[],
-    cuisineTypes: [] as string[],
-    halalStatus: [] as string[],
-    openNow: false,
-    distance: 50,
-  });
-  const [mapBounds, setMapBounds] = useState<{
-    north: number;
-    south: number;
-    east: number;
-    west: number;
-  } | null>(null);
-
-  // Fetch IP-based location on mount
+  const [locationFallback, setLocationFallback] = useState("Loading...");
+  const [mapBounds, setMapBounds] = useState<MapBounds | null>(null);
+  // Viewport the results are restricted to; null means radius search around mapCenter
+  const [searchArea, setSearchArea] = useState<MapBounds | null>(null);
+  const [showSearchArea, setShowSearchArea] = useState(false);
+  const hasInitialBounds = useRef(false);
+  const hasRevealedSelected = useRef(false);
+  const hasFetchedIPLocation = useRef(false);
+
+  // Filters, query, center, zoom and selection all live in the URL
+  const exploreParams = useMemo(() => parseExploreParams(searchParams), [searchParams]);
+  const { filters, q: searchQuery, selected: selectedRestaurantId, zoom: mapZoom } = exploreParams;
+  const hasUrlCenter = exploreParams.lat !== undefined && exploreParams.lng !== undefined;
+
+  const mapCenter = useMemo(
+    () => hasUrlCenter ? { lat: exploreParams.lat, lng: exploreParams.lng } : DEFAULT_CENTER,
+    [hasUrlCenter, exploreParams.lat, exploreParams.lng]
+  );
+  const currentLocation = exploreParams.location || (hasUrlCenter ? "Selected location" : locationFallback);
+
+  // Merge a partial update into the URL; high-frequency updates replace the history entry
+  const updateParams = useCallback((patch: Partial<ExploreParams>, replace = false) => {
+    setSearchParams(prev => buildExploreParams({ ...parseExploreParams(prev), ...patch }), { replace });
+  }, [setSearchParams]);
+
+  // Fetch IP-based location on mount unless the link already has a center
   useEffect(() => {
+    if (hasUrlCenter || hasFetchedIPLocation.current) return;
+    hasFetchedIPLocation.current = true;
     fetchIPLocation().then(location => {
       if (location) {
-        setMapCenter({ lat: location.lat, lng: location.lng });
-        setCurrentLocation(location.city);
+        setSearchParams(prev => prev.has('lat')
+          ? prev
+          : buildExploreParams({
+              ...parseExploreParams(prev),
+              lat: location.lat,
+              lng: location.lng,
+              location: location.city,
+            }),
+          { replace: true }
+        );
       } else {
-        setCurrentLocation("New York, NY");
+        setLocationFallback("New York, NY");
       }
     });
-  }, []);
+  }, [hasUrlCenter, setSearchParams]);
+
+  // Debounce the text query before it reaches the explore RPC
+  const [debouncedQuery, setDebouncedQuery] = useState(searchQuery);
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+  // Shorter queries match nearly everything, so they don't filter
+  const activeQuery = debouncedQuery.length >= 2 ? debouncedQuery : '';
+  const sort = resolveSort(exploreParams.sort, activeQuery);
+
+  // Fetch restaurants within the selected radius (or the searched map area), page by page, in the chosen sort order;
+  // with a text query only matches are returned, most relevant first unless another sort was picked
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery({
+    queryKey: [
+      'restaurants',
+      'explore',
+      sort,
+      mapCenter.lat,
+      mapCenter.lng,
+      searchArea ?? filters.distance,
+      filters.priceRange,
+      filters.cuisineTypes,
+      filters.halalStatus,
+      filters.halalAttributes,
+      activeQuery,
+    ],
+    initialPageParam: 0,
+    queryFn: async ({ pageParam }) => {
+      const area = searchArea
+        ? {
+            _north: searchArea.north,
+            _south: searchArea.south,
+            _east: searchArea.east,
+            _west: searchArea.west,
+            _lat: (searchArea.north + searchArea.south) / 2,
+            _lng: (searchArea.east + searchArea.west) / 2,
+          }
+        : {
+            _lat: mapCenter.lat,
+            _lng: mapCenter.lng,
+            _radius_km: filters.distance,
+          };
+
+      const { data, error } = await supabase.rpc('explore_restaurants', {
+        ...area,
+        _price_ranges: filters.priceRange as Restaurant['price_range'][],
+        _cuisine_types: filters.cuisineTypes,
+        _halal_statuses: filters.halalStatus as Restaurant['halal_status'][],
+        _halal_attributes: filters.halalAttributes,
+        _query: activeQuery || undefined,
+        _sort: sort,
+        _offset: pageParam,
+        _page_size: PAGE_SIZE,
+      });
+
+      if (error) throw error;
 
-  // Fetch restaurants from database
-  const { data: restaurants = [], isLoading } = useQuery({
-    queryKey: ['restaurants'],
-    queryFn: async () => {
-      // Fetch restaurants with their images
-      const { data: restaurantsData, error: restaurantsError } = await supabase
-        .from('restaurants')
-        .select('*');
-
-      if (restaurantsError) throw restaurantsError;
-
-      // Fetch images for all restaurants
-      const { data: imagesData, error: imagesError } = await supabase
-        .from('restaurant_images')
-        .select('restaurant_id, url, is_primary')
-        .order('is_primary', { ascending: false });
-
-      if (imagesError) throw imagesError;
-
-      // Fetch review stats for each restaurant
-      const { data: reviewsData, error: reviewsError } = await supabase
-        .from('reviews')
-        .select('restaurant_id, rating');
-
-      if (reviewsError) throw reviewsError;
-
-      // Group images by restaurant
-      const imagesByRestaurant = imagesData?.reduce((acc, img) => {
-        if (!acc[img.restaurant_id]) {
-          acc[img.restaurant_id] = [];
-        }
-        acc[img.restaurant_id].push(img.url);
-        return acc;
-      }, {} as Record<string, string[]>) || {};
-
-      // Calculate avg rating and review count per restaurant
-      const reviewStatsByRestaurant = reviewsData?.reduce((acc, review) => {
-        if (!acc[review.restaurant_id]) {
-          acc[review.restaurant_id] = { total: 0, count: 0 };
-        }
-        acc[review.restaurant_id].total += review.rating;
-        acc[review.restaurant_id].count += 1;
-        return acc;
-      }, {} as Record<string, { total: number; count: number }>) || {};
-
-      return restaurantsData?.map((r) => ({
+      const rows = (data || []).map((r) => ({
         id: r.id,
         name: r.name,
         description: r.description,
         address: r.address,
         lat: r.lat,
         lng: r.lng,
-        price_range: r.price_range as '$' | '$$' | '$$$' | '$$$$',
+        price_range: r.price_range,
         cuisine_type: r.cuisine_type,
-        halal_status: r.halal_status as 'Full Halal' | 'Partial Halal',
+        halal_status: r.halal_status,
         is_sponsored: r.is_sponsored,
-        images: imagesByRestaurant[r.id] || [],
-        rating: reviewStatsByRestaurant[r.id] 
-          ? reviewStatsByRestaurant[r.id].total / reviewStatsByRestaurant[r.id].count 
-          : 0,
-        review_count: reviewStatsByRestaurant[r.id]?.count || 0,
+        images: r.primary_image ? [r.primary_image] : [],
+        rating: r.avg_rating,
+        review_count: r.review_count,
         opening_hours: r.opening_hours,
+        timezone: r.timezone,
+        lifecycle_status: r.lifecycle_status,
+        reopens_on: r.reopens_on,
+        halal_attributes: r.halal_attributes,
+        distance_km: r.distance_km,
+        halal_confidence: r.halal_confidence,
+        last_confirmed_at: r.last_confirmed_at,
       })) as Restaurant[];
+
+      // Every row carries the number of matches across all pages
+      return { rows, totalCount: data?.[0]?.total_count ?? 0 };
+    },
+    getNextPageParam: (lastPage, allPages) => {
+      if (lastPage.rows.length < PAGE_SIZE) return undefined;
+      return allPages.length * PAGE_SIZE;
     },
   });
 
-  // Filter restaurants based on active filters and distance
+  const restaurants = useMemo(() => data?.pages.flatMap(page => page.rows) ?? [], [data]);
+  const totalCount = data?.pages[0]?.totalCount ?? 0;
+  const hasTimeFilter = filters.openNow || !!filters.openAt;
+
+  // Text query, price, cuisine, halal status and distance are applied by the RPC. Opening
+  // hours are checked here with the same code as the restaurant page, in any stored shape.
   const filteredRestaurants = useMemo(() => {
+    if (!hasTimeFilter) return restaurants;
     return restaurants.filter((restaurant) => {
-      // Filter by distance from current map center
-      const distance = calculateDistance(mapCenter.lat, mapCenter.lng, restaurant.lat, restaurant.lng);
-      if (distance > filters.distance) {
+      // Temporarily closed places never match the open-time filters
+      if (getEffectiveLifecycleStatus(
+        restaurant.lifecycle_status,
+        restaurant.reopens_on,
+        getZonedNow(restaurant.timezone)
+      ) !== 'active') {
         return false;
       }
 
       // Filter by Open Now
-      if (filters.openNow) {
-        const { isOpen } = checkIfOpen(restaurant.opening_hours);
-        if (!isOpen) return false;
-      }
-
-      if (filters.priceRange.length > 0 && !filters.priceRange.includes(restaurant.price_range)) {
+      if (filters.openNow && !checkIfOpen(restaurant.opening_hours, restaurant.timezone).isOpen) {
         return false;
       }
-      if (filters.cuisineTypes.length > 0 && !filters.cuisineTypes.includes(restaurant.cuisine_type)) {
-        return false;
-      }
-      if (filters.halalStatus.length > 0 && !filters.halalStatus.includes(restaurant.halal_status)) {
+
+      // Filter by Open At a chosen day and time
+      if (filters.openAt && !isOpenAt(restaurant.opening_hours, filters.openAt, restaurant.timezone)) {
         return false;
       }
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase();
-        return (
-          restaurant.name.toLowerCase().includes(query) ||
-          restaurant.cuisine_type.toLowerCase().includes(query) ||
-          restaurant.address.toLowerCase().includes(query)
-        );
-      }
+
       return true;
     });
-  }, [restaurants, filters, searchQuery, mapCenter]);
+  }, [restaurants, hasTimeFilter, filters.openNow, filters.openAt]);
 
-  // Sort with sponsored first
+  // Restaurants whose hours can't be read never match a time filter; say so rather than drop them silently
+  const unknownHoursCount = useMemo(
+    () => hasTimeFilter ? restaurants.filter(r => !parseOpeningHours(r.opening_hours)).length : 0,
+    [restaurants, hasTimeFilter]
+  );
+
+  // The time filters can leave a loaded page nearly empty, so keep loading until one page's worth matches
+  useEffect(() => {
+    if (hasTimeFilter && filteredRestaurants.length < PAGE_SIZE && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [hasTimeFilter, filteredRestaurants.length, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Results keep the server's sort order; the first sponsored restaurant gets a labelled slot on top
+  const sponsoredSlotId = useMemo(
+    () => filteredRestaurants.find(r => r.is_sponsored)?.id,
+    [filteredRestaurants]
+  );
   const sortedRestaurants = useMemo(() => {
-    return [...filteredRestaurants].sort((a, b) => {
-      if (a.is_sponsored && !b.is_sponsored) return -1;
-      if (!a.is_sponsored && b.is_sponsored) return 1;
-      return b.rating - a.rating;
-    });
-  }, [filteredRestaurants]);
+    if (!sponsoredSlotId) return filteredRestaurants;
+    const sponsored = filteredRestaurants.find(r => r.id === sponsoredSlotId);
+    return [sponsored, ...filteredRestaurants.filter(r => r.id !== sponsoredSlotId)];
+  }, [filteredRestaurants, sponsoredSlotId]);
+
+  // Reveal a restaurant selected through a shared link once it has loaded
+  useEffect(() => {
+    if (hasRevealedSelected.current || !selectedRestaurantId) return;
+    const index = sortedRestaurants.findIndex(r => r.id === selectedRestaurantId);
+    if (index !== -1 && virtuosoRef.current) {
+      virtuosoRef.current.scrollToIndex({ index, align: 'center' });
+      hasRevealedSelected.current = true;
+    }
+  }, [selectedRestaurantId, sortedRestaurants]);
 
   const handleMarkerClick = useCallback((id: string) => {
-    setSelectedRestaurantId(id);
+    hasRevealedSelected.current = true;
+    updateParams({ selected: id }, true);
     setHighlightedCardId(id);
     
     // Find the index of the restaurant in the sorted list
@@ -240,22 +321,62 @@ const Explore = () => {
     
     // Clear highlight after a delay
     setTimeout(() => setHighlightedCardId(undefined), 3000);
-  }, [sortedRestaurants]);
+  }, [sortedRestaurants, updateParams]);
 
   const handleCardSelect = useCallback((id: string) => {
     navigate(`/restaurant/${id}`);
   }, [navigate]);
 
-  const handleBoundsChange = useCallback((bounds: { north: number; south: number; east: number; west: number }) => {
+  const handleBoundsChange = useCallback((bounds: MapBounds) => {
     setMapBounds(bounds);
+    // Ignore the bounds reported when the map first settles; only user pans/zooms offer a new search
+    if (hasInitialBounds.current) {
+      setShowSearchArea(true);
+    }
+    hasInitialBounds.current = true;
   }, []);
 
+  const handleSearchArea = useCallback(() => {
+    if (!mapBounds) return;
+    setSearchArea(mapBounds);
+    setShowSearchArea(false);
+  }, [mapBounds]);
+
+  const handleZoomChange = useCallback((zoom: number) => {
+    updateParams({ zoom }, true);
+  }, [updateParams]);
+
   const handleLocationChange = useCallback((location: string, coords?: { lat: number; lng: number }) => {
-    setCurrentLocation(location);
     if (coords) {
-      setMapCenter(coords);
+      updateParams({ location, lat: coords.lat, lng: coords.lng, zoom: undefined, selected: undefined });
+      // The map remounts on a new center; go back to radius search around it
+      setSearchArea(null);
+      setShowSearchArea(false);
+      hasInitialBounds.current = false;
+    } else {
+      updateParams({ location });
     }
-  }, []);
+  }, [updateParams]);
+
+  const handleFiltersChange = useCallback((newFilters: Filters) => {
+    // Picking a distance switches back from the map area to radius search
+    if (newFilters.distance !== filters.distance) {
+      setSearchArea(null);
+    }
+    updateParams({ filters: newFilters });
+  }, [filters.distance, updateParams]);
+
+  const handleSortChange = useCallback((newSort: SortOption) => {
+    updateParams({ sort: newSort });
+  }, [updateParams]);
+
+  const handleSearchQueryChange = useCallback((q: string) => {
+    updateParams({ q }, true);
+  }, [updateParams]);
+
+  const handleCuisineSelect = useCallback((cuisine: string) => {
+    updateParams({ filters: { ...filters, cuisineTypes: [cuisine] }, q: '' });
+  }, [filters, updateParams]);
 
   const mapRestaurants = useMemo(() => {
     return sortedRestaurants.map(r => ({
@@ -285,10 +406,15 @@ const Explore = () => {
             {/* Search row */}
             <div className="flex items-center gap-2 sm:gap-3 w-full">
               <div className="flex-1 min-w-0 overflow-hidden">
-                <RestaurantSearchBar
-                  placeholder="Search restaurants..."
-                  onSearch={(q) => setSearchQuery(q)}
+                <SearchBar
+                  initialQuery={searchQuery}
+                  onQueryChange={handleSearchQueryChange}
                   onRestaurantSelect={(id) => navigate(`/restaurant/${id}`)}
+                  onCuisineSelect={handleCuisineSelect}
+                  onLocationSelect={(place) => handleLocationChange(place.name, { lat: place.lat, lng: place.lng })}
+                  location={mapCenter}
+                  showLocationButton={false}
+                  showSubmitButton={false}
                   className="w-full"
                 />
               </div>
@@ -298,12 +424,12 @@ const Explore = () => {
               />
               {/* Filters button close to location on desktop */}
               <div className="hidden lg:block">
-                <FilterBar filters={filters} onFiltersChange={setFilters} />
+                <FilterBar filters={filters} onFiltersChange={handleFiltersChange} />
               </div>
             </div>
             {/* Filters row - mobile only */}
             <div className="overflow-x-auto -mx-3 px-3 sm:mx-0 sm:px-0 scrollbar-thin lg:hidden">
-              <FilterBar filters={filters} onFiltersChange={setFilters} />
+              <FilterBar filters={filters} onFiltersChange={handleFiltersChange} />
             </div>
           </div>
         </div>
@@ -347,9 +473,32 @@ const Explore = () => {
           )}
         >
           <div className="p-3 sm:p-4 border-b flex items-center justify-between">
-            <p className="text-sm text-muted-foreground">
-              <span className="font-medium text-foreground">{sortedRestaurants.length}</span> restaurants found
-            </p>
+            <div>
+              <p className="text-sm text-muted-foreground">
+                {/* total_count is before the time filters, so count the matches loaded so far */}
+                <span className="font-medium text-foreground">
+                  {hasTimeFilter ? `${filteredRestaurants.length}${hasNextPage ? '+' : ''}` : totalCount}
+                </span> restaurants {searchArea ? 'in this area' : 'found'}
+              </p>
+              {unknownHoursCount > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {unknownHoursCount} {unknownHoursCount === 1 ? 'restaurant has' : 'restaurants have'} unknown hours and {unknownHoursCount === 1 ? "isn't" : "aren't"} shown
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {searchArea && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setSearchArea(null)}
+                >
+                  Clear area
+                </Button>
+              )}
+              <SortSelect value={sort} onChange={handleSortChange} hasQuery={!!activeQuery} />
+            </div>
           </div>
 
           <div className="h-[calc(100vh-14rem)] sm:h-[calc(100vh-13rem)] overflow-hidden">
@@ -369,6 +518,11 @@ const Explore = () => {
                 data={sortedRestaurants}
                 itemContent={(index, restaurant) => (
                   <div className="p-3 sm:p-4">
+                    {restaurant.id === sponsoredSlotId && (
+                      <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground mb-2">
+                        Sponsored
+                      </p>
+                    )}
                     <RestaurantCard
                       restaurant={restaurant}
                       isHighlighted={highlightedCardId === restaurant.id || selectedRestaurantId === restaurant.id}
@@ -379,6 +533,9 @@ const Explore = () => {
                   </div>
 
                 )}
+                endReached={() => {
+                  if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+                }}
                 className="scrollbar-thin"
               />
             )}
@@ -388,7 +545,7 @@ const Explore = () => {
         {/* Map View - Full height on mobile with explicit dimensions */}
         <div 
           className={cn(
-            "flex-1 min-h-[400px] h-[calc(100vh-11rem)] sm:h-[calc(100vh-10rem)]",
+            "relative flex-1 min-h-[400px] h-[calc(100vh-11rem)] sm:h-[calc(100vh-10rem)]",
             mobileView === 'list' ? "hidden lg:block" : "block"
           )}
           style={{ width: '100%' }}
@@ -400,13 +557,30 @@ const Explore = () => {
                 selectedId={selectedRestaurantId}
                 onMarkerClick={handleMarkerClick}
                 onBoundsChange={handleBoundsChange}
+                onZoomChange={handleZoomChange}
                 center={mapCenter}
+                zoom={mapZoom}
                 onNavigateToRestaurant={handleCardSelect}
                 isMobile={isMobile}
               />
             </Suspense>
           )}
 
+          {/* Search this area */}
+          {showSearchArea && mapBounds && (
+            <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000]">
+              <Button
+                size="sm"
+                variant="secondary"
+                className="rounded-full shadow-lg gap-2 bg-card hover:bg-accent"
+                onClick={handleSearchArea}
+              >
+                <Search className="h-4 w-4" />
+                Search this area
+              </Button>
+            </div>
+          )}
+
         </div>
       </div>
     </div>
@@ -12,7 +12,7 @@ import { RestaurantCard } from "@/components/restaurant/RestaurantCard";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Heart, Plus, Trash2, FolderHeart, Edit2, MoreVertical, Check, X } from "lucide-react";
+import { Heart, Plus, Trash2, FolderHeart, Edit2, MoreVertical, Check, X, CircleSlash } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -38,6 +38,8 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useFavorites } from "@/hooks/useFavorites";
+import { getEffectiveLifecycleStatus, type LifecycleStatus } from "@/utils/restaurantLifecycle";
+import { getZonedNow } from "@/utils/timezone";
 
 interface FavoriteWithRestaurant {
   id: string;
@@ -52,6 +54,10 @@ interface FavoriteWithRestaurant {
     halal_status: "Full Halal" | "Partial Halal";
     is_sponsored: boolean;
     opening_hours: unknown;
+    timezone: string | null;
+    lifecycle_status: LifecycleStatus;
+    reopens_on: string | null;
+    halal_attributes: unknown;
     reviews: { rating: number }[];
   };
 }
@@ -89,6 +95,10 @@ const Favorites = () => {
             halal_status,
             is_sponsored,
             opening_hours,
+            timezone,
+            lifecycle_status,
+            reopens_on,
+            halal_attributes,
             reviews (rating)
           )
         `)
@@ -122,6 +132,27 @@ const Favorites = () => {
     enabled: !!favorites && favorites.length > 0,
   });
 
+  const { data: restaurantConfidence } = useQuery({
+    queryKey: ["restaurant-confidence-favorites"],
+    queryFn: async () => {
+      const restaurantIds = favorites?.map((f) => f.restaurant.id) || [];
+      if (restaurantIds.length === 0) return {};
+
+      const { data, error } = await supabase
+        .from("restaurant_halal_confidence")
+        .select("restaurant_id, confidence, last_confirmed_at")
+        .in("restaurant_id", restaurantIds);
+
+      if (error) throw error;
+
+      return data.reduce((acc, row) => {
+        if (row.restaurant_id) acc[row.restaurant_id] = row;
+        return acc;
+      }, {} as Record<string, (typeof data)[number]>);
+    },
+    enabled: !!favorites && favorites.length > 0,
+  });
+
   const removeFavoriteMutation = useMutation({
     mutationFn: async (favoriteId: string) => {
       const { error } = await supabase
@@ -219,6 +250,10 @@ const Favorites = () => {
     return favorites?.filter((f) => f.list_name === listName) || [];
   };
 
+  // Closed favorites stay in their lists but are flagged
+  const isClosed = ({ restaurant }: FavoriteWithRestaurant) =>
+    getEffectiveLifecycleStatus(restaurant.lifecycle_status, restaurant.reopens_on, getZonedNow(restaurant.timezone)) !== "active";
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -316,6 +351,14 @@ const Favorites = () => {
 
             {uniqueListNames.map((listName) => (
               <TabsContent key={listName} value={listName}>
+                {getRestaurantsInList(listName).some(isClosed) && (
+                  <p className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+                    <CircleSlash className="h-4 w-4" />
+                    {getRestaurantsInList(listName).filter(isClosed).length === 1
+                      ? "1 place in this list has closed."
+                      : `${getRestaurantsInList(listName).filter(isClosed).length} places in this list have closed.`}
+                  </p>
+                )}
                 {getRestaurantsInList(listName).length > 0 ? (
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                     {getRestaurantsInList(listName).map((fav) => {
@@ -331,6 +374,8 @@ const Favorites = () => {
                               images: restaurantImages?.[fav.restaurant.id] || [],
                               rating: avgRating,
                               review_count: reviews.length,
+                              halal_confidence: restaurantConfidence?.[fav.restaurant.id]?.confidence,
+                              last_confirmed_at: restaurantConfidence?.[fav.restaurant.id]?.last_confirmed_at,
                             }}
                             isFavorited={true}
                             onSelect={(id) => navigate(`/restaurant/${id}`)}
@@ -2,9 +2,10 @@ import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
 import { MapPin, Star, Shield, Clock, ArrowRight } from "lucide-react";
 import { Header } from "@/components/layout/Header";
-import { LocationSearchBar } from "@/components/search/LocationSearchBar";
+import { SearchBar } from "@/components/search/SearchBar";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
+import { getExploreUrl, DEFAULT_FILTERS } from "@/utils/exploreParams";
 
 const features = [
   {
@@ -34,11 +35,15 @@ const Index = () => {
   const { user } = useAuth();
 
   const handleSearch = (query: string) => {
-    navigate(`/explore?q=${encodeURIComponent(query)}`);
+    navigate(getExploreUrl({ q: query }));
+  };
+
+  const handleCuisineSelect = (cuisine: string) => {
+    navigate(getExploreUrl({ filters: { ...DEFAULT_FILTERS, cuisineTypes: [cuisine] } }));
   };
 
   const handleLocationSelect = (location: { name: string; lat: number; lng: number }) => {
-    navigate(`/explore?lat=${location.lat}&lng=${location.lng}&location=${encodeURIComponent(location.name)}`);
+    navigate(getExploreUrl({ lat: location.lat, lng: location.lng, location: location.name }));
   };
 
   return (
@@ -108,9 +113,11 @@ const Index = () => {
               transition={{ duration: 0.6, delay: 0.3 }}
               className="max-w-xl mx-auto mb-8"
             >
-              <LocationSearchBar
-                placeholder="Enter your city or zip code..."
+              <SearchBar
+                placeholder="Search restaurants, cuisines or your city..."
                 onSearch={handleSearch}
+                onRestaurantSelect={(id) => navigate(`/restaurant/${id}`)}
+                onCuisineSelect={handleCuisineSelect}
                 onLocationSelect={handleLocationSelect}
                 size="large"
               />
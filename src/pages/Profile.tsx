@@ -9,10 +9,19 @@ import { Label } from "@/components/ui/label";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { ModerationAppealButton } from "@/components/forms/ModerationAppealButton";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { User, Camera, Save, Loader2, Upload, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import {
+  appealStatusLabels,
+  getModerationHeaders,
+  moderationContentTypeLabels,
+  type AppealableDecision,
+} from "@/utils/contentModeration";
 
 // Helper to convert file to base64 data URI
 const fileToBase64 = (file: File): Promise<string> => {
@@ -35,6 +44,7 @@ const Profile = () => {
   const [isEditing, setIsEditing] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [moderationError, setModerationError] = useState<string | null>(null);
+  const [appealableDecision, setAppealableDecision] = useState<AppealableDecision | null>(null);
 
   // Sync state when profile loads
   useState(() => {
@@ -44,6 +54,22 @@ const Profile = () => {
     }
   });
 
+  const { data: appeals = [] } = useQuery({
+    queryKey: ["moderation-appeals", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("moderation_appeals")
+        .select("id, status, resolution_note, created_at, moderation_decisions (content_type, reason)")
+        .eq("user_id", user!.id)
+        .order("created_at", { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
   const updateProfileMutation = useMutation({
     mutationFn: async ({ username, avatar_url }: { username: string; avatar_url: string }) => {
       if (!user) throw new Error("Not authenticated");
@@ -83,23 +109,33 @@ const Profile = () => {
 
     setIsUploading(true);
     setModerationError(null);
+    setAppealableDecision(null);
 
     try {
       // First, moderate the image
       const imageBase64 = await fileToBase64(file);
       
-      const { data: moderationResult, error: moderationError } = await supabase.functions.invoke('moderate-review', {
-        body: { 
+      const response = await fetch('/moderate-review', {
+        method: 'POST',
+        headers: await getModerationHeaders(),
+        body: JSON.stringify({ 
           imageBase64,
           moderationType: 'avatar'
-        }
+        }),
       });
+      const moderationResult = await response.json().catch(() => null);
 
-      if (moderationError) {
-        console.error('Moderation function error:', moderationError);
-        // Continue if moderation service fails
-      } else if (moderationResult && !moderationResult.safe) {
-        setModerationError(moderationResult.reason || 'This image violates our community guidelines.');
+      if (!response.ok || !moderationResult?.success) {
+        console.error('Moderation function error:', moderationResult?.error?.reason ?? response.statusText);
+        // Rate limits and size limits would otherwise be a way around moderation
+        setModerationError(moderationResult?.error?.reason || 'Your photo could not be checked right now. Please try again.');
+        setIsUploading(false);
+        return;
+      } else if (!moderationResult.data.safe) {
+        const { reason, held, decisionId } = moderationResult.data;
+        setModerationError(reason || 'This image violates our community guidelines.');
+        // Only rejections can be appealed
+        if (!held && decisionId) setAppealableDecision({ decisionId });
         setIsUploading(false);
         return;
       }
@@ -188,7 +224,15 @@ const Profile = () => {
             <div className="p-4 pb-0">
               <Alert variant="destructive" className="flex items-start gap-2">
                 <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
-                <AlertDescription>{moderationError}</AlertDescription>
+                <div className="flex-1 space-y-2">
+                  <AlertDescription>{moderationError}</AlertDescription>
+                  {appealableDecision && (
+                    <ModerationAppealButton
+                      key={appealableDecision.decisionId}
+                      decisions={[appealableDecision]}
+                    />
+                  )}
+                </div>
               </Alert>
             </div>
           )}
@@ -285,6 +329,42 @@ const Profile = () => {
             </div>
           </CardContent>
         </Card>
+
+        {appeals.length > 0 && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle className="font-display text-lg">Moderation appeals</CardTitle>
+              <CardDescription>
+                Approved content goes through when you submit it again.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {appeals.map((appeal) => (
+                <div key={appeal.id} className="flex items-start justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {appeal.moderation_decisions
+                        ? moderationContentTypeLabels[appeal.moderation_decisions.content_type]
+                        : "Content"}
+                      <span className="text-xs text-muted-foreground font-normal ml-2">
+                        {format(new Date(appeal.created_at), "MMM d, yyyy")}
+                      </span>
+                    </p>
+                    {appeal.moderation_decisions?.reason && (
+                      <p className="text-xs text-muted-foreground">{appeal.moderation_decisions.reason}</p>
+                    )}
+                    {appeal.resolution_note && (
+                      <p className="text-xs text-muted-foreground">Moderator: {appeal.resolution_note}</p>
+                    )}
+                  </div>
+                  <Badge variant={appeal.status === "upheld" ? "destructive" : appeal.status === "overturned" ? "default" : "secondary"} className="shrink-0">
+                    {appealStatusLabels[appeal.status]}
+                  </Badge>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
       </main>
     </div>
   );
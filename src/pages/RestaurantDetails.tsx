@@ -37,11 +37,25 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { ReviewForm } from "@/components/reviews/ReviewForm";
 import { ReviewCard } from "@/components/reviews/ReviewCard";
+import { RatingBreakdown } from "@/components/reviews/RatingBreakdown";
+import { ReviewControls } from "@/components/reviews/ReviewControls";
+import { DEFAULT_REVIEW_FILTERS, type ReviewFilters, type ReviewSortOption } from "@/utils/reviewListOptions";
+import { getHeldReviewImageUrls } from "@/utils/reviewModeration";
 import { useGoogleDataRefresh } from "@/hooks/useGoogleDataRefresh";
 import { useFavorites } from "@/hooks/useFavorites";
 import { LocationMapLink } from "@/components/restaurant/LocationMapLink";
 import { AddToListButton } from "@/components/favorites/AddToListButton";
 import { ImageGallery } from "@/components/restaurant/ImageGallery";
+import { HalalAttributeBadges } from "@/components/restaurant/HalalAttributeBadges";
+import { CertificationBadge } from "@/components/restaurant/CertificationBadge";
+import { HalalConfirmationPanel } from "@/components/restaurant/HalalConfirmationPanel";
+import { SpecialHoursList } from "@/components/restaurant/SpecialHoursList";
+import { ClosureBanner } from "@/components/restaurant/ClosureBanner";
+import { ClosureReportButton } from "@/components/restaurant/ClosureReportButton";
+import { formatDayHours } from "@/utils/timeFormat";
+import { DAY_KEYS, findHoursException, parseOpeningHours, type DayKey } from "@/utils/openingHours";
+import { getZonedNow } from "@/utils/timezone";
+import { getEffectiveLifecycleStatus } from "@/utils/restaurantLifecycle";
 
 
 const RestaurantDetails = () => {
@@ -52,6 +66,8 @@ const RestaurantDetails = () => {
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   const [showReviewForm, setShowReviewForm] = useState(false);
+  const [reviewSort, setReviewSort] = useState<ReviewSortOption>('helpful');
+  const [reviewFilters, setReviewFilters] = useState<ReviewFilters>(DEFAULT_REVIEW_FILTERS);
   const [galleryIndex, setGalleryIndex] = useState(0);
 
 
@@ -105,6 +121,22 @@ const RestaurantDetails = () => {
     enabled: !!id,
   });
 
+  // Fetch halal certifications
+  const { data: certifications = [] } = useQuery({
+    queryKey: ['halal-certifications', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('halal_certifications')
+        .select('*')
+        .eq('restaurant_id', id)
+        .order('expires_on', { ascending: false, nullsFirst: true });
+
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!id,
+  });
+
   // Fetch reviews with profile data and images
   const { data: reviews = [] } = useQuery({
     queryKey: ['restaurant-reviews', id],
@@ -137,30 +169,96 @@ const RestaurantDetails = () => {
         .select('id, review_id, url')
         .in('review_id', reviewIds);
 
+      // Only the author sees their held review; its photos are private until it's released
+      const heldReviewIds = new Set(reviewsData.filter(r => r.held_reason).map(r => r.id));
+      const heldImageUrls = await getHeldReviewImageUrls(
+        (reviewImagesData || []).filter(img => heldReviewIds.has(img.review_id)).map(img => img.url)
+      );
+
       const imagesMap = (reviewImagesData || []).reduce((acc, img) => {
         if (!acc[img.review_id]) acc[img.review_id] = [];
-        acc[img.review_id].push({ id: img.id, url: img.url });
+        acc[img.review_id].push({ id: img.id, url: heldImageUrls.get(img.url) ?? img.url });
         return acc;
       }, {} as Record<string, { id: string; url: string }[]>);
 
+      // Fetch helpful vote counts; who voted isn't readable
+      const { data: helpfulCountsData } = await supabase
+        .rpc('review_helpful_counts', { _review_ids: reviewIds });
+
+      const helpfulCounts = (helpfulCountsData || []).reduce((acc, row) => {
+        acc[row.review_id] = row.helpful_count;
+        return acc;
+      }, {} as Record<string, number>);
+
+      // Fetch owner / admin responses
+      const { data: responsesData } = await supabase
+        .from('review_responses')
+        .select('id, review_id, user_id, body, created_at, updated_at')
+        .in('review_id', reviewIds);
+
+      const responsesMap = new Map((responsesData || []).map(response => [response.review_id, response]));
+
       return reviewsData.map(review => ({
         ...review,
         profile: profilesMap[review.user_id] || null,
         images: imagesMap[review.id] || [],
+        helpful_count: helpfulCounts[review.id] || 0,
+        response: responsesMap.get(review.id) || null,
       }));
     },
     enabled: !!id,
   });
 
-  // Sort reviews: user's own review first, then by date
-  const sortedReviews = [...reviews].sort((a, b) => {
-    if (user) {
-      if (a.user_id === user.id) return -1;
-      if (b.user_id === user.id) return 1;
-    }
-    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  // Verified owners, who can respond to reviews
+  const { data: ownerIds = [] } = useQuery({
+    queryKey: ['restaurant-owners', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('restaurant_owners')
+        .select('user_id')
+        .eq('restaurant_id', id!);
+
+      if (error) throw error;
+      return data.map(owner => owner.user_id);
+    },
+    enabled: !!id,
   });
 
+  // Reviews the current user has marked as helpful
+  const { data: myHelpfulVotes = [] } = useQuery({
+    queryKey: ['review-helpful-votes', id, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('review_helpful_votes')
+        .select('review_id, reviews!inner(restaurant_id)')
+        .eq('user_id', user!.id)
+        .eq('reviews.restaurant_id', id!);
+
+      if (error) throw error;
+      return data.map(vote => vote.review_id);
+    },
+    enabled: !!id && !!user,
+  });
+
+  // Filter and sort reviews: user's own review first, then by the chosen order (newest breaks ties)
+  const sortedReviews = reviews
+    .filter(review =>
+      (!reviewFilters.withPhotos || review.images.length > 0) &&
+      (reviewFilters.rating === null || review.rating === reviewFilters.rating)
+    )
+    .sort((a, b) => {
+      if (user) {
+        if (a.user_id === user.id) return -1;
+        if (b.user_id === user.id) return 1;
+      }
+      const byChosenOrder =
+        reviewSort === 'helpful' ? b.helpful_count - a.helpful_count :
+        reviewSort === 'highest' ? b.rating - a.rating :
+        reviewSort === 'lowest' ? a.rating - b.rating :
+        0;
+      return byChosenOrder || new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+    });
+
   // Google data refresh hook
   const { isRefreshing } = useGoogleDataRefresh(restaurant ? {
     id: restaurant.id,
@@ -168,105 +266,29 @@ const RestaurantDetails = () => {
     google_data_fetched_at: restaurant.google_data_fetched_at,
   } : null);
 
-  // Calculate average rating
-  const avgRating = reviews.length > 0 
-    ? reviews.reduce((sum, r) => sum + r.rating, 0) / reviews.length 
+  // Calculate average rating; hidden reviews only load for their author and moderators and don't count
+  const visibleReviews = reviews.filter(r => !r.hidden_at);
+  const avgRating = visibleReviews.length > 0 
+    ? visibleReviews.reduce((sum, r) => sum + r.rating, 0) / visibleReviews.length 
     : 0;
 
-  // Day name mappings - support both short (mon) and full (monday) names
-  const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  const dayNamesShort = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-  const dayNamesDisplay: Record<string, string> = {
+  const dayNamesDisplay: Record<DayKey, string> = {
     sunday: 'Sunday',
-    monday: 'Monday', 
+    monday: 'Monday',
     tuesday: 'Tuesday',
     wednesday: 'Wednesday',
     thursday: 'Thursday',
     friday: 'Friday',
     saturday: 'Saturday',
-    sun: 'Sunday',
-    mon: 'Monday', 
-    tue: 'Tuesday',
-    wed: 'Wednesday',
-    thu: 'Thursday',
-    fri: 'Friday',
-    sat: 'Saturday'
-  };
-  const today = dayNames[new Date().getDay()];
-
-  // --- Data Parsing and Formatting ---
-
-  // Safely parse potentially stringified JSON data
-  const safeParse = <T,>(data: unknown, fallback: T): T => {
-    if (typeof data === 'string') {
-      try {
-        const parsed = JSON.parse(data);
-        return parsed;
-      } catch (e) {
-        console.error("Failed to parse JSON string:", data);
-        return fallback;
-      }
-    }
-    return (data as T) ?? fallback;
-  };
-  
-  // Opening hours can be either:
-  // 1. Simple string format: { mon: "10:00 AM - 11:00 PM", ... } or { monday: "10:00 AM - 11:00 PM", ... }
-  // 2. Object format: { mon: { isOpen: true, openTime: "10:00", closeTime: "23:00" }, ... }
-  // 3. Object format with full names: { monday: { isOpen: true, openTime: "10:00", closeTime: "23:00" }, ... }
-  
-  // Helper to convert 24hr to 12hr format
-  const formatTo12Hour = (time24: string): string => {
-    if (!time24 || typeof time24 !== 'string') return time24;
-    if (time24.toLowerCase().includes('am') || time24.toLowerCase().includes('pm')) {
-      return time24;
-    }
-    const [hoursStr, minutesStr] = time24.split(':');
-    if (!hoursStr || !minutesStr) return time24;
-    const hours = parseInt(hoursStr, 10);
-    const minutes = parseInt(minutesStr, 10);
-    if (isNaN(hours) || isNaN(minutes)) return time24;
-    const period = hours >= 12 ? 'PM' : 'AM';
-    const hours12 = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
-    return `${hours12}:${minutes.toString().padStart(2, '0')} ${period}`;
-  };
-  
-  const formatHoursForDay = (hours: unknown, day: string): string => {
-    if (!hours || typeof hours !== 'object') return 'Closed';
-    
-    const hoursObj = hours as Record<string, unknown>;
-    
-    // Try full day name first, then short name
-    const fullDay = day.length === 3 ? dayNames[dayNamesShort.indexOf(day)] : day;
-    const shortDay = day.length > 3 ? dayNamesShort[dayNames.indexOf(day)] : day;
-    
-    let dayData = hoursObj[day] || hoursObj[fullDay] || hoursObj[shortDay];
-    
-    // Handle simple string format
-    if (typeof dayData === 'string') {
-      if (!dayData || dayData.toLowerCase() === 'closed') return 'Closed';
-      // Parse and reformat to 12hr
-      const parts = dayData.split(/\s*[-–]\s*/);
-      if (parts.length === 2) {
-        return `${formatTo12Hour(parts[0].trim())} - ${formatTo12Hour(parts[1].trim())}`;
-      }
-      return dayData;
-    }
-    
-    // Handle object format
-    if (dayData && typeof dayData === 'object') {
-      const dayObj = dayData as { isOpen?: boolean; openTime?: string; closeTime?: string };
-      if (!dayObj.isOpen) return 'Closed';
-      if (dayObj.openTime && dayObj.closeTime) {
-        return `${formatTo12Hour(dayObj.openTime)} - ${formatTo12Hour(dayObj.closeTime)}`;
-      }
-      return 'Open';
-    }
-    
-    return 'Closed';
   };
-  
-  const openingHours = safeParse<Record<string, unknown> | null>(restaurant?.opening_hours, null);
+  // Hours are in the restaurant's timezone, so "today" is its date, not the viewer's
+  const restaurantNow = getZonedNow(restaurant?.timezone);
+  const today = DAY_KEYS[restaurantNow.getDay()];
+  const lifecycleStatus = getEffectiveLifecycleStatus(restaurant?.lifecycle_status, restaurant?.reopens_on, restaurantNow);
+
+  const openingHours = parseOpeningHours(restaurant?.opening_hours);
+  // A holiday or Ramadan schedule replaces today's weekly hours
+  const todayException = findHoursException(openingHours, restaurantNow);
 
 
   // Keyboard navigation for lightbox
@@ -408,6 +430,8 @@ const RestaurantDetails = () => {
           <div className="lg:col-span-2 space-y-6 sm:space-y-8">
             {/* Header */}
             <div>
+              <ClosureBanner status={lifecycleStatus} reopensOn={restaurant.reopens_on} className="mb-4" />
+
               <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-4">
                 <div className="flex-1">
                   <h1 className="font-display text-2xl sm:text-3xl md:text-4xl font-bold text-foreground mb-2">
@@ -417,7 +441,7 @@ const RestaurantDetails = () => {
                     <div className="flex items-center gap-1">
                       <Star className="h-4 w-4 sm:h-5 sm:w-5 fill-gold text-gold" />
                       <span className="font-semibold">{avgRating.toFixed(1)}</span>
-                      <span className="text-muted-foreground">({reviews.length} reviews)</span>
+                      <span className="text-muted-foreground">({visibleReviews.length} reviews)</span>
                     </div>
                     <span className="text-muted-foreground hidden sm:inline">•</span>
                     <span>{restaurant.cuisine_type}</span>
@@ -456,7 +480,17 @@ const RestaurantDetails = () => {
                 </Badge>
               </div>
 
+              <CertificationBadge certifications={certifications} className="mb-4" />
+
+              <HalalAttributeBadges attributes={restaurant.halal_attributes} className="mb-4" />
+
               <p className="text-muted-foreground text-sm sm:text-base">{restaurant.description}</p>
+
+              <HalalConfirmationPanel
+                restaurantId={restaurant.id}
+                halalStatus={restaurant.halal_status}
+                className="mt-4"
+              />
             </div>
 
             <Separator />
@@ -464,7 +498,7 @@ const RestaurantDetails = () => {
             {/* Reviews Section */}
             <div>
               {(() => {
-                const userHasReview = user && sortedReviews.some(r => r.user_id === user.id);
+                const userHasReview = user && reviews.some(r => r.user_id === user.id);
                 return (
                   <div className="flex items-center justify-between mb-6">
                     <h2 className="font-display text-xl sm:text-2xl font-bold">Reviews</h2>
@@ -488,7 +522,24 @@ const RestaurantDetails = () => {
                 </div>
               )}
 
-              {sortedReviews.length === 0 && !showReviewForm ? (
+              <RatingBreakdown
+                reviews={visibleReviews}
+                selectedRating={reviewFilters.rating}
+                onRatingSelect={(rating) => setReviewFilters({ ...reviewFilters, rating })}
+                className="mb-4"
+              />
+
+              {reviews.length > 1 && (
+                <ReviewControls
+                  sort={reviewSort}
+                  onSortChange={setReviewSort}
+                  filters={reviewFilters}
+                  onFiltersChange={setReviewFilters}
+                  className="mb-4"
+                />
+              )}
+
+              {reviews.length === 0 && !showReviewForm ? (
                 <div className="text-center py-8 sm:py-12 bg-muted/30 rounded-xl">
                   <p className="text-muted-foreground mb-3">No reviews yet. Be the first to review!</p>
                   {user && (
@@ -506,9 +557,18 @@ const RestaurantDetails = () => {
                       currentUserId={user?.id || null}
                       isAdmin={isAdmin}
                       isOwnReview={user?.id === review.user_id}
+                      isMarkedHelpful={myHelpfulVotes.includes(review.id)}
+                      ownerIds={ownerIds}
                     />
                   ))}
                 </div>
+              ) : reviews.length > 0 ? (
+                <div className="text-center py-8 bg-muted/30 rounded-xl">
+                  <p className="text-muted-foreground mb-3">No reviews match these filters.</p>
+                  <Button variant="outline" size="sm" onClick={() => setReviewFilters(DEFAULT_REVIEW_FILTERS)}>
+                    Clear filters
+                  </Button>
+                </div>
               ) : null}
             </div>
           </div>
@@ -558,11 +618,15 @@ const RestaurantDetails = () => {
                       </div>
                     </div>
                   )}
+
+                  <div className="pt-3 border-t">
+                    <ClosureReportButton restaurantId={restaurant.id} status={lifecycleStatus} />
+                  </div>
                 </div>
               </div>
 
               {/* Hours Card */}
-              {openingHours && Object.keys(openingHours).length > 0 && (
+              {openingHours && (
                 <div className="p-4 sm:p-6 rounded-2xl bg-card border">
                   <Accordion type="single" collapsible defaultValue="hours">
                     <AccordionItem value="hours" className="border-none">
@@ -572,7 +636,9 @@ const RestaurantDetails = () => {
                           <div className="text-left">
                             <p className="font-medium text-sm sm:text-base">Hours</p>
                             <p className="text-xs sm:text-sm text-muted-foreground">
-                              Today: {formatHoursForDay(openingHours, today)}
+                              Today: {todayException
+                                ? `${formatDayHours(todayException)}${todayException.label ? ` (${todayException.label})` : ''}`
+                                : formatDayHours(openingHours[today])}
                             </p>
                           </div>
                         </div>
@@ -580,7 +646,7 @@ const RestaurantDetails = () => {
                       </AccordionTrigger>
                       <AccordionContent>
                         <div className="pt-4 space-y-2">
-                          {dayNames.map((day) => (
+                          {DAY_KEYS.map((day) => (
                             <div 
                               key={day} 
                               className={cn(
@@ -589,11 +655,13 @@ const RestaurantDetails = () => {
                               )}
                             >
                               <span>{dayNamesDisplay[day]}</span>
-                              <span>{formatHoursForDay(openingHours, day)}</span>
+                              <span>{formatDayHours(openingHours[day])}</span>
                             </div>
                           ))}
                         </div>
 
+                        <SpecialHoursList openingHours={openingHours} timeZone={restaurant.timezone} className="pt-4 mt-4 border-t" />
+
                       </AccordionContent>
                     </AccordionItem>
                   </Accordion>
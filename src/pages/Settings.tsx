@@ -1,3 +1,4 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Header } from "@/components/layout/Header";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { useTheme } from "@/contexts/ThemeContext";
 import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { Sun, Moon, Monitor, Bell, Shield, Trash2, LogOut } from "lucide-react";
@@ -24,8 +26,40 @@ import {
 const Settings = () => {
   const navigate = useNavigate();
   const { theme, setTheme } = useTheme();
+  const queryClient = useQueryClient();
   const { user, signOut } = useAuth();
 
+  const { data: notifyReviewResponses = true } = useQuery({
+    queryKey: ["notification-preferences", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("notify_review_responses")
+        .eq("user_id", user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.notify_review_responses ?? true;
+    },
+    enabled: !!user,
+  });
+
+  const notifyMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ notify_review_responses: enabled })
+        .eq("user_id", user!.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notification-preferences", user?.id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
   if (!user) {
     navigate("/auth/signin");
     return null;
@@ -127,7 +161,11 @@ const Settings = () => {
                   Get notified when someone responds to your reviews
                 </p>
               </div>
-              <Switch defaultChecked />
+              <Switch
+                checked={notifyReviewResponses}
+                onCheckedChange={(checked) => notifyMutation.mutate(checked)}
+                disabled={notifyMutation.isPending}
+              />
             </div>
           </CardContent>
         </Card>
@@ -16,8 +16,11 @@ import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { ImageUploadZone } from "@/components/forms/ImageUploadZone";
 import { GooglePlacesAutocomplete } from "@/components/forms/GooglePlacesAutocomplete";
-import { OpeningHoursEditor, getDefaultOpeningHours, parseGoogleHours, type OpeningHoursData } from "@/components/forms/OpeningHoursEditor";
+import { OpeningHoursEditor, getDefaultOpeningHours } from "@/components/forms/OpeningHoursEditor";
+import { HalalAttributesEditor } from "@/components/forms/HalalAttributesEditor";
 import { geocodeAddress } from "@/utils/geocoding";
+import type { HalalAttributes } from "@/utils/halalAttributes";
+import { parseGoogleHours, validateOpeningHours } from "@/utils/openingHours";
 
 interface UploadedImage {
   id: string;
@@ -81,6 +84,7 @@ const SubmitRestaurant = () => {
     price_range: "$$" as "$" | "$$" | "$$$" | "$$$$",
     halal_status: "Full Halal" as "Full Halal" | "Partial Halal",
     partial_halal_meats: [] as string[],
+    halal_attributes: {} as HalalAttributes,
     lat: 0,
     lng: 0,
     opening_hours: getDefaultOpeningHours(),
@@ -200,6 +204,12 @@ const SubmitRestaurant = () => {
       return;
     }
 
+    const hoursError = validateOpeningHours(formData.opening_hours);
+    if (hoursError) {
+      toast.error(hoursError);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -230,6 +240,7 @@ const SubmitRestaurant = () => {
         price_range: formData.price_range,
         halal_status: formData.halal_status,
         partial_halal_meats: formData.halal_status === "Partial Halal" ? formData.partial_halal_meats : [],
+        halal_attributes: formData.halal_attributes,
         image_urls: imageUrls,
         lat,
         lng,
@@ -489,6 +500,16 @@ const SubmitRestaurant = () => {
                     </div>
                   )}
 
+                  <div className="space-y-2">
+                    <Label>Halal Details</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Leave anything you're unsure about as "Not sure".
+                    </p>
+                    <HalalAttributesEditor
+                      value={formData.halal_attributes}
+                      onChange={(attributes) => setFormData(prev => ({ ...prev, halal_attributes: attributes }))}
+                    />
+                  </div>
                 </div>
 
                 {/* Image Upload */}
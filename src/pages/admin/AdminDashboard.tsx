@@ -36,13 +36,21 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { 
-  Users, Store, ClipboardList, Plus,
-  Check, X, Loader2, ExternalLink
+  Users, Store, ClipboardList, Plus, ShieldAlert, CircleSlash, Flag, Scale,
+  Check, X, Loader2, ExternalLink, Clock
 } from "lucide-react";
 import { format } from "date-fns";
+import { lookupTimezone } from "@/utils/timezone";
+import { geocodeAddress } from "@/utils/geocoding";
 import { AdminRestaurantForm } from "@/components/admin/AdminRestaurantForm";
 import { AdminUserManagement } from "@/components/admin/AdminUserManagement";
 import { AdminRestaurantList } from "@/components/admin/AdminRestaurantList";
+import { AdminHalalReviewQueue } from "@/components/admin/AdminHalalReviewQueue";
+import { AdminClosureReports } from "@/components/admin/AdminClosureReports";
+import { AdminOpeningHoursIssues } from "@/components/admin/AdminOpeningHoursIssues";
+import { AdminReviewReports } from "@/components/admin/AdminReviewReports";
+import { AdminContentModeration } from "@/components/admin/AdminContentModeration";
+import { useAuth } from "@/contexts/AuthContext";
 
 interface RestaurantRequest {
   id: string;
@@ -56,6 +64,8 @@ interface RestaurantRequest {
     description?: string;
     phone?: string;
     website_url?: string;
+    lat?: number;
+    lng?: number;
   };
   admin_notes: string | null;
   user_id: string;
@@ -67,6 +77,9 @@ const AdminDashboard = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const queryClient = useQueryClient();
+  const { role } = useAuth();
+  // Moderators only get the review reports and appeals tabs
+  const isAdmin = role === "admin";
   const [statusFilter, setStatusFilter] = useState<string>("pending");
   
   // Check if we should open edit mode for a specific restaurant
@@ -76,16 +89,28 @@ const AdminDashboard = () => {
   const { data: stats, isLoading: statsLoading } = useQuery({
     queryKey: ["admin-stats"],
     queryFn: async () => {
-      const [usersResult, restaurantsResult, requestsResult] = await Promise.all([
+      const [usersResult, restaurantsResult, requestsResult, halalReviewsResult, closureReportsResult, reviewReportsResult, heldReviewsResult, appealsResult, hoursIssuesResult] = await Promise.all([
         supabase.from("profiles").select("id", { count: "exact", head: true }),
         supabase.from("restaurants").select("id", { count: "exact", head: true }),
         supabase.from("restaurant_requests").select("id", { count: "exact", head: true }).eq("status", "pending"),
+        supabase.from("restaurant_halal_confidence").select("restaurant_id", { count: "exact", head: true }).eq("needs_review", true),
+        supabase.from("restaurant_closure_reports").select("id", { count: "exact", head: true }).is("resolved_at", null),
+        supabase.from("review_reports").select("id", { count: "exact", head: true }).eq("status", "pending"),
+        supabase.from("reviews").select("id", { count: "exact", head: true }).not("held_reason", "is", null),
+        supabase.from("moderation_appeals").select("id", { count: "exact", head: true }).eq("status", "pending"),
+        supabase.from("opening_hours_migration_issues").select("id", { count: "exact", head: true }),
       ]);
 
       return {
         totalUsers: usersResult.count || 0,
         totalRestaurants: restaurantsResult.count || 0,
         pendingRequests: requestsResult.count || 0,
+        halalReviews: halalReviewsResult.count || 0,
+        closureReports: closureReportsResult.count || 0,
+        reviewReports: reviewReportsResult.count || 0,
+        heldReviews: heldReviewsResult.count || 0,
+        pendingAppeals: appealsResult.count || 0,
+        hoursIssues: hoursIssuesResult.count || 0,
       };
     },
   });
@@ -107,6 +132,7 @@ const AdminDashboard = () => {
       if (error) throw error;
       return data as RestaurantRequest[];
     },
+    enabled: isAdmin,
   });
 
   // Approve request mutation
@@ -121,6 +147,21 @@ const AdminDashboard = () => {
       if (fetchError) throw fetchError;
 
       const submissionData = request.submission_data as RestaurantRequest["submission_data"];
+      // Use the submitted location, geocoding the address when it has none
+      let lat = submissionData.lat || 0;
+      let lng = submissionData.lng || 0;
+
+      if (lat === 0 && lng === 0 && submissionData.address) {
+        const geocoded = await geocodeAddress(submissionData.address);
+        if (geocoded) {
+          lat = geocoded.lat;
+          lng = geocoded.lng;
+        }
+      }
+
+      if (lat === 0 && lng === 0) {
+        throw new Error("This request has no location. Open it to review the address before approving.");
+      }
 
       const { error: insertError } = await supabase.from("restaurants").insert({
         name: submissionData.name || "Unnamed Restaurant",
@@ -131,8 +172,9 @@ const AdminDashboard = () => {
         description: submissionData.description || null,
         phone: submissionData.phone || null,
         website_url: submissionData.website_url || null,
-        lat: 40.7128,
-        lng: -74.0060,
+        lat,
+        lng,
+        timezone: await lookupTimezone(lat, lng),
         created_by: request.user_id,
       });
 
@@ -203,83 +245,140 @@ const AdminDashboard = () => {
       <main className="container mx-auto px-3 sm:px-4 py-4 sm:py-8">
         <div className="mb-6 sm:mb-8">
           <h1 className="font-display text-2xl sm:text-3xl font-bold text-foreground mb-2">
-            Admin Dashboard
+            {isAdmin ? "Admin Dashboard" : "Moderation"}
           </h1>
           <p className="text-muted-foreground text-sm sm:text-base">
-            Manage users, restaurants, and review pending requests.
+            {isAdmin
+              ? "Manage users, restaurants, and review pending requests."
+              : "Review reported reviews."}
           </p>
         </div>
 
         {/* Stats Cards - Responsive grid */}
-        <div className="grid grid-cols-3 gap-2 sm:gap-4 md:gap-6 mb-6 sm:mb-8">
-          <Card className="p-2 sm:p-0">
-            <CardHeader className="flex flex-col sm:flex-row items-center sm:justify-between p-2 sm:pb-2 sm:p-6">
-              <CardTitle className="text-xs sm:text-sm font-medium text-center sm:text-left">Total Users</CardTitle>
-              <Users className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground hidden sm:block" />
-            </CardHeader>
-            <CardContent className="p-2 pt-0 sm:p-6 sm:pt-0">
-              {statsLoading ? (
-                <Skeleton className="h-6 sm:h-8 w-12 sm:w-20 mx-auto sm:mx-0" />
-              ) : (
-                <div className="text-lg sm:text-2xl font-bold text-center sm:text-left">{stats?.totalUsers}</div>
-              )}
-            </CardContent>
-          </Card>
-
-          <Card className="p-2 sm:p-0">
-            <CardHeader className="flex flex-col sm:flex-row items-center sm:justify-between p-2 sm:pb-2 sm:p-6">
-              <CardTitle className="text-xs sm:text-sm font-medium text-center sm:text-left">Restaurants</CardTitle>
-              <Store className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground hidden sm:block" />
-            </CardHeader>
-            <CardContent className="p-2 pt-0 sm:p-6 sm:pt-0">
-              {statsLoading ? (
-                <Skeleton className="h-6 sm:h-8 w-12 sm:w-20 mx-auto sm:mx-0" />
-              ) : (
-                <div className="text-lg sm:text-2xl font-bold text-center sm:text-left">{stats?.totalRestaurants}</div>
-              )}
-            </CardContent>
-          </Card>
-
-          <Card className="p-2 sm:p-0">
-            <CardHeader className="flex flex-col sm:flex-row items-center sm:justify-between p-2 sm:pb-2 sm:p-6">
-              <CardTitle className="text-xs sm:text-sm font-medium text-center sm:text-left">Pending</CardTitle>
-              <ClipboardList className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground hidden sm:block" />
-            </CardHeader>
-            <CardContent className="p-2 pt-0 sm:p-6 sm:pt-0">
-              {statsLoading ? (
-                <Skeleton className="h-6 sm:h-8 w-12 sm:w-20 mx-auto sm:mx-0" />
-              ) : (
-                <div className="text-lg sm:text-2xl font-bold text-center sm:text-left">{stats?.pendingRequests}</div>
-              )}
-            </CardContent>
-          </Card>
-        </div>
+        {isAdmin && (
+          <div className="grid grid-cols-3 gap-2 sm:gap-4 md:gap-6 mb-6 sm:mb-8">
+            <Card className="p-2 sm:p-0">
+              <CardHeader className="flex flex-col sm:flex-row items-center sm:justify-between p-2 sm:pb-2 sm:p-6">
+                <CardTitle className="text-xs sm:text-sm font-medium text-center sm:text-left">Total Users</CardTitle>
+                <Users className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground hidden sm:block" />
+              </CardHeader>
+              <CardContent className="p-2 pt-0 sm:p-6 sm:pt-0">
+                {statsLoading ? (
+                  <Skeleton className="h-6 sm:h-8 w-12 sm:w-20 mx-auto sm:mx-0" />
+                ) : (
+                  <div className="text-lg sm:text-2xl font-bold text-center sm:text-left">{stats?.totalUsers}</div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="p-2 sm:p-0">
+              <CardHeader className="flex flex-col sm:flex-row items-center sm:justify-between p-2 sm:pb-2 sm:p-6">
+                <CardTitle className="text-xs sm:text-sm font-medium text-center sm:text-left">Restaurants</CardTitle>
+                <Store className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground hidden sm:block" />
+              </CardHeader>
+              <CardContent className="p-2 pt-0 sm:p-6 sm:pt-0">
+                {statsLoading ? (
+                  <Skeleton className="h-6 sm:h-8 w-12 sm:w-20 mx-auto sm:mx-0" />
+                ) : (
+                  <div className="text-lg sm:text-2xl font-bold text-center sm:text-left">{stats?.totalRestaurants}</div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="p-2 sm:p-0">
+              <CardHeader className="flex flex-col sm:flex-row items-center sm:justify-between p-2 sm:pb-2 sm:p-6">
+                <CardTitle className="text-xs sm:text-sm font-medium text-center sm:text-left">Pending</CardTitle>
+                <ClipboardList className="h-3 w-3 sm:h-4 sm:w-4 text-muted-foreground hidden sm:block" />
+              </CardHeader>
+              <CardContent className="p-2 pt-0 sm:p-6 sm:pt-0">
+                {statsLoading ? (
+                  <Skeleton className="h-6 sm:h-8 w-12 sm:w-20 mx-auto sm:mx-0" />
+                ) : (
+                  <div className="text-lg sm:text-2xl font-bold text-center sm:text-left">{stats?.pendingRequests}</div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
 
         {/* Tabs - Scrollable on mobile */}
-        <Tabs defaultValue={editRestaurantId ? "create" : "requests"} className="space-y-4 sm:space-y-6">
+        <Tabs defaultValue={!isAdmin ? "reports" : editRestaurantId ? "create" : "requests"} className="space-y-4 sm:space-y-6">
           <ScrollArea className="w-full">
             <TabsList className="inline-flex w-auto min-w-full sm:w-auto">
-              <TabsTrigger value="requests" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
-                <ClipboardList className="h-3 w-3 sm:h-4 sm:w-4" />
-                <span className="hidden xs:inline">Requests</span>
-                {stats?.pendingRequests ? (
-                  <Badge variant="secondary" className="ml-1 bg-yellow-500/20 text-yellow-600 text-xs">
-                    {stats.pendingRequests}
+              {isAdmin && (
+                <>
+                  <TabsTrigger value="requests" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                    <ClipboardList className="h-3 w-3 sm:h-4 sm:w-4" />
+                    <span className="hidden xs:inline">Requests</span>
+                    {stats?.pendingRequests ? (
+                      <Badge variant="secondary" className="ml-1 bg-yellow-500/20 text-yellow-600 text-xs">
+                        {stats.pendingRequests}
+                      </Badge>
+                    ) : null}
+                  </TabsTrigger>
+                  <TabsTrigger value="restaurants" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                    <Store className="h-3 w-3 sm:h-4 sm:w-4" />
+                    <span className="hidden xs:inline">Restaurants</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="halal-reviews" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                    <ShieldAlert className="h-3 w-3 sm:h-4 sm:w-4" />
+                    <span className="hidden xs:inline">Halal Reviews</span>
+                    {stats?.halalReviews ? (
+                      <Badge variant="secondary" className="ml-1 bg-destructive/20 text-destructive text-xs">
+                        {stats.halalReviews}
+                      </Badge>
+                    ) : null}
+                  </TabsTrigger>
+                  <TabsTrigger value="closures" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                    <CircleSlash className="h-3 w-3 sm:h-4 sm:w-4" />
+                    <span className="hidden xs:inline">Closures</span>
+                    {stats?.closureReports ? (
+                      <Badge variant="secondary" className="ml-1 bg-destructive/20 text-destructive text-xs">
+                        {stats.closureReports}
+                      </Badge>
+                    ) : null}
+                  </TabsTrigger>
+                  <TabsTrigger value="hours-issues" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                    <Clock className="h-3 w-3 sm:h-4 sm:w-4" />
+                    <span className="hidden xs:inline">Hours</span>
+                    {stats?.hoursIssues ? (
+                      <Badge variant="secondary" className="ml-1 bg-yellow-500/20 text-yellow-600 text-xs">
+                        {stats.hoursIssues}
+                      </Badge>
+                    ) : null}
+                  </TabsTrigger>
+                </>
+              )}
+              <TabsTrigger value="reports" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                <Flag className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="hidden xs:inline">Reports</span>
+                {stats?.reviewReports || stats?.heldReviews ? (
+                  <Badge variant="secondary" className="ml-1 bg-destructive/20 text-destructive text-xs">
+                    {stats.reviewReports + stats.heldReviews}
                   </Badge>
                 ) : null}
               </TabsTrigger>
-              <TabsTrigger value="restaurants" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
-                <Store className="h-3 w-3 sm:h-4 sm:w-4" />
-                <span className="hidden xs:inline">Restaurants</span>
-              </TabsTrigger>
-              <TabsTrigger value="users" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
-                <Users className="h-3 w-3 sm:h-4 sm:w-4" />
-                <span className="hidden xs:inline">Users</span>
-              </TabsTrigger>
-              <TabsTrigger value="create" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
-                <Plus className="h-3 w-3 sm:h-4 sm:w-4" />
-                <span className="hidden xs:inline">Add</span>
+              <TabsTrigger value="moderation" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                <Scale className="h-3 w-3 sm:h-4 sm:w-4" />
+                <span className="hidden xs:inline">Appeals</span>
+                {stats?.pendingAppeals ? (
+                  <Badge variant="secondary" className="ml-1 bg-destructive/20 text-destructive text-xs">
+                    {stats.pendingAppeals}
+                  </Badge>
+                ) : null}
               </TabsTrigger>
+              {isAdmin && (
+                <>
+                  <TabsTrigger value="users" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                    <Users className="h-3 w-3 sm:h-4 sm:w-4" />
+                    <span className="hidden xs:inline">Users</span>
+                  </TabsTrigger>
+                  <TabsTrigger value="create" className="gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-3">
+                    <Plus className="h-3 w-3 sm:h-4 sm:w-4" />
+                    <span className="hidden xs:inline">Add</span>
+                  </TabsTrigger>
+                </>
+              )}
             </TabsList>
           </ScrollArea>
 
@@ -533,6 +632,31 @@ const AdminDashboard = () => {
             <AdminRestaurantList />
           </TabsContent>
 
+          {/* Halal Reviews Tab */}
+          <TabsContent value="halal-reviews">
+            <AdminHalalReviewQueue />
+          </TabsContent>
+
+          {/* Closure Reports Tab */}
+          <TabsContent value="closures">
+            <AdminClosureReports />
+          </TabsContent>
+
+          {/* Opening hours the normalization migration couldn't read */}
+          <TabsContent value="hours-issues">
+            <AdminOpeningHoursIssues />
+          </TabsContent>
+
+          {/* Review Reports Tab */}
+          <TabsContent value="reports">
+            <AdminReviewReports />
+          </TabsContent>
+
+          {/* Appeals and automatic moderation log */}
+          <TabsContent value="moderation">
+            <AdminContentModeration />
+          </TabsContent>
+
           {/* Users Tab */}
           <TabsContent value="users">
             <AdminUserManagement />
@@ -36,8 +36,15 @@ import {
 } from "@/components/ui/accordion";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { toast } from "sonner";
 import { geocodeAddress } from "@/utils/geocoding";
+import { lookupTimezone } from "@/utils/timezone";
+import { formatDayHours } from "@/utils/timeFormat";
+import { DAY_KEYS, parseOpeningHours } from "@/utils/openingHours";
+import { parseHalalAttributes, type HalalAttributes } from "@/utils/halalAttributes";
+import { HalalAttributeBadges } from "@/components/restaurant/HalalAttributeBadges";
+import { SpecialHoursList } from "@/components/restaurant/SpecialHoursList";
 
 interface SubmissionData {
   name?: string;
@@ -50,10 +57,12 @@ interface SubmissionData {
   halal_status?: string;
   
   partial_halal_meats?: string[];
+  halal_attributes?: HalalAttributes;
   image_urls?: string[];
   lat?: number;
   lng?: number;
-  opening_hours?: Record<string, { isOpen: boolean; openTime?: string; closeTime?: string }>;
+  // Canonical OpeningHours for new submissions; older ones may use any legacy shape
+  opening_hours?: Json;
 }
 
 const RequestPreview = () => {
@@ -81,6 +90,7 @@ const RequestPreview = () => {
 
   const submissionData = (request?.submission_data || {}) as SubmissionData;
   const images = submissionData.image_urls || [];
+  const openingHours = parseOpeningHours(submissionData.opening_hours);
 
   // Approve mutation
   const approveMutation = useMutation({
@@ -97,6 +107,8 @@ const RequestPreview = () => {
         }
       }
 
+      const timezone = await lookupTimezone(lat, lng);
+
       // Create the restaurant
       const { data: restaurant, error: insertError } = await supabase
         .from("restaurants")
@@ -111,7 +123,9 @@ const RequestPreview = () => {
           website_url: submissionData.website_url || null,
           lat,
           lng,
-          opening_hours: submissionData.opening_hours || null,
+          timezone,
+          opening_hours: openingHours,
+          halal_attributes: parseHalalAttributes(submissionData.halal_attributes),
           
           created_by: request?.user_id,
         })
@@ -180,14 +194,7 @@ const RequestPreview = () => {
     },
   });
 
-  const dayNames = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
-  const today = dayNames[new Date().getDay()];
-
-  const formatHours = (hours: { isOpen: boolean; openTime?: string; closeTime?: string } | undefined): string => {
-    if (!hours || !hours.isOpen) return "Closed";
-    if (hours.openTime && hours.closeTime) return `${hours.openTime} - ${hours.closeTime}`;
-    return "Open";
-  };
+  const today = DAY_KEYS[new Date().getDay()];
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -307,6 +314,7 @@ const RequestPreview = () => {
                 >
                   {submissionData.halal_status || "Full Halal"}
                 </Badge>
+                <HalalAttributeBadges attributes={submissionData.halal_attributes} />
               </div>
 
               {submissionData.halal_status === "Partial Halal" && submissionData.partial_halal_meats && (
@@ -436,7 +444,7 @@ const RequestPreview = () => {
               </div>
 
               {/* Hours Card */}
-              {submissionData.opening_hours && Object.keys(submissionData.opening_hours).length > 0 && (
+              {openingHours && (
                 <div className="p-6 rounded-2xl bg-card border">
                   <Accordion type="single" collapsible defaultValue="hours">
                     <AccordionItem value="hours" className="border-none">
@@ -446,14 +454,14 @@ const RequestPreview = () => {
                           <div className="text-left">
                             <p className="font-medium">Hours</p>
                             <p className="text-sm text-muted-foreground">
-                              Today: {formatHours(submissionData.opening_hours[today])}
+                              Today: {formatDayHours(openingHours[today])}
                             </p>
                           </div>
                         </div>
                       </AccordionTrigger>
                       <AccordionContent>
                         <div className="pt-4 space-y-2">
-                          {dayNames.map((day) => (
+                          {DAY_KEYS.map((day) => (
                             <div
                               key={day}
                               className={cn(
@@ -462,10 +470,12 @@ const RequestPreview = () => {
                               )}
                             >
                               <span className="capitalize">{day}</span>
-                              <span>{formatHours(submissionData.opening_hours?.[day])}</span>
+                              <span>{formatDayHours(openingHours[day])}</span>
                             </div>
                           ))}
                         </div>
+
+                        <SpecialHoursList openingHours={openingHours} className="pt-4 mt-4 border-t" />
                       </AccordionContent>
                     </AccordionItem>
                   </Accordion>
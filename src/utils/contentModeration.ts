@@ -0,0 +1,69 @@
+// Automatic content moderation (the moderate-review function), its decision log
+// (public.moderation_decisions) and appeals against it (public.moderation_appeals)
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type ModerationContentType = Database["public"]["Enums"]["moderation_content_type"];
+export type ModerationVerdict = Database["public"]["Enums"]["moderation_verdict"];
+export type ModerationAppealStatus = Database["public"]["Enums"]["moderation_appeal_status"];
+
+export const MAX_APPEAL_MESSAGE_LENGTH = 500;
+
+export const moderationContentTypeLabels: Record<ModerationContentType, string> = {
+  review: 'Review text',
+  image_only: 'Photo',
+  avatar: 'Avatar',
+};
+
+export const moderationVerdictLabels: Record<ModerationVerdict, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  held: 'Held',
+};
+
+export const appealStatusLabels: Record<ModerationAppealStatus, string> = {
+  pending: 'Waiting for a moderator',
+  upheld: 'Decision upheld',
+  overturned: 'Approved on appeal',
+};
+
+// A rejection that can be appealed. Rejected images were kept by moderate-review, so a
+// moderator sees exactly what was checked
+export interface AppealableDecision {
+  decisionId: string;
+}
+
+/**
+ * Request headers for the moderate-review function. The access token lets it log
+ * decisions against the user, which is what makes them appealable.
+ */
+export async function getModerationHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    ...(session && { Authorization: `Bearer ${session.access_token}` }),
+  };
+}
+
+/**
+ * Appeals each decision, all together or not at all.
+ */
+export async function submitModerationAppeals(
+  userId: string,
+  decisions: AppealableDecision[],
+  message: string
+): Promise<void> {
+  const appeals = decisions.map(({ decisionId }) => ({
+    decision_id: decisionId,
+    user_id: userId,
+    message: message.trim() || null,
+  }));
+
+  const { error } = await supabase.from('moderation_appeals').insert(appeals);
+  if (error) {
+    // One appeal per decision
+    if (error.code === '23505') throw new Error("You've already appealed this decision");
+    throw error;
+  }
+}
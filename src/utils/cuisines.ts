@@ -0,0 +1,17 @@
+// Cuisines offered in the Explore filters and suggested by the search omnibox
+
+export const cuisineOptions = [
+  'American',
+  'Middle Eastern',
+  'South Asian',
+  'Turkish',
+  'Mediterranean',
+  'Asian',
+  'Halal',
+  'Seafood',
+  'Fast Food',
+  'BBQ',
+  'African',
+  'Caribbean',
+  'Latin American'
+];
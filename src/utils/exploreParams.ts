@@ -0,0 +1,111 @@
+// Explore page URL state
+// Keeps filters, search query, map position and selection in the query string
+// so Explore links can be shared and the back button restores context
+
+import type { Filters } from "@/components/filters/FilterBar";
+import { sortOptions, SortOption } from "@/utils/exploreSort";
+import { halalAttributeFilterOptions } from "@/utils/halalAttributes";
+import { parseOpenAt, serializeOpenAt } from "@/utils/openAtFilter";
+
+export interface ExploreParams {
+  filters: Filters;
+  q: string;
+  // Only set once picked; see resolveSort for what applies otherwise
+  sort?: SortOption;
+  lat?: number;
+  lng?: number;
+  location?: string;
+  zoom?: number;
+  selected?: string;
+}
+
+export const DEFAULT_FILTERS: Filters = {
+  priceRange: [],
+  cuisineTypes: [],
+  halalStatus: [],
+  halalAttributes: [],
+  openNow: false,
+  openAt: null,
+  distance: 50,
+};
+
+const PRICE_VALUES = ['$', '$$', '$$$', '$$$$'];
+const HALAL_VALUES = ['Full Halal', 'Partial Halal'];
+const HALAL_ATTRIBUTE_VALUES = halalAttributeFilterOptions.map(o => o.value as string);
+
+const parseList = (value: string | null, allowed?: string[]): string[] => {
+  if (!value) return [];
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  return allowed ? items.filter(item => allowed.includes(item)) : items;
+};
+
+const parseNumber = (value: string | null, min: number, max: number): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const num = Number(value);
+  if (!Number.isFinite(num) || num < min || num > max) return undefined;
+  return num;
+};
+
+/**
+ * Read Explore state from URL search params
+ * Unknown or out-of-range values fall back to defaults
+ */
+export function parseExploreParams(params: URLSearchParams): ExploreParams {
+  const lat = parseNumber(params.get('lat'), -90, 90);
+  const lng = parseNumber(params.get('lng'), -180, 180);
+  const hasCenter = lat !== undefined && lng !== undefined;
+
+  return {
+    filters: {
+      priceRange: parseList(params.get('price'), PRICE_VALUES),
+      cuisineTypes: parseList(params.get('cuisine')),
+      halalStatus: parseList(params.get('halal'), HALAL_VALUES),
+      halalAttributes: parseList(params.get('attrs'), HALAL_ATTRIBUTE_VALUES),
+      openNow: params.get('open') === '1',
+      openAt: parseOpenAt(params.get('at')),
+      distance: parseNumber(params.get('distance'), 1, 500) ?? DEFAULT_FILTERS.distance,
+    },
+    q: params.get('q') ?? '',
+    sort: sortOptions.find(o => o.value === params.get('sort'))?.value,
+    lat: hasCenter ? lat : undefined,
+    lng: hasCenter ? lng : undefined,
+    location: params.get('location') || undefined,
+    zoom: parseNumber(params.get('zoom'), 1, 19),
+    selected: params.get('selected') || undefined,
+  };
+}
+
+/**
+ * Serialize Explore state to URL search params, omitting defaults
+ */
+export function buildExploreParams(state: Partial<ExploreParams>): URLSearchParams {
+  const params = new URLSearchParams();
+  const filters = { ...DEFAULT_FILTERS, ...state.filters };
+
+  if (state.q) params.set('q', state.q);
+  if (state.sort) params.set('sort', state.sort);
+  if (state.lat !== undefined && state.lng !== undefined) {
+    params.set('lat', state.lat.toFixed(5));
+    params.set('lng', state.lng.toFixed(5));
+  }
+  if (state.location) params.set('location', state.location);
+  if (state.zoom !== undefined) params.set('zoom', String(state.zoom));
+  if (filters.priceRange.length > 0) params.set('price', filters.priceRange.join(','));
+  if (filters.cuisineTypes.length > 0) params.set('cuisine', filters.cuisineTypes.join(','));
+  if (filters.halalStatus.length > 0) params.set('halal', filters.halalStatus.join(','));
+  if (filters.halalAttributes.length > 0) params.set('attrs', filters.halalAttributes.join(','));
+  if (filters.openNow) params.set('open', '1');
+  if (filters.openAt) params.set('at', serializeOpenAt(filters.openAt));
+  if (filters.distance !== DEFAULT_FILTERS.distance) params.set('distance', String(filters.distance));
+  if (state.selected) params.set('selected', state.selected);
+
+  return params;
+}
+
+/**
+ * Build a link into the Explore page with the given state
+ */
+export function getExploreUrl(state: Partial<ExploreParams> = {}): string {
+  const query = buildExploreParams(state).toString();
+  return query ? `/explore?${query}` : '/explore';
+}
@@ -0,0 +1,23 @@
+// Sort orders offered on Explore; the values are explore_restaurants' _sort argument
+
+export type SortOption = 'relevance' | 'nearest' | 'rating' | 'halal_rating' | 'reviews' | 'newest' | 'price_asc' | 'price_desc';
+
+export const sortOptions: { value: SortOption; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'nearest', label: 'Nearest' },
+  { value: 'rating', label: 'Highest rated' },
+  { value: 'halal_rating', label: 'Best halal rating' },
+  { value: 'reviews', label: 'Most reviewed' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+];
+
+/**
+ * Sort to apply for the chosen one, if any: best match while searching, otherwise nearest
+ * Best match needs a query, so it falls back to nearest without one
+ */
+export const resolveSort = (sort: SortOption | undefined, query: string): SortOption => {
+  if (!query) return !sort || sort === 'relevance' ? 'nearest' : sort;
+  return sort ?? 'relevance';
+};
@@ -74,6 +74,43 @@ export async function reverseGeocode(lat: number, lng: number): Promise<string |
   }
 }
 
+export interface PlaceSuggestion {
+  name: string;
+  lat: number;
+  lng: number;
+  type: string;
+}
+
+/**
+ * Search places (cities, neighbourhoods, zip codes) by name using Nominatim
+ * Returns an empty list on failure so callers can keep showing other suggestions
+ */
+export async function searchPlaces(query: string, limit: number = 5): Promise<PlaceSuggestion[]> {
+  if (query.trim().length < 2) return [];
+
+  try {
+    const response = await fetch(
+      `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=${limit}&addressdetails=1`,
+      { headers: { 'Accept': 'application/json' } }
+    );
+
+    if (!response.ok) {
+      throw new Error('Place search request failed');
+    }
+
+    const data: { display_name: string; lat: string; lon: string; type?: string }[] = await response.json();
+    return data.map((item) => ({
+      name: item.display_name.split(',').slice(0, 3).join(','),
+      lat: parseFloat(item.lat),
+      lng: parseFloat(item.lon),
+      type: item.type || 'location',
+    }));
+  } catch (error) {
+    console.error('Place search error:', error);
+    return [];
+  }
+}
+
 /**
  * Format coordinates for display
  */
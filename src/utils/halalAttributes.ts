@@ -0,0 +1,87 @@
+// Structured halal details stored in restaurants.halal_attributes
+// Every field is optional: an unset field means "unknown", which is different from false
+
+import { z } from "zod";
+
+export const halalAttributesSchema = z.object({
+  slaughter_method: z.enum(["zabiha", "machine"]).optional(),
+  alcohol_served: z.boolean().optional(),
+  pork_on_premises: z.boolean().optional(),
+  separate_prep: z.boolean().optional(),
+  certified_supplier: z.boolean().optional(),
+});
+
+export type HalalAttributes = z.infer<typeof halalAttributesSchema>;
+
+// Filter keys understood by the explore_restaurants RPC (_halal_attributes)
+export type HalalAttributeFilter =
+  | 'zabiha'
+  | 'no_alcohol'
+  | 'no_pork'
+  | 'separate_prep'
+  | 'certified_supplier';
+
+export const halalAttributeFilterOptions: { value: HalalAttributeFilter; label: string }[] = [
+  { value: 'zabiha', label: 'Zabiha' },
+  { value: 'no_alcohol', label: 'No alcohol' },
+  { value: 'no_pork', label: 'No pork on premises' },
+  { value: 'separate_prep', label: 'Separate prep & fryers' },
+  { value: 'certified_supplier', label: 'Certified supplier' },
+];
+
+/**
+ * Parse halal_attributes JSON from the database
+ * Legacy rows hold an empty array and invalid fields are dropped, so this never throws
+ */
+export function parseHalalAttributes(value: unknown): HalalAttributes {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const result: HalalAttributes = {};
+  const shape = halalAttributesSchema.shape;
+  (Object.keys(shape) as (keyof HalalAttributes)[]).forEach((key) => {
+    const parsed = shape[key].safeParse((value as Record<string, unknown>)[key]);
+    if (parsed.success && parsed.data !== undefined) {
+      (result as Record<string, unknown>)[key] = parsed.data;
+    }
+  });
+  return result;
+}
+
+export interface HalalAttributeBadge {
+  key: string;
+  label: string;
+  // positive: reassuring for halal diners, caution: worth knowing before visiting
+  tone: 'positive' | 'caution';
+}
+
+/**
+ * Turn known attributes into display badges, most important first
+ * Unknown (unset) attributes produce no badge
+ */
+export function getHalalAttributeBadges(attributes: HalalAttributes): HalalAttributeBadge[] {
+  const badges: HalalAttributeBadge[] = [];
+
+  if (attributes.slaughter_method === 'zabiha') {
+    badges.push({ key: 'slaughter', label: 'Zabiha', tone: 'positive' });
+  } else if (attributes.slaughter_method === 'machine') {
+    badges.push({ key: 'slaughter', label: 'Machine slaughtered', tone: 'caution' });
+  }
+  if (attributes.certified_supplier) {
+    badges.push({ key: 'supplier', label: 'Certified supplier', tone: 'positive' });
+  }
+  if (attributes.separate_prep) {
+    badges.push({ key: 'prep', label: 'Separate prep & fryers', tone: 'positive' });
+  }
+  if (attributes.alcohol_served === false) {
+    badges.push({ key: 'alcohol', label: 'No alcohol', tone: 'positive' });
+  } else if (attributes.alcohol_served === true) {
+    badges.push({ key: 'alcohol', label: 'Serves alcohol', tone: 'caution' });
+  }
+  if (attributes.pork_on_premises === false) {
+    badges.push({ key: 'pork', label: 'Pork-free', tone: 'positive' });
+  } else if (attributes.pork_on_premises === true) {
+    badges.push({ key: 'pork', label: 'Pork on premises', tone: 'caution' });
+  }
+
+  return badges;
+}
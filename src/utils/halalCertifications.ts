@@ -0,0 +1,68 @@
+// Halal certification records (public.halal_certifications)
+// Validity is derived from issued_on and expires_on at read time, so a certificate
+// takes effect and expires on its own without anyone editing the record
+
+import { format, parseISO } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type HalalCertification = Tables<'halal_certifications'>;
+
+export type CertificationStatus = 'valid' | 'expired' | 'not_yet_valid';
+
+export const HALAL_CERTIFICATES_BUCKET = 'halal-certificates';
+
+// Today's date as YYYY-MM-DD in local time, comparable with DATE columns
+const todayKey = (now: Date) => format(now, 'yyyy-MM-dd');
+
+/**
+ * A certificate is valid from its issue date through the end of its expiry date
+ * Missing dates don't limit it, so a certificate with neither is treated as valid
+ */
+export function getCertificationStatus(
+  certification: Pick<HalalCertification, 'issued_on' | 'expires_on'>,
+  now: Date = new Date()
+): CertificationStatus {
+  const today = todayKey(now);
+  if (certification.expires_on && certification.expires_on < today) return 'expired';
+  // e.g. a renewal recorded before the current certificate runs out
+  if (certification.issued_on && certification.issued_on > today) return 'not_yet_valid';
+  return 'valid';
+}
+
+export interface CertificationSummary {
+  // Best certificate to show: the valid one lasting longest, otherwise the most recently
+  // expired, otherwise the one taking effect soonest
+  certification: HalalCertification;
+  status: CertificationStatus;
+}
+
+/**
+ * Pick the certificate that best represents a restaurant's certification
+ * Returns null when the restaurant has no certificates at all
+ */
+export function summarizeCertifications(
+  certifications: HalalCertification[],
+  now: Date = new Date()
+): CertificationSummary | null {
+  if (certifications.length === 0) return null;
+
+  // Open-ended certificates sort first, then later expiry dates
+  const byExpiry = [...certifications].sort((a, b) => {
+    if (a.expires_on === b.expires_on) return 0;
+    if (!a.expires_on) return -1;
+    if (!b.expires_on) return 1;
+    return a.expires_on < b.expires_on ? 1 : -1;
+  });
+
+  const valid = byExpiry.find(c => getCertificationStatus(c, now) === 'valid');
+  if (valid) return { certification: valid, status: 'valid' };
+
+  const expired = byExpiry.find(c => getCertificationStatus(c, now) === 'expired');
+  if (expired) return { certification: expired, status: 'expired' };
+
+  // Only certificates that haven't taken effect yet, which all have an issue date
+  const [upcoming] = [...certifications].sort((a, b) => (a.issued_on! < b.issued_on! ? -1 : 1));
+  return { certification: upcoming, status: 'not_yet_valid' };
+}
+
+export const formatCertificationDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
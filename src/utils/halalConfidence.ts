@@ -0,0 +1,27 @@
+// Community halal confidence (public.restaurant_halal_confidence)
+// confidence is 0-1 and already decays old votes; null means nobody has voted yet
+
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+
+export type HalalConfirmationVerdict = Database["public"]["Enums"]["halal_confirmation_verdict"];
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export const MAX_CONFIRMATION_NOTE_LENGTH = 500;
+
+export function getConfidenceLevel(confidence: number): ConfidenceLevel {
+  if (confidence >= 0.75) return 'high';
+  if (confidence >= 0.5) return 'medium';
+  return 'low';
+}
+
+/**
+ * "Confirmed today", "Confirmed yesterday", "Confirmed 12 days ago"
+ */
+export function formatLastConfirmed(lastConfirmedAt: string, now: Date = new Date()): string {
+  const days = Math.max(differenceInCalendarDays(now, parseISO(lastConfirmedAt)), 0);
+  if (days === 0) return 'Confirmed today';
+  if (days === 1) return 'Confirmed yesterday';
+  return `Confirmed ${days} days ago`;
+}
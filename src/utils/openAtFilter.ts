@@ -0,0 +1,76 @@
+// "Open at a chosen time" filter for Explore
+// A weekday plus a wall-clock time, evaluated in each restaurant's own timezone
+
+import { formatTo12Hour, getOpenStatusAt } from "@/utils/timeFormat";
+import { getZonedNow } from "@/utils/timezone";
+
+export interface OpenAtFilter {
+  // 0 = Sunday ... 6 = Saturday, like Date.getDay()
+  day: number;
+  // 24-hour "HH:mm"
+  time: string;
+}
+
+export const weekdayOptions = [
+  { value: 0, short: 'sun', label: 'Sunday' },
+  { value: 1, short: 'mon', label: 'Monday' },
+  { value: 2, short: 'tue', label: 'Tuesday' },
+  { value: 3, short: 'wed', label: 'Wednesday' },
+  { value: 4, short: 'thu', label: 'Thursday' },
+  { value: 5, short: 'fri', label: 'Friday' },
+  { value: 6, short: 'sat', label: 'Saturday' },
+];
+
+interface OpenAtPreset {
+  key: string;
+  label: string;
+  // Resolve against the viewer's current time
+  resolve: (now: Date) => OpenAtFilter;
+}
+
+// Later today, or tomorrow once the time has passed
+const nextAt = (time: string) => (now: Date): OpenAtFilter => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const passed = now.getHours() * 60 + now.getMinutes() > hours * 60 + minutes;
+  return { day: (now.getDay() + (passed ? 1 : 0)) % 7, time };
+};
+
+export const openAtPresets: OpenAtPreset[] = [
+  { key: 'late', label: 'Open late (after 11pm)', resolve: nextAt('23:00') },
+  { key: 'taraweeh', label: 'After Taraweeh (10:30pm)', resolve: nextAt('22:30') },
+  { key: 'breakfast', label: 'Breakfast (8am)', resolve: nextAt('08:00') },
+];
+
+/**
+ * Chip label, e.g. "Open Fri 11:00 PM"
+ */
+export function formatOpenAt(filter: OpenAtFilter): string {
+  const day = weekdayOptions[filter.day]?.label.slice(0, 3) ?? '';
+  return `Open ${day} ${formatTo12Hour(filter.time)}`;
+}
+
+// URL form: "fri-23:00"
+export function serializeOpenAt(filter: OpenAtFilter): string {
+  return `${weekdayOptions[filter.day].short}-${filter.time}`;
+}
+
+export function parseOpenAt(value: string | null): OpenAtFilter | null {
+  const match = value?.match(/^([a-z]{3})-([01]\d|2[0-3]):([0-5]\d)$/);
+  if (!match) return null;
+  const day = weekdayOptions.find(d => d.short === match[1]);
+  return day ? { day: day.value, time: `${match[2]}:${match[3]}` } : null;
+}
+
+/**
+ * Whether a restaurant is open at the next occurrence of the chosen day and time
+ * in its own timezone, so date exceptions like Eid closures are respected
+ */
+export function isOpenAt(openingHours: unknown, filter: OpenAtFilter, timeZone?: string | null): boolean {
+  const now = getZonedNow(timeZone);
+  const [hours, minutes] = filter.time.split(':').map(Number);
+  const daysAhead = (filter.day - now.getDay() + 7) % 7;
+  const at = new Date(now.getFullYear(), now.getMonth(), now.getDate() + daysAhead, hours, minutes);
+  if (at < now) at.setDate(at.getDate() + 7);
+
+  return getOpenStatusAt(openingHours, at, timeZone).isOpen;
+}
@@ -0,0 +1,335 @@
+// Canonical opening hours, stored in restaurants.opening_hours and submission_data.opening_hours
+// Every weekday uses its full name and one or more 24-hour "HH:mm" ranges; closed days have none.
+// Older rows used plain text ("10:00 AM - 11:00 PM"), single { openTime, closeTime } objects and short
+// day keys ("mon"). parseOpeningHours reads all of them, so consumers only ever see the canonical shape.
+
+import { z } from "zod";
+
+// Indexed by Date.getDay()
+export const DAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type DayKey = typeof DAY_KEYS[number];
+
+const SHORT_DAY_KEYS: Record<DayKey, string> = {
+  sunday: 'sun',
+  monday: 'mon',
+  tuesday: 'tue',
+  wednesday: 'wed',
+  thursday: 'thu',
+  friday: 'fri',
+  saturday: 'sat',
+};
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be 24-hour HH:mm');
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+export const timeRangeSchema = z.object({
+  openTime: timeSchema,
+  closeTime: timeSchema,
+});
+
+// A day can have several ranges, e.g. lunch and dinner with a break for Jumu'ah
+// A range whose close time is before its open time runs past midnight
+export const dayHoursSchema = z
+  .object({
+    isOpen: z.boolean(),
+    ranges: z.array(timeRangeSchema),
+  })
+  .refine(day => !day.isOpen || day.ranges.length > 0, {
+    message: 'Open days need at least one time range',
+    path: ['ranges'],
+  });
+
+// Date-specific override of the weekly schedule, e.g. closed for Eid or Ramadan iftar-to-suhoor hours
+// Dates are inclusive YYYY-MM-DD; a single day has startDate === endDate
+export const hoursExceptionSchema = z
+  .object({
+    label: z.string().trim().max(100),
+    startDate: dateSchema,
+    endDate: dateSchema,
+    isOpen: z.boolean(),
+    ranges: z.array(timeRangeSchema),
+  })
+  .refine(exception => exception.startDate <= exception.endDate, {
+    message: 'End date must be on or after the start date',
+    path: ['endDate'],
+  })
+  .refine(exception => !exception.isOpen || exception.ranges.length > 0, {
+    message: 'Open days need at least one time range',
+    path: ['ranges'],
+  });
+
+export const openingHoursSchema = z.object({
+  monday: dayHoursSchema,
+  tuesday: dayHoursSchema,
+  wednesday: dayHoursSchema,
+  thursday: dayHoursSchema,
+  friday: dayHoursSchema,
+  saturday: dayHoursSchema,
+  sunday: dayHoursSchema,
+  exceptions: z.array(hoursExceptionSchema).optional(),
+});
+
+export type TimeRange = z.infer<typeof timeRangeSchema>;
+export type DayHours = z.infer<typeof dayHoursSchema>;
+export type HoursException = z.infer<typeof hoursExceptionSchema>;
+export type OpeningHours = z.infer<typeof openingHoursSchema>;
+
+export const CLOSED_DAY: DayHours = { isOpen: false, ranges: [] };
+
+const ALL_DAY: DayHours = { isOpen: true, ranges: [{ openTime: '00:00', closeTime: '23:59' }] };
+
+/**
+ * Parse one time of day into "HH:mm"
+ * Accepts "21:30", "9:30 PM", "9pm" and "24:00" (midnight); a bare hour needs AM/PM
+ * @param fallbackPeriod - AM/PM to assume when the time has none
+ */
+const parseTimeText = (text: string, fallbackPeriod?: string): string | null => {
+  const match = text.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*([AP])?\.?\s*(?:M\.?)?$/i);
+  if (!match) return null;
+
+  const [, hourStr, minuteStr, periodLetter] = match;
+  let hours = parseInt(hourStr, 10);
+  const minutes = minuteStr ? parseInt(minuteStr, 10) : 0;
+  // A 24-hour open time ("17:00 – 10:00 PM") keeps its own reading
+  const period = (periodLetter ?? (hours <= 12 ? fallbackPeriod : undefined))?.toUpperCase();
+
+  if (!minuteStr && !period) return null;
+  if (minutes > 59) return null;
+
+  if (period) {
+    if (hours < 1 || hours > 12) return null;
+    if (period === 'P' && hours !== 12) hours += 12;
+    if (period === 'A' && hours === 12) hours = 0;
+  } else if (hours === 24 && minutes === 0) {
+    hours = 0;
+  } else if (hours > 23) {
+    return null;
+  }
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+const getPeriod = (text: string) => text.match(/([AP])\.?\s*M\.?\s*$/i)?.[1];
+
+/**
+ * Parse one day's hours text, e.g. "10:00 AM - 11:00 PM", "Closed" or Google's
+ * "11:00 AM – 2:30 PM, 5:00 – 10:00 PM" (Google drops AM/PM on an open time that
+ * shares the close time's period)
+ * Returns null when any part can't be read
+ */
+const parseDayHoursText = (text: string): DayHours | null => {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+  if (value === 'closed') return CLOSED_DAY;
+  if (value === 'open 24 hours' || value === '24 hours' || value === '24/7') return ALL_DAY;
+
+  const ranges: TimeRange[] = [];
+  for (const part of text.split(/\s*[,;\n]\s*/).filter(Boolean)) {
+    const times = part.split(/\s*(?:[-–—]|\bto\b)\s*/i);
+    if (times.length !== 2) return null;
+
+    const openTime = parseTimeText(times[0], getPeriod(times[1]));
+    const closeTime = parseTimeText(times[1]);
+    if (!openTime || !closeTime) return null;
+    ranges.push({ openTime, closeTime });
+  }
+
+  return ranges.length > 0 ? { isOpen: true, ranges } : null;
+};
+
+/**
+ * Parse a stored day: text, { isOpen, ranges } or the older { isOpen, openTime, closeTime }
+ * Returns null when the day can't be read
+ */
+const parseDayHours = (value: unknown): DayHours | null => {
+  if (typeof value === 'string') return parseDayHoursText(value);
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const day = value as { isOpen?: unknown; ranges?: unknown; openTime?: unknown; closeTime?: unknown };
+  const rawRanges: unknown[] = Array.isArray(day.ranges)
+    ? day.ranges
+    : day.openTime !== undefined || day.closeTime !== undefined
+      ? [{ openTime: day.openTime, closeTime: day.closeTime }]
+      : [];
+
+  // Days saved without a flag are open when they list times
+  const isOpen = typeof day.isOpen === 'boolean' ? day.isOpen : rawRanges.length > 0;
+  if (!isOpen) return CLOSED_DAY;
+
+  const ranges: TimeRange[] = [];
+  for (const raw of rawRanges) {
+    const range = raw as { openTime?: unknown; closeTime?: unknown } | null;
+    const openTime = typeof range?.openTime === 'string' ? parseTimeText(range.openTime) : null;
+    const closeTime = typeof range?.closeTime === 'string' ? parseTimeText(range.closeTime) : null;
+    if (!openTime || !closeTime) return null;
+    ranges.push({ openTime, closeTime });
+  }
+
+  return ranges.length > 0 ? { isOpen: true, ranges } : null;
+};
+
+const parseHoursException = (value: unknown): HoursException | null => {
+  if (!value || typeof value !== 'object') return null;
+  const exception = value as { label?: unknown; startDate?: unknown; endDate?: unknown };
+  const day = parseDayHours(value);
+  if (!day) return null;
+
+  const parsed = hoursExceptionSchema.safeParse({
+    ...day,
+    label: typeof exception.label === 'string' ? exception.label : '',
+    startDate: exception.startDate,
+    endDate: exception.endDate,
+  });
+  return parsed.success ? parsed.data : null;
+};
+
+const describe = (value: unknown) => {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+export interface OpeningHoursParseResult {
+  // null when the value holds no hours at all
+  hours: OpeningHours | null;
+  // Everything that was dropped while parsing, e.g. 'friday: could not read "late"'
+  issues: string[];
+}
+
+/**
+ * Normalize stored opening hours in any historical shape and list what couldn't be read
+ * Unreadable days become closed and unreadable exceptions are dropped
+ */
+export const normalizeOpeningHours = (value: unknown): OpeningHoursParseResult => {
+  if (value === null || value === undefined) return { hours: null, issues: [] };
+
+  // Some older rows hold the JSON as a string
+  if (typeof value === 'string') {
+    try {
+      return normalizeOpeningHours(JSON.parse(value));
+    } catch {
+      return { hours: null, issues: [`not valid JSON: ${describe(value)}`] };
+    }
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { hours: null, issues: [`expected an object of days, got ${describe(value)}`] };
+  }
+
+  const stored = Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, day]) => [key.toLowerCase(), day])
+  );
+  if (Object.keys(stored).length === 0) return { hours: null, issues: [] };
+
+  const issues: string[] = [];
+  const knownKeys = new Set<string>(['exceptions']);
+  const hours = {} as OpeningHours;
+
+  DAY_KEYS.forEach(key => {
+    knownKeys.add(key);
+    knownKeys.add(SHORT_DAY_KEYS[key]);
+    const dayData = stored[key] ?? stored[SHORT_DAY_KEYS[key]];
+
+    // Missing days are closed
+    if (dayData === undefined || dayData === null) {
+      hours[key] = CLOSED_DAY;
+      return;
+    }
+
+    const day = parseDayHours(dayData);
+    if (!day) issues.push(`${key}: could not read ${describe(dayData)}`);
+    hours[key] = day ?? CLOSED_DAY;
+  });
+
+  Object.keys(stored)
+    .filter(key => !knownKeys.has(key))
+    .forEach(key => issues.push(`unknown key "${key}"`));
+
+  if (stored.exceptions !== undefined) {
+    if (Array.isArray(stored.exceptions)) {
+      const exceptions = stored.exceptions.flatMap(raw => {
+        const exception = parseHoursException(raw);
+        if (!exception) issues.push(`exceptions: could not read ${describe(raw)}`);
+        return exception ? [exception] : [];
+      });
+      if (exceptions.length > 0) hours.exceptions = exceptions;
+    } else {
+      issues.push(`exceptions: expected a list, got ${describe(stored.exceptions)}`);
+    }
+  }
+
+  return { hours, issues };
+};
+
+/**
+ * Read stored opening hours, whatever their shape
+ * Returns null when there are no hours; see normalizeOpeningHours for what gets dropped
+ */
+export const parseOpeningHours = (value: unknown): OpeningHours | null =>
+  normalizeOpeningHours(value).hours;
+
+/**
+ * First problem with edited hours, worded for a toast, e.g. "Friday: Times must be 24-hour HH:mm"
+ * Returns null when the hours are valid
+ */
+export const validateOpeningHours = (hours: OpeningHours): string | null => {
+  const result = openingHoursSchema.safeParse(hours);
+  if (result.success) return null;
+
+  const [issue] = result.error.issues;
+  const section = String(issue.path[0] ?? '');
+  const where = section === 'exceptions'
+    ? 'Special hours'
+    : section.charAt(0).toUpperCase() + section.slice(1);
+  return where ? `${where}: ${issue.message}` : issue.message;
+};
+
+/**
+ * Parse Google's weekday descriptions, e.g. "Monday: 9:00 AM – 9:00 PM"
+ * Days Google doesn't list, or lists in a form we can't read, are closed
+ */
+export const parseGoogleHours = (weekdayText: string[]): OpeningHours => {
+  const hours = Object.fromEntries(DAY_KEYS.map(key => [key, CLOSED_DAY])) as OpeningHours;
+
+  weekdayText.forEach(text => {
+    const match = text.match(/^(\w+):\s*(.+)$/);
+    const dayKey = match && DAY_KEYS.find(key => key === match[1].toLowerCase());
+    const day = dayKey && parseDayHoursText(match[2]);
+    if (dayKey && day) hours[dayKey] = day;
+  });
+
+  return hours;
+};
+
+// Local calendar date as YYYY-MM-DD, comparable with exception dates
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Find the exception that applies on a date
+ * When exceptions overlap (a one-off closure during Ramadan) the shortest one wins
+ */
+export const findHoursException = (hours: OpeningHours | null, date: Date): HoursException | null => {
+  const key = toDateKey(date);
+  const span = (e: HoursException) => Date.parse(e.endDate) - Date.parse(e.startDate);
+
+  return (hours?.exceptions ?? [])
+    .filter(e => e.startDate <= key && key <= e.endDate)
+    .sort((a, b) => span(a) - span(b))[0] ?? null;
+};
+
+/**
+ * Exceptions that haven't ended yet, soonest first
+ */
+export const getUpcomingHoursExceptions = (hours: OpeningHours | null, now: Date = new Date()): HoursException[] => {
+  const today = toDateKey(now);
+  return (hours?.exceptions ?? [])
+    .filter(e => e.endDate >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
+
+/**
+ * Hours that apply on a date: its exception if there is one, otherwise the weekly schedule
+ */
+export const getHoursOn = (hours: OpeningHours, date: Date): DayHours =>
+  findHoursException(hours, date) ?? hours[DAY_KEYS[date.getDay()]];
@@ -0,0 +1,40 @@
+// Restaurant lifecycle (restaurants.lifecycle_status)
+// A temporary closure with a reopens_on date ends by itself once that date arrives
+
+import { format, parseISO } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+
+export type LifecycleStatus = Database["public"]["Enums"]["restaurant_lifecycle_status"];
+
+export const MAX_CLOSURE_REPORT_NOTE_LENGTH = 500;
+
+export const lifecycleStatusLabels: Record<LifecycleStatus, string> = {
+  active: 'Open as usual',
+  temporarily_closed: 'Temporarily closed',
+  permanently_closed: 'Permanently closed',
+};
+
+/**
+ * Status as of today, treating a temporary closure whose reopening date has arrived as open
+ * @param now - Today in the restaurant's timezone (see getZonedNow)
+ */
+export function getEffectiveLifecycleStatus(
+  status: LifecycleStatus | null | undefined,
+  reopensOn?: string | null,
+  now: Date = new Date()
+): LifecycleStatus {
+  if (status === 'temporarily_closed' && reopensOn && reopensOn <= format(now, 'yyyy-MM-dd')) {
+    return 'active';
+  }
+  return status ?? 'active';
+}
+
+/**
+ * "Temporarily closed", "Temporarily closed · Reopens Mar 3" or "Permanently closed"
+ */
+export function formatLifecycleStatus(status: LifecycleStatus, reopensOn?: string | null): string {
+  if (status === 'temporarily_closed' && reopensOn) {
+    return `${lifecycleStatusLabels[status]} · Reopens ${format(parseISO(reopensOn), 'MMM d')}`;
+  }
+  return lifecycleStatusLabels[status];
+}
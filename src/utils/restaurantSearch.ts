@@ -0,0 +1,33 @@
+// Restaurant text search backed by the search_restaurants RPC
+// (full-text + trigram matching, ranked by relevance)
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type RestaurantSearchResult =
+  Database["public"]["Functions"]["search_restaurants"]["Returns"][number];
+
+/**
+ * Search restaurants by name, cuisine, address or description
+ * @param query - Raw user input; queries shorter than 2 characters return no results
+ * @param location - Optional point to compute distance_km from
+ * @param limit - Maximum number of results (capped at 200 by the RPC)
+ * @returns Matches ordered by relevance, then distance
+ */
+export async function searchRestaurants(
+  query: string,
+  location?: { lat: number; lng: number } | null,
+  limit: number = 20
+): Promise<RestaurantSearchResult[]> {
+  if (query.trim().length < 2) return [];
+
+  const { data, error } = await supabase.rpc('search_restaurants', {
+    _query: query,
+    _lat: location?.lat,
+    _lng: location?.lng,
+    _limit: limit,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,18 @@
+// Sort order and filters for a restaurant's review list
+
+export type ReviewSortOption = 'helpful' | 'newest' | 'highest' | 'lowest';
+
+export const reviewSortOptions: { value: ReviewSortOption; label: string }[] = [
+  { value: 'helpful', label: 'Most helpful' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'highest', label: 'Highest rated' },
+  { value: 'lowest', label: 'Lowest rated' },
+];
+
+export interface ReviewFilters {
+  withPhotos: boolean;
+  // Exact star rating, or null for all ratings
+  rating: number | null;
+}
+
+export const DEFAULT_REVIEW_FILTERS: ReviewFilters = { withPhotos: false, rating: null };
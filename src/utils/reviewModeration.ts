@@ -0,0 +1,86 @@
+// Review reports and moderation (public.review_reports, public.moderate_review)
+// Moderation actions are applied by the moderate_review RPC, which also logs them
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type ReviewReportReason = Database["public"]["Enums"]["review_report_reason"];
+export type ReviewModerationAction = Database["public"]["Enums"]["review_moderation_action"];
+
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+export const reviewReportReasonLabels: Record<ReviewReportReason, string> = {
+  spam: 'Spam or advertising',
+  fake: 'Fake or not a real visit',
+  offensive: 'Offensive or abusive',
+  off_topic: 'Not about this restaurant',
+  other: 'Something else',
+};
+
+export const moderationActionLabels: Record<ReviewModerationAction, string> = {
+  dismiss: 'Dismissed reports',
+  hide: 'Hid review',
+  unhide: 'Restored review',
+  delete: 'Deleted review',
+};
+
+const REVIEW_IMAGES_BUCKET = 'restaurant-images';
+// Private; photos of held reviews wait here, at the path their URL names, until a moderator releases the review
+const HELD_REVIEW_IMAGES_BUCKET = 'held-review-images';
+
+// Path in restaurant-images: moderated/<user id>/<file> for photos /moderate-review stored,
+// just the file name for older ones
+const getReviewImagePath = (url: string): string | undefined =>
+  url.split(`/object/public/${REVIEW_IMAGES_BUCKET}/`)[1] ?? url.split('/').pop();
+
+/**
+ * Removes review image files from storage, whether they were published or still held
+ */
+export async function removeReviewImageFiles(urls: string[]): Promise<void> {
+  const paths = urls.map(getReviewImagePath).filter((path): path is string => !!path);
+  if (paths.length === 0) return;
+  await Promise.all([
+    supabase.storage.from(REVIEW_IMAGES_BUCKET).remove(paths),
+    supabase.storage.from(HELD_REVIEW_IMAGES_BUCKET).remove(paths),
+  ]);
+}
+
+/**
+ * Signed URLs for the photos among `urls` that are still held, keyed by their public URL,
+ * which serves nothing until the review is released. Only moderators and the author can sign them
+ */
+export async function getHeldReviewImageUrls(urls: string[]): Promise<Map<string, string>> {
+  const paths = new Map(urls.flatMap((url) => {
+    const path = getReviewImagePath(url);
+    return path ? [[path, url] as const] : [];
+  }));
+  if (paths.size === 0) return new Map();
+
+  const { data, error } = await supabase.storage.from(HELD_REVIEW_IMAGES_BUCKET).createSignedUrls([...paths.keys()], 60 * 60);
+  if (error) throw error;
+  // Photos that aren't held come back with an error of their own
+  return new Map(data.flatMap((entry) =>
+    !entry.error && entry.path && paths.has(entry.path) ? [[paths.get(entry.path)!, entry.signedUrl]] : []
+  ));
+}
+
+/**
+ * Moves a review's held photos to restaurant-images, where their URLs point; call it before
+ * unhiding the review. Photos that are already there are skipped, so a failed release can be retried
+ */
+export async function releaseHeldReviewImages(reviewId: string): Promise<void> {
+  const { data: images, error } = await supabase
+    .from('review_images')
+    .select('url')
+    .eq('review_id', reviewId);
+  if (error) throw error;
+
+  const held = await getHeldReviewImageUrls(images.map((image) => image.url));
+  for (const url of held.keys()) {
+    const path = getReviewImagePath(url)!;
+    const { error: moveError } = await supabase.storage
+      .from(HELD_REVIEW_IMAGES_BUCKET)
+      .move(path, path, { destinationBucket: REVIEW_IMAGES_BUCKET });
+    if (moveError) throw moveError;
+  }
+}
@@ -0,0 +1,51 @@
+// Optional per-dimension review ratings (reviews.food_rating, service_rating, value_rating, halal_rating)
+// Each is 1-5 or null when the reviewer skipped it; reviews.rating stays the required overall score
+
+export type SubRatingKey = 'food_rating' | 'service_rating' | 'value_rating' | 'halal_rating';
+
+export type SubRatings = Record<SubRatingKey, number | null>;
+
+export const subRatingOptions: { key: SubRatingKey; label: string; description: string }[] = [
+  { key: 'halal_rating', label: 'Halal confidence', description: 'How sure are you the food is halal?' },
+  { key: 'food_rating', label: 'Food', description: 'Taste and quality' },
+  { key: 'service_rating', label: 'Service', description: 'Staff, speed and cleanliness' },
+  { key: 'value_rating', label: 'Value', description: 'Worth the price' },
+];
+
+export const EMPTY_SUB_RATINGS: SubRatings = {
+  food_rating: null,
+  service_rating: null,
+  value_rating: null,
+  halal_rating: null,
+};
+
+export interface SubRatingSummary {
+  key: SubRatingKey;
+  label: string;
+  average: number;
+  count: number;
+}
+
+/**
+ * Average each dimension over the reviews that rated it
+ * Dimensions nobody rated are left out
+ */
+export function getSubRatingSummaries(reviews: Partial<SubRatings>[]): SubRatingSummary[] {
+  return subRatingOptions.flatMap(({ key, label }) => {
+    const values = reviews
+      .map((review) => review[key])
+      .filter((value): value is number => typeof value === 'number');
+    if (values.length === 0) return [];
+    return [{ key, label, average: values.reduce((sum, v) => sum + v, 0) / values.length, count: values.length }];
+  });
+}
+
+/**
+ * Count reviews per overall star rating, from 5 stars down to 1
+ */
+export function getRatingHistogram(reviews: { rating: number }[]): { stars: number; count: number }[] {
+  return [5, 4, 3, 2, 1].map((stars) => ({
+    stars,
+    count: reviews.filter((review) => review.rating === stars).length,
+  }));
+}
@@ -1,3 +1,12 @@
+import {
+  findHoursException,
+  getHoursOn,
+  parseOpeningHours,
+  type DayHours,
+  type TimeRange,
+} from "@/utils/openingHours";
+import { getForeignTimezoneLabel, getZonedNow } from "@/utils/timezone";
+
 /**
  * Convert 24-hour time format to 12-hour AM/PM format
  * @param time24 - Time in 24-hour format (e.g., "14:00" or "09:30")
@@ -50,128 +59,104 @@ export const formatTimeRange = (timeRange: string): string => {
 
 /**
  * Check if a restaurant is currently open based on opening hours
- * @param openingHours - Opening hours object from database
- * @returns { isOpen: boolean, nextChange: string | null }
+ * Days can have several ranges (split shifts) and ranges may run past midnight.
+ * Date exceptions (holidays, Ramadan hours) take precedence over the weekly schedule.
+ * Evaluated in the restaurant's timezone so travellers see the right status.
+ * @param openingHours - Opening hours from the database, in any stored shape
+ * @param timeZone - Restaurant's IANA timezone; the browser's zone when unknown
+ * @returns { isOpen: boolean, status: string }
+ */
+export const checkIfOpen = (
+  openingHours: unknown,
+  timeZone?: string | null
+): { isOpen: boolean; status: string } =>
+  getOpenStatusAt(openingHours, getZonedNow(timeZone), timeZone);
+
+/**
+ * Open status at any wall-clock instant in the restaurant's timezone
+ * @param openingHours - Opening hours from the database, in any stored shape
+ * @param at - Date whose local fields (getDay, getHours, ...) are the restaurant's date and time
+ * @param timeZone - Restaurant's IANA timezone, only used to label "Opens at" times
  */
-export const checkIfOpen = (openingHours: unknown): { isOpen: boolean; status: string } => {
-  if (!openingHours || typeof openingHours !== 'object') {
+export const getOpenStatusAt = (
+  openingHours: unknown,
+  at: Date,
+  timeZone?: string | null
+): { isOpen: boolean; status: string } => {
+  const hours = parseOpeningHours(openingHours);
+  if (!hours) {
     return { isOpen: false, status: 'Hours unknown' };
   }
 
-  const now = new Date();
-  const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  const dayNamesShort = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-  const todayIndex = now.getDay();
-  const currentDay = dayNames[todayIndex];
-  const currentDayShort = dayNamesShort[todayIndex];
+  const now = at;
   const currentTime = now.getHours() * 60 + now.getMinutes(); // Minutes since midnight
+  const getRangesForDay = (date: Date) => getHoursOn(hours, date).ranges.map(toMinuteRange);
 
-  const hoursObj = openingHours as Record<string, unknown>;
-  
-  // Get yesterday's data to check for overnight hours
-  const yesterdayIndex = todayIndex === 0 ? 6 : todayIndex - 1;
-  const yesterdayDay = dayNames[yesterdayIndex];
-  const yesterdayDayShort = dayNamesShort[yesterdayIndex];
-  const yesterdayData = hoursObj[yesterdayDay] || hoursObj[yesterdayDayShort];
-  
-  // First check if we're in yesterday's overnight hours
-  if (yesterdayData) {
-    const yesterdayTimes = getOpenCloseTimes(yesterdayData);
-    if (yesterdayTimes && yesterdayTimes.closeTime < yesterdayTimes.openTime) {
-      // This is an overnight operation (e.g., 11:00 - 04:00)
-      // Close time is in "tomorrow" (which is today)
-      if (currentTime < yesterdayTimes.closeTime) {
-        const closesIn = yesterdayTimes.closeTime - currentTime;
-        if (closesIn <= 60) {
-          return { isOpen: true, status: `Closes in ${closesIn} min` };
-        }
-        return { isOpen: true, status: 'Open now' };
-      }
+  const openStatus = (closesIn: number) => closesIn <= 60
+    ? { isOpen: true, status: `Closes in ${closesIn} min` }
+    : { isOpen: true, status: 'Open now' };
+
+  // First check if we're in yesterday's overnight hours (e.g., 18:00 - 02:00)
+  const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+  for (const range of getRangesForDay(yesterday)) {
+    if (range.closeTime < range.openTime && currentTime < range.closeTime) {
+      return openStatus(range.closeTime - currentTime);
     }
   }
-  
-  // Try to find today's hours
-  const dayData = hoursObj[currentDay] || hoursObj[currentDayShort];
-  
-  if (!dayData) {
-    return { isOpen: false, status: 'Closed today' };
-  }
 
-  const todayTimes = getOpenCloseTimes(dayData);
-  
-  if (!todayTimes) {
-    return { isOpen: false, status: 'Closed today' };
+  const todayRanges = getRangesForDay(now).sort((a, b) => a.openTime - b.openTime);
+
+  if (todayRanges.length === 0) {
+    const exception = findHoursException(hours, now);
+    return { isOpen: false, status: exception?.label ? `Closed for ${exception.label}` : 'Closed today' };
   }
-  
-  const { openTime, closeTime } = todayTimes;
-  
-  // Handle overnight hours (e.g., 11:00 - 04:00)
-  if (closeTime < openTime) {
-    // Restaurant closes after midnight
-    if (currentTime >= openTime) {
-      // We're after opening time, so we're open
-      return { isOpen: true, status: 'Open now' };
+
+  for (const { openTime, closeTime } of todayRanges) {
+    if (closeTime < openTime) {
+      // Closes after midnight
+      if (currentTime >= openTime) {
+        return openStatus(closeTime + 24 * 60 - currentTime);
+      }
+    } else if (currentTime >= openTime && currentTime < closeTime) {
+      return openStatus(closeTime - currentTime);
     }
-    // currentTime < openTime, so we're before today's opening
-    return { isOpen: false, status: `Opens at ${formatMinutesToTime(openTime)}` };
   }
-  
-  // Normal hours (close time is after open time)
-  if (currentTime >= openTime && currentTime < closeTime) {
-    const closesIn = closeTime - currentTime;
-    if (closesIn <= 60) {
-      return { isOpen: true, status: `Closes in ${closesIn} min` };
-    }
-    return { isOpen: true, status: 'Open now' };
-  } else if (currentTime < openTime) {
-    return { isOpen: false, status: `Opens at ${formatMinutesToTime(openTime)}` };
+
+  // Closed right now: between shifts, or before the first one
+  const next = todayRanges.find(range => range.openTime > currentTime);
+  if (next) {
+    const hadEarlierShift = todayRanges.some(range => range.openTime < currentTime);
+    // Label the zone when it isn't the viewer's, e.g. "Opens at 5:00 PM EST"
+    const zoneLabel = getForeignTimezoneLabel(timeZone);
+    return {
+      isOpen: false,
+      status: `${hadEarlierShift ? 'Reopens' : 'Opens'} at ${formatMinutesToTime(next.openTime)}${zoneLabel ? ` ${zoneLabel}` : ''}`,
+    };
   }
-  
+
   return { isOpen: false, status: 'Closed' };
 };
 
 /**
- * Extract open and close times from day data
+ * Format one day's hours for display, e.g. "11:00 AM - 2:30 PM, 5:00 PM - 10:00 PM"
  */
-const getOpenCloseTimes = (dayData: unknown): { openTime: number; closeTime: number } | null => {
-  // Handle string format: "10:00 AM - 11:00 PM" or "10:00 - 23:00"
-  if (typeof dayData === 'string') {
-    if (dayData.toLowerCase() === 'closed') {
-      return null;
-    }
-    
-    const times = dayData.split(/\s*[-–]\s*/);
-    if (times.length === 2) {
-      const openTime = parseTimeToMinutes(times[0].trim());
-      const closeTime = parseTimeToMinutes(times[1].trim());
-      
-      if (openTime !== null && closeTime !== null) {
-        return { openTime, closeTime };
-      }
-    }
-    return null;
-  }
+export const formatDayHours = (day: DayHours | null | undefined): string => {
+  if (!day?.isOpen || day.ranges.length === 0) return 'Closed';
 
-  // Handle object format: { isOpen: true, openTime: "10:00", closeTime: "23:00" }
-  if (typeof dayData === 'object' && dayData !== null) {
-    const dayObj = dayData as { isOpen?: boolean; openTime?: string; closeTime?: string };
-    
-    if (!dayObj.isOpen) {
-      return null;
-    }
-    
-    if (dayObj.openTime && dayObj.closeTime) {
-      const openTime = parseTimeToMinutes(dayObj.openTime);
-      const closeTime = parseTimeToMinutes(dayObj.closeTime);
-      
-      if (openTime !== null && closeTime !== null) {
-        return { openTime, closeTime };
-      }
-    }
-    return null;
-  }
+  return day.ranges
+    .map(range => `${formatTo12Hour(range.openTime)} - ${formatTo12Hour(range.closeTime)}`)
+    .join(', ');
+};
+
+// "HH:mm" range to minutes since midnight
+const toMinuteRange = ({ openTime, closeTime }: TimeRange) => ({
+  openTime: toMinutes(openTime),
+  closeTime: toMinutes(closeTime),
+});
 
-  return null;
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
 };
 
 /**
@@ -184,35 +169,3 @@ const formatMinutesToTime = (minutes: number): string => {
   const hours12 = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
   return `${hours12}:${mins.toString().padStart(2, '0')} ${period}`;
 };
-
-/**
- * Parse time string to minutes since midnight
- */
-const parseTimeToMinutes = (timeStr: string): number | null => {
-  if (!timeStr) return null;
-  
-  const cleanTime = timeStr.trim().toUpperCase();
-  
-  // Handle AM/PM format
-  const ampmMatch = cleanTime.match(/^(\d{1,2}):?(\d{2})?\s*(AM|PM)?$/i);
-  if (ampmMatch) {
-    let hours = parseInt(ampmMatch[1], 10);
-    const minutes = ampmMatch[2] ? parseInt(ampmMatch[2], 10) : 0;
-    const period = ampmMatch[3]?.toUpperCase();
-    
-    if (period === 'PM' && hours !== 12) hours += 12;
-    if (period === 'AM' && hours === 12) hours = 0;
-    
-    return hours * 60 + minutes;
-  }
-  
-  // Handle 24-hour format
-  const match24 = cleanTime.match(/^(\d{1,2}):(\d{2})$/);
-  if (match24) {
-    const hours = parseInt(match24[1], 10);
-    const minutes = parseInt(match24[2], 10);
-    return hours * 60 + minutes;
-  }
-  
-  return null;
-};
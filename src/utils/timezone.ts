@@ -0,0 +1,84 @@
+// Restaurant timezone helpers
+// Opening hours are wall-clock times in the restaurant's zone (restaurants.timezone)
+
+const MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || "";
+
+interface GoogleTimeZoneResponse {
+  status: string;
+  timeZoneId?: string;
+}
+
+/**
+ * Look up the IANA timezone for coordinates using the Google Time Zone API
+ * Returns null when the key is missing or the lookup fails, so callers can save without it
+ */
+export async function lookupTimezone(lat: number, lng: number): Promise<string | null> {
+  if (!MAPS_API_KEY) return null;
+
+  try {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const response = await fetch(
+      `https://maps.googleapis.com/maps/api/timezone/json?location=${lat},${lng}&timestamp=${timestamp}&key=${MAPS_API_KEY}`
+    );
+
+    if (!response.ok) {
+      throw new Error('Timezone request failed');
+    }
+
+    const data: GoogleTimeZoneResponse = await response.json();
+    return data.status === 'OK' && data.timeZoneId && isValidTimezone(data.timeZoneId)
+      ? data.timeZoneId
+      : null;
+  } catch (error) {
+    console.error('Timezone lookup error:', error);
+    return null;
+  }
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Current wall-clock time in a timezone, as a Date whose local fields
+ * (getDay, getHours, ...) read as that zone's date and time
+ * Falls back to the browser's local time when the zone is missing or invalid
+ */
+export function getZonedNow(timeZone?: string | null, now: Date = new Date()): Date {
+  if (!timeZone || !isValidTimezone(timeZone)) return now;
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  return new Date(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+}
+
+/**
+ * Short zone label such as "CST" or "GMT+3" when the zone's offset differs from the viewer's,
+ * otherwise null (no need to label times already in the viewer's zone)
+ */
+export function getForeignTimezoneLabel(timeZone?: string | null, now: Date = new Date()): string | null {
+  if (!timeZone || !isValidTimezone(timeZone)) return null;
+  const localWallClock = new Date(now);
+  localWallClock.setSeconds(0, 0);
+  if (getZonedNow(timeZone, now).getTime() === localWallClock.getTime()) return null;
+
+  return new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(now)
+    .find(part => part.type === 'timeZoneName')?.value ?? null;
+}
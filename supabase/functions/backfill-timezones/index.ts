@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.8";
+
+// Fills restaurants.timezone for rows that don't have one yet: restaurants created
+// before timezones were stored, or whose lookup failed when they were saved.
+// Called by the 'backfill-restaurant-timezones' pg_cron job, a batch at a time.
+
+const BATCH_SIZE = 50;
+
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const mapsApiKey = Deno.env.get("GOOGLE_MAPS_API_KEY");
+
+const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+const isValidTimezone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Google Time Zone API; null when the lookup fails
+const lookupTimezone = async (lat: number, lng: number): Promise<string | null> => {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const response = await fetch(
+    `https://maps.googleapis.com/maps/api/timezone/json?location=${lat},${lng}&timestamp=${timestamp}&key=${mapsApiKey}`
+  );
+  if (!response.ok) return null;
+
+  const data: { status: string; timeZoneId?: string } = await response.json();
+  return data.status === "OK" && data.timeZoneId && isValidTimezone(data.timeZoneId)
+    ? data.timeZoneId
+    : null;
+};
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+
+  // Only the scheduled job may spend the Maps quota
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    if (!mapsApiKey) {
+      throw new Error("GOOGLE_MAPS_API_KEY is not configured");
+    }
+
+    const { data: restaurants, error: selectError } = await supabase
+      .from("restaurants")
+      .select("id, lat, lng")
+      .is("timezone", null)
+      .order("created_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (selectError) throw selectError;
+
+    let filled = 0;
+    const failed: string[] = [];
+    for (const restaurant of restaurants ?? []) {
+      const timezone = await lookupTimezone(restaurant.lat, restaurant.lng);
+      if (!timezone) {
+        failed.push(restaurant.id);
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from("restaurants")
+        .update({ timezone })
+        .eq("id", restaurant.id);
+
+      if (updateError) {
+        console.error(`Error saving the timezone of restaurant ${restaurant.id}:`, updateError);
+        failed.push(restaurant.id);
+      } else {
+        filled++;
+      }
+    }
+
+    if (failed.length > 0) {
+      console.error("Could not fill timezones for restaurants:", failed);
+    }
+
+    return new Response(JSON.stringify({ filled, failed }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+});
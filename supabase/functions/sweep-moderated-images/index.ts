@@ -0,0 +1,58 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.8";
+
+// Removes photos /moderate-review uploaded that never got a review_images or
+// restaurant_images row, e.g. because the review wasn't posted after all.
+// Called by the 'sweep-moderated-images' pg_cron job, a batch at a time.
+
+const BATCH_SIZE = 500;
+
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+
+  // Only the scheduled job may delete files
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const { data: orphans, error: selectError } = await supabase
+      .rpc("orphaned_moderated_images", { _limit: BATCH_SIZE });
+
+    if (selectError) throw selectError;
+
+    // Approved photos are in restaurant-images, held ones in held-review-images
+    const byBucket = new Map<string, string[]>();
+    for (const { bucket_id, name } of orphans ?? []) {
+      byBucket.set(bucket_id, [...(byBucket.get(bucket_id) ?? []), name]);
+    }
+
+    let removed = 0;
+    const failed: string[] = [];
+    for (const [bucket, names] of byBucket) {
+      const { data, error: removeError } = await supabase.storage.from(bucket).remove(names);
+
+      if (removeError) {
+        console.error(`Error removing unused images from ${bucket}:`, removeError);
+        failed.push(...names.map((name) => `${bucket}/${name}`));
+      } else {
+        removed += data.length;
+      }
+    }
+
+    return new Response(JSON.stringify({ removed, failed }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+});
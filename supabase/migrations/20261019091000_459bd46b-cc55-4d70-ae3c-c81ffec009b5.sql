@@ -0,0 +1,101 @@
+-- Viewport search for the Explore "Search this area" button.
+-- Same filters and result shape as search_restaurants_nearby, but bounded by the
+-- visible map rectangle instead of a radius. Distance is still measured from
+-- _lat/_lng (the map centre) so results keep a stable nearest-first order.
+
+CREATE OR REPLACE FUNCTION public.search_restaurants_in_bounds(
+  _north DOUBLE PRECISION,
+  _south DOUBLE PRECISION,
+  _east DOUBLE PRECISION,
+  _west DOUBLE PRECISION,
+  _lat DOUBLE PRECISION,
+  _lng DOUBLE PRECISION,
+  _price_ranges public.price_range[] DEFAULT NULL,
+  _cuisine_types TEXT[] DEFAULT NULL,
+  _halal_statuses public.halal_status[] DEFAULT NULL,
+  _cursor_distance DOUBLE PRECISION DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _page_size INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  address TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  price_range public.price_range,
+  cuisine_type TEXT,
+  halal_status public.halal_status,
+  is_sponsored BOOLEAN,
+  opening_hours JSONB,
+  distance_km DOUBLE PRECISION,
+  primary_image TEXT,
+  avg_rating DOUBLE PRECISION,
+  review_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH candidates AS (
+    SELECT
+      r.*,
+      -- Haversine distance in km
+      6371 * 2 * asin(sqrt(
+        power(sin(radians(r.lat - _lat) / 2), 2) +
+        cos(radians(_lat)) * cos(radians(r.lat)) *
+        power(sin(radians(r.lng - _lng) / 2), 2)
+      )) AS distance_km
+    FROM public.restaurants r
+    WHERE r.lat BETWEEN _south AND _north
+      AND (
+        -- A viewport crossing the antimeridian has west > east
+        (_west <= _east AND r.lng BETWEEN _west AND _east)
+        OR (_west > _east AND (r.lng >= _west OR r.lng <= _east))
+      )
+      AND (_price_ranges IS NULL OR cardinality(_price_ranges) = 0 OR r.price_range = ANY(_price_ranges))
+      AND (_cuisine_types IS NULL OR cardinality(_cuisine_types) = 0 OR r.cuisine_type = ANY(_cuisine_types))
+      AND (_halal_statuses IS NULL OR cardinality(_halal_statuses) = 0 OR r.halal_status = ANY(_halal_statuses))
+  )
+  SELECT
+    c.id,
+    c.name,
+    c.description,
+    c.address,
+    c.lat,
+    c.lng,
+    c.price_range,
+    c.cuisine_type,
+    c.halal_status,
+    c.is_sponsored,
+    c.opening_hours,
+    c.distance_km,
+    img.url AS primary_image,
+    COALESCE(stats.avg_rating, 0) AS avg_rating,
+    COALESCE(stats.review_count, 0) AS review_count
+  FROM candidates c
+  LEFT JOIN LATERAL (
+    SELECT ri.url
+    FROM public.restaurant_images ri
+    WHERE ri.restaurant_id = c.id
+    ORDER BY ri.is_primary DESC, ri.created_at ASC
+    LIMIT 1
+  ) img ON true
+  LEFT JOIN LATERAL (
+    SELECT avg(rv.rating)::double precision AS avg_rating, count(*) AS review_count
+    FROM public.reviews rv
+    WHERE rv.restaurant_id = c.id
+  ) stats ON true
+  WHERE _cursor_distance IS NULL
+    OR (c.distance_km, c.id) > (_cursor_distance, _cursor_id)
+  ORDER BY c.distance_km ASC, c.id ASC
+  LIMIT least(greatest(_page_size, 1), 200)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_restaurants_in_bounds(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, DOUBLE PRECISION,
+  public.price_range[], TEXT[], public.halal_status[],
+  DOUBLE PRECISION, UUID, INTEGER
+) TO anon, authenticated;
@@ -0,0 +1,112 @@
+-- Ranked, typo-tolerant restaurant search.
+-- Full-text search (prefix matching on every term) combined with pg_trgm
+-- similarity so misspelled names still match. Returns highlighted fragments
+-- wrapped in <mark></mark> and the distance when a location is supplied.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Weighted search document: name > cuisine > address > description
+CREATE INDEX IF NOT EXISTS idx_restaurants_search_document ON public.restaurants USING GIN ((
+  setweight(to_tsvector('simple'::regconfig, coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('simple'::regconfig, coalesce(cuisine_type, '')), 'B') ||
+  setweight(to_tsvector('simple'::regconfig, coalesce(address, '')), 'C') ||
+  setweight(to_tsvector('simple'::regconfig, coalesce(description, '')), 'D')
+));
+
+CREATE INDEX IF NOT EXISTS idx_restaurants_name_trgm
+  ON public.restaurants USING GIN (name extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_restaurants_cuisine_trgm
+  ON public.restaurants USING GIN (cuisine_type extensions.gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.search_restaurants(
+  _query TEXT,
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  cuisine_type TEXT,
+  address TEXT,
+  halal_status public.halal_status,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  rank REAL,
+  name_highlight TEXT,
+  address_highlight TEXT,
+  distance_km DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH input AS (
+    SELECT lower(trim(coalesce(_query, ''))) AS raw
+  ),
+  query AS (
+    -- Build a prefix tsquery from alphanumeric terms only, so user input can't break the syntax
+    SELECT
+      input.raw,
+      (
+        SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+        FROM regexp_split_to_table(input.raw, '[^[:alnum:]]+') AS term
+        WHERE term <> ''
+      ) AS ts
+    FROM input
+    WHERE length(input.raw) >= 2
+  ),
+  matches AS (
+    SELECT
+      r.*,
+      q.ts,
+      (
+        setweight(to_tsvector('simple'::regconfig, coalesce(r.name, '')), 'A') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(r.cuisine_type, '')), 'B') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(r.address, '')), 'C') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(r.description, '')), 'D')
+      ) AS document,
+      greatest(similarity(r.name, q.raw), word_similarity(q.raw, r.name)) AS name_similarity,
+      similarity(r.cuisine_type, q.raw) AS cuisine_similarity
+    FROM public.restaurants r
+    CROSS JOIN query q
+    WHERE (
+        setweight(to_tsvector('simple'::regconfig, coalesce(r.name, '')), 'A') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(r.cuisine_type, '')), 'B') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(r.address, '')), 'C') ||
+        setweight(to_tsvector('simple'::regconfig, coalesce(r.description, '')), 'D')
+      ) @@ q.ts
+      OR r.name % q.raw
+      OR q.raw <% r.name
+      OR r.cuisine_type % q.raw
+  )
+  SELECT
+    m.id,
+    m.name,
+    m.cuisine_type,
+    m.address,
+    m.halal_status,
+    m.lat,
+    m.lng,
+    (coalesce(ts_rank_cd(m.document, m.ts), 0) * 2 + m.name_similarity + m.cuisine_similarity * 0.5)::real AS rank,
+    CASE WHEN m.ts IS NULL THEN m.name
+      ELSE ts_headline('simple', m.name, m.ts, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+    END AS name_highlight,
+    CASE WHEN m.ts IS NULL THEN m.address
+      ELSE ts_headline('simple', m.address, m.ts, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+    END AS address_highlight,
+    CASE WHEN _lat IS NULL OR _lng IS NULL THEN NULL
+      ELSE 6371 * 2 * asin(sqrt(
+        power(sin(radians(m.lat - _lat) / 2), 2) +
+        cos(radians(_lat)) * cos(radians(m.lat)) *
+        power(sin(radians(m.lng - _lng) / 2), 2)
+      ))
+    END AS distance_km
+  FROM matches m
+  ORDER BY rank DESC, distance_km ASC NULLS LAST, m.name ASC
+  LIMIT least(greatest(_limit, 1), 200)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_restaurants(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER)
+  TO anon, authenticated;
@@ -0,0 +1,156 @@
+-- Sortable Explore search.
+-- Replaces search_restaurants_nearby and search_restaurants_in_bounds with a
+-- single explore_restaurants RPC that takes either a radius or a viewport,
+-- a user-selected sort order and offset paging (keyset paging only worked for
+-- the distance order).
+-- "rating" sorts by a Bayesian average so places with a handful of 5-star
+-- reviews don't outrank well-established ones.
+
+DROP FUNCTION IF EXISTS public.search_restaurants_nearby(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  public.price_range[], TEXT[], public.halal_status[],
+  DOUBLE PRECISION, UUID, INTEGER
+);
+
+DROP FUNCTION IF EXISTS public.search_restaurants_in_bounds(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, DOUBLE PRECISION,
+  public.price_range[], TEXT[], public.halal_status[],
+  DOUBLE PRECISION, UUID, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.explore_restaurants(
+  _lat DOUBLE PRECISION,
+  _lng DOUBLE PRECISION,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _north DOUBLE PRECISION DEFAULT NULL,
+  _south DOUBLE PRECISION DEFAULT NULL,
+  _east DOUBLE PRECISION DEFAULT NULL,
+  _west DOUBLE PRECISION DEFAULT NULL,
+  _price_ranges public.price_range[] DEFAULT NULL,
+  _cuisine_types TEXT[] DEFAULT NULL,
+  _halal_statuses public.halal_status[] DEFAULT NULL,
+  _sort TEXT DEFAULT 'nearest',
+  _offset INTEGER DEFAULT 0,
+  _page_size INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  address TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  price_range public.price_range,
+  cuisine_type TEXT,
+  halal_status public.halal_status,
+  is_sponsored BOOLEAN,
+  opening_hours JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  distance_km DOUBLE PRECISION,
+  primary_image TEXT,
+  avg_rating DOUBLE PRECISION,
+  review_count BIGINT,
+  rating_score DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH prior AS (
+    -- Bayesian prior: global mean rating weighted as 5 reviews
+    SELECT coalesce(avg(rating), 3)::double precision AS mean, 5 AS weight
+    FROM public.reviews
+  ),
+  candidates AS (
+    SELECT
+      r.*,
+      -- Haversine distance in km
+      6371 * 2 * asin(sqrt(
+        power(sin(radians(r.lat - _lat) / 2), 2) +
+        cos(radians(_lat)) * cos(radians(r.lat)) *
+        power(sin(radians(r.lng - _lng) / 2), 2)
+      )) AS distance_km
+    FROM public.restaurants r
+    WHERE (
+        -- Radius search: bounding box prefilter so idx_restaurants_location can be used
+        _radius_km IS NOT NULL
+        AND r.lat BETWEEN _lat - _radius_km / 111.045 AND _lat + _radius_km / 111.045
+        AND r.lng BETWEEN _lng - _radius_km / (111.045 * greatest(cos(radians(_lat)), 0.00001))
+                      AND _lng + _radius_km / (111.045 * greatest(cos(radians(_lat)), 0.00001))
+      ) OR (
+        -- Viewport search; a viewport crossing the antimeridian has west > east
+        _radius_km IS NULL
+        AND r.lat BETWEEN _south AND _north
+        AND (
+          (_west <= _east AND r.lng BETWEEN _west AND _east)
+          OR (_west > _east AND (r.lng >= _west OR r.lng <= _east))
+        )
+      )
+  ),
+  filtered AS (
+    SELECT
+      c.*,
+      img.url AS primary_image,
+      COALESCE(stats.avg_rating, 0) AS avg_rating,
+      COALESCE(stats.review_count, 0) AS review_count,
+      (prior.mean * prior.weight + COALESCE(stats.rating_sum, 0)) / (prior.weight + COALESCE(stats.review_count, 0)) AS rating_score
+    FROM candidates c
+    CROSS JOIN prior
+    LEFT JOIN LATERAL (
+      SELECT ri.url
+      FROM public.restaurant_images ri
+      WHERE ri.restaurant_id = c.id
+      ORDER BY ri.is_primary DESC, ri.created_at ASC
+      LIMIT 1
+    ) img ON true
+    LEFT JOIN LATERAL (
+      SELECT
+        avg(rv.rating)::double precision AS avg_rating,
+        sum(rv.rating)::double precision AS rating_sum,
+        count(*) AS review_count
+      FROM public.reviews rv
+      WHERE rv.restaurant_id = c.id
+    ) stats ON true
+    WHERE (_radius_km IS NULL OR c.distance_km <= _radius_km)
+      AND (_price_ranges IS NULL OR cardinality(_price_ranges) = 0 OR c.price_range = ANY(_price_ranges))
+      AND (_cuisine_types IS NULL OR cardinality(_cuisine_types) = 0 OR c.cuisine_type = ANY(_cuisine_types))
+      AND (_halal_statuses IS NULL OR cardinality(_halal_statuses) = 0 OR c.halal_status = ANY(_halal_statuses))
+  )
+  SELECT
+    f.id,
+    f.name,
+    f.description,
+    f.address,
+    f.lat,
+    f.lng,
+    f.price_range,
+    f.cuisine_type,
+    f.halal_status,
+    f.is_sponsored,
+    f.opening_hours,
+    f.created_at,
+    f.distance_km,
+    f.primary_image,
+    f.avg_rating,
+    f.review_count,
+    f.rating_score
+  FROM filtered f
+  ORDER BY
+    CASE WHEN _sort = 'rating' THEN f.rating_score END DESC NULLS LAST,
+    CASE WHEN _sort = 'reviews' THEN f.review_count END DESC NULLS LAST,
+    CASE WHEN _sort = 'newest' THEN f.created_at END DESC NULLS LAST,
+    CASE WHEN _sort = 'price_asc' THEN f.price_range END ASC NULLS LAST,
+    CASE WHEN _sort = 'price_desc' THEN f.price_range END DESC NULLS LAST,
+    f.distance_km ASC,
+    f.id ASC
+  OFFSET greatest(_offset, 0)
+  LIMIT least(greatest(_page_size, 1), 200)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.explore_restaurants(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  public.price_range[], TEXT[], public.halal_status[],
+  TEXT, INTEGER, INTEGER
+) TO anon, authenticated;
@@ -0,0 +1,70 @@
+-- Halal certification records
+-- A restaurant can hold several certificates (e.g. one per supplier or renewal).
+-- Documents live in the public halal-certificates bucket; only admins manage them.
+
+CREATE TABLE public.halal_certifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID REFERENCES public.restaurants(id) ON DELETE CASCADE NOT NULL,
+  certifying_body TEXT NOT NULL,
+  certificate_number TEXT,
+  issued_on DATE,
+  expires_on DATE,
+  document_url TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT halal_certifications_dates_check CHECK (expires_on IS NULL OR issued_on IS NULL OR expires_on >= issued_on)
+);
+
+CREATE INDEX idx_halal_certifications_restaurant ON public.halal_certifications(restaurant_id, expires_on DESC);
+
+ALTER TABLE public.halal_certifications ENABLE ROW LEVEL SECURITY;
+
+-- Create trigger for halal_certifications
+CREATE TRIGGER update_halal_certifications_updated_at
+  BEFORE UPDATE ON public.halal_certifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for halal_certifications
+CREATE POLICY "Halal certifications are viewable by everyone"
+  ON public.halal_certifications FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert halal certifications"
+  ON public.halal_certifications FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update halal certifications"
+  ON public.halal_certifications FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete halal certifications"
+  ON public.halal_certifications FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Create storage bucket for certificate documents (images and PDFs)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'halal-certificates',
+  'halal-certificates',
+  true,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Policy for public read access to certificate documents
+CREATE POLICY "Halal certificates are publicly accessible"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'halal-certificates');
+
+-- Policy for admins to upload certificate documents
+CREATE POLICY "Admins can upload halal certificates"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'halal-certificates' AND public.has_role(auth.uid(), 'admin'));
+
+-- Policy for admins to delete certificate documents
+CREATE POLICY "Admins can delete halal certificates"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'halal-certificates' AND public.has_role(auth.uid(), 'admin'));
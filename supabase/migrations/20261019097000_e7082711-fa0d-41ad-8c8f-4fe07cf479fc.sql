@@ -0,0 +1,170 @@
+-- Restaurant timezones
+-- Opening hours are wall-clock times in the restaurant's own zone, so open/closed
+-- status must be evaluated there rather than in the viewer's browser zone.
+-- The IANA zone is looked up from lat/lng when a restaurant is created or moved;
+-- existing rows are filled in from the admin dashboard (no zone data in Postgres).
+
+-- IANA timezone name, e.g. 'America/Chicago'; NULL until looked up
+ALTER TABLE public.restaurants ADD COLUMN timezone TEXT;
+
+-- explore_restaurants returns the zone so cards and the open-now filter can use it
+DROP FUNCTION IF EXISTS public.explore_restaurants(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  public.price_range[], TEXT[], public.halal_status[], TEXT[],
+  TEXT, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.explore_restaurants(
+  _lat DOUBLE PRECISION,
+  _lng DOUBLE PRECISION,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _north DOUBLE PRECISION DEFAULT NULL,
+  _south DOUBLE PRECISION DEFAULT NULL,
+  _east DOUBLE PRECISION DEFAULT NULL,
+  _west DOUBLE PRECISION DEFAULT NULL,
+  _price_ranges public.price_range[] DEFAULT NULL,
+  _cuisine_types TEXT[] DEFAULT NULL,
+  _halal_statuses public.halal_status[] DEFAULT NULL,
+  _halal_attributes TEXT[] DEFAULT NULL,
+  _sort TEXT DEFAULT 'nearest',
+  _offset INTEGER DEFAULT 0,
+  _page_size INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  address TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  price_range public.price_range,
+  cuisine_type TEXT,
+  halal_status public.halal_status,
+  is_sponsored BOOLEAN,
+  opening_hours JSONB,
+  timezone TEXT,
+  halal_attributes JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  distance_km DOUBLE PRECISION,
+  primary_image TEXT,
+  avg_rating DOUBLE PRECISION,
+  review_count BIGINT,
+  rating_score DOUBLE PRECISION,
+  halal_confidence DOUBLE PRECISION,
+  last_confirmed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH prior AS (
+    -- Bayesian prior: global mean rating weighted as 5 reviews
+    SELECT coalesce(avg(rating), 3)::double precision AS mean, 5 AS weight
+    FROM public.reviews
+  ),
+  candidates AS (
+    SELECT
+      r.*,
+      -- Haversine distance in km
+      6371 * 2 * asin(sqrt(
+        power(sin(radians(r.lat - _lat) / 2), 2) +
+        cos(radians(_lat)) * cos(radians(r.lat)) *
+        power(sin(radians(r.lng - _lng) / 2), 2)
+      )) AS distance_km
+    FROM public.restaurants r
+    WHERE (
+        -- Radius search: bounding box prefilter so idx_restaurants_location can be used
+        _radius_km IS NOT NULL
+        AND r.lat BETWEEN _lat - _radius_km / 111.045 AND _lat + _radius_km / 111.045
+        AND r.lng BETWEEN _lng - _radius_km / (111.045 * greatest(cos(radians(_lat)), 0.00001))
+                      AND _lng + _radius_km / (111.045 * greatest(cos(radians(_lat)), 0.00001))
+      ) OR (
+        -- Viewport search; a viewport crossing the antimeridian has west > east
+        _radius_km IS NULL
+        AND r.lat BETWEEN _south AND _north
+        AND (
+          (_west <= _east AND r.lng BETWEEN _west AND _east)
+          OR (_west > _east AND (r.lng >= _west OR r.lng <= _east))
+        )
+      )
+  ),
+  filtered AS (
+    SELECT
+      c.*,
+      img.url AS primary_image,
+      COALESCE(stats.avg_rating, 0) AS avg_rating,
+      COALESCE(stats.review_count, 0) AS review_count,
+      (prior.mean * prior.weight + COALESCE(stats.rating_sum, 0)) / (prior.weight + COALESCE(stats.review_count, 0)) AS rating_score,
+      conf.confidence AS halal_confidence,
+      conf.last_confirmed_at
+    FROM candidates c
+    CROSS JOIN prior
+    LEFT JOIN public.restaurant_halal_confidence conf ON conf.restaurant_id = c.id
+    LEFT JOIN LATERAL (
+      SELECT ri.url
+      FROM public.restaurant_images ri
+      WHERE ri.restaurant_id = c.id
+      ORDER BY ri.is_primary DESC, ri.created_at ASC
+      LIMIT 1
+    ) img ON true
+    LEFT JOIN LATERAL (
+      SELECT
+        avg(rv.rating)::double precision AS avg_rating,
+        sum(rv.rating)::double precision AS rating_sum,
+        count(*) AS review_count
+      FROM public.reviews rv
+      WHERE rv.restaurant_id = c.id
+    ) stats ON true
+    WHERE (_radius_km IS NULL OR c.distance_km <= _radius_km)
+      AND (_price_ranges IS NULL OR cardinality(_price_ranges) = 0 OR c.price_range = ANY(_price_ranges))
+      AND (_cuisine_types IS NULL OR cardinality(_cuisine_types) = 0 OR c.cuisine_type = ANY(_cuisine_types))
+      AND (_halal_statuses IS NULL OR cardinality(_halal_statuses) = 0 OR c.halal_status = ANY(_halal_statuses))
+      -- Each requested attribute must be explicitly known; unknown never matches
+      AND ('zabiha' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"slaughter_method": "zabiha"}')
+      AND ('no_alcohol' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"alcohol_served": false}')
+      AND ('no_pork' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"pork_on_premises": false}')
+      AND ('separate_prep' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"separate_prep": true}')
+      AND ('certified_supplier' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"certified_supplier": true}')
+  )
+  SELECT
+    f.id,
+    f.name,
+    f.description,
+    f.address,
+    f.lat,
+    f.lng,
+    f.price_range,
+    f.cuisine_type,
+    f.halal_status,
+    f.is_sponsored,
+    f.opening_hours,
+    f.timezone,
+    f.halal_attributes,
+    f.created_at,
+    f.distance_km,
+    f.primary_image,
+    f.avg_rating,
+    f.review_count,
+    f.rating_score,
+    f.halal_confidence,
+    f.last_confirmed_at
+  FROM filtered f
+  ORDER BY
+    CASE WHEN _sort = 'rating' THEN f.rating_score END DESC NULLS LAST,
+    CASE WHEN _sort = 'reviews' THEN f.review_count END DESC NULLS LAST,
+    CASE WHEN _sort = 'newest' THEN f.created_at END DESC NULLS LAST,
+    CASE WHEN _sort = 'price_asc' THEN f.price_range END ASC NULLS LAST,
+    CASE WHEN _sort = 'price_desc' THEN f.price_range END DESC NULLS LAST,
+    f.distance_km ASC,
+    f.id ASC
+  OFFSET greatest(_offset, 0)
+  LIMIT least(greatest(_page_size, 1), 200)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.explore_restaurants(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  public.price_range[], TEXT[], public.halal_status[], TEXT[],
+  TEXT, INTEGER, INTEGER
+) TO anon, authenticated;
@@ -0,0 +1,336 @@
+-- Normalize opening hours to the canonical shape read and written by src/utils/openingHours.ts:
+--   { "monday": { "isOpen": true, "ranges": [{ "openTime": "11:00", "closeTime": "22:00" }] }, ...,
+--     "exceptions": [{ "label": "Eid", "startDate": "2027-03-20", "endDate": "2027-03-20", "isOpen": false, "ranges": [] }] }
+-- Older rows hold plain text days ("10:00 AM - 11:00 PM", Google's "11:00 AM – 2:30 PM, 5:00 – 10:00 PM"),
+-- single { openTime, closeTime } objects, short day keys ("mon") or the whole value as a JSON string.
+-- Covers restaurants.opening_hours and restaurant_requests.submission_data.opening_hours.
+-- Rows that can't be fully read are left untouched and listed in opening_hours_migration_issues
+-- so an admin can fix them by hand. The parsing functions only live for this migration.
+
+CREATE TABLE public.opening_hours_migration_issues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_table TEXT NOT NULL CHECK (source_table IN ('restaurants', 'restaurant_requests')),
+  source_id UUID NOT NULL,
+  opening_hours JSONB,
+  issues TEXT[] NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.opening_hours_migration_issues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view opening hours migration issues"
+  ON public.opening_hours_migration_issues FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete opening hours migration issues"
+  ON public.opening_hours_migration_issues FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- One time of day as 'HH:MM': '21:30', '9:30 PM', '9pm', '24:00' (midnight)
+-- _fallback_period is the AM/PM ('A' or 'P') to assume for 12-hour times without one
+CREATE FUNCTION public.parse_hours_time(_text TEXT, _fallback_period TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  parts TEXT[];
+  hours INTEGER;
+  minutes INTEGER;
+  meridiem TEXT;
+BEGIN
+  parts := regexp_match(
+    btrim(translate(_text, E'\u202F\u00A0', '  ')),
+    '^(\d{1,2})(?:[:.](\d{2}))?\s*([AaPp])?\.?\s*(?:[Mm]\.?)?$'
+  );
+  IF parts IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  hours := parts[1]::INTEGER;
+  minutes := COALESCE(parts[2]::INTEGER, 0);
+  -- A 24-hour open time ('17:00 – 10:00 PM') keeps its own reading
+  meridiem := upper(COALESCE(parts[3], CASE WHEN hours <= 12 THEN _fallback_period END));
+
+  IF (parts[2] IS NULL AND meridiem IS NULL) OR minutes > 59 THEN
+    RETURN NULL;
+  END IF;
+
+  IF meridiem IS NOT NULL THEN
+    IF hours < 1 OR hours > 12 THEN
+      RETURN NULL;
+    END IF;
+    IF meridiem = 'P' AND hours <> 12 THEN
+      hours := hours + 12;
+    ELSIF meridiem = 'A' AND hours = 12 THEN
+      hours := 0;
+    END IF;
+  ELSIF hours = 24 AND minutes = 0 THEN
+    hours := 0;
+  ELSIF hours > 23 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN lpad(hours::TEXT, 2, '0') || ':' || lpad(minutes::TEXT, 2, '0');
+END;
+$$;
+
+-- One day's hours text, e.g. 'Closed' or '11:00 AM – 2:30 PM, 5:00 – 10:00 PM'
+-- Google drops AM/PM on an open time that shares the close time's period
+-- NULL when any part can't be read
+CREATE FUNCTION public.parse_hours_day_text(_text TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  day_text TEXT := lower(btrim(translate(_text, E'\u202F\u00A0\t\r', '    '), E' \n'));
+  part TEXT;
+  times TEXT[];
+  open_time TEXT;
+  close_time TEXT;
+  ranges JSONB := '[]'::jsonb;
+BEGIN
+  IF day_text = '' THEN
+    RETURN NULL;
+  ELSIF day_text = 'closed' THEN
+    RETURN '{"isOpen": false, "ranges": []}'::jsonb;
+  ELSIF day_text IN ('open 24 hours', '24 hours', '24/7') THEN
+    RETURN '{"isOpen": true, "ranges": [{"openTime": "00:00", "closeTime": "23:59"}]}'::jsonb;
+  END IF;
+
+  FOREACH part IN ARRAY regexp_split_to_array(day_text, '\s*[,;\n]\s*') LOOP
+    CONTINUE WHEN part = '';
+
+    times := regexp_split_to_array(part, '\s*(?:[-–—]|\mto\M)\s*');
+    IF array_length(times, 1) <> 2 THEN
+      RETURN NULL;
+    END IF;
+
+    close_time := public.parse_hours_time(times[2]);
+    open_time := public.parse_hours_time(times[1], substring(times[2] FROM '([AaPp])\.?\s*[Mm]\.?\s*$'));
+    IF open_time IS NULL OR close_time IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    ranges := ranges || jsonb_build_array(jsonb_build_object('openTime', open_time, 'closeTime', close_time));
+  END LOOP;
+
+  IF jsonb_array_length(ranges) = 0 THEN
+    RETURN NULL;
+  END IF;
+  RETURN jsonb_build_object('isOpen', true, 'ranges', ranges);
+END;
+$$;
+
+-- One stored day: text, { isOpen, ranges } or the older { isOpen, openTime, closeTime }
+-- NULL when the day can't be read
+CREATE FUNCTION public.parse_hours_day(_day JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  raw_ranges JSONB;
+  is_open BOOLEAN;
+  item JSONB;
+  open_time TEXT;
+  close_time TEXT;
+  ranges JSONB := '[]'::jsonb;
+BEGIN
+  IF jsonb_typeof(_day) = 'string' THEN
+    RETURN public.parse_hours_day_text(_day #>> '{}');
+  ELSIF jsonb_typeof(_day) IS DISTINCT FROM 'object' THEN
+    RETURN NULL;
+  END IF;
+
+  IF jsonb_typeof(_day -> 'ranges') = 'array' THEN
+    raw_ranges := _day -> 'ranges';
+  ELSIF _day ? 'openTime' OR _day ? 'closeTime' THEN
+    raw_ranges := jsonb_build_array(jsonb_build_object('openTime', _day -> 'openTime', 'closeTime', _day -> 'closeTime'));
+  ELSE
+    raw_ranges := '[]'::jsonb;
+  END IF;
+
+  -- Days saved without a flag are open when they list times
+  IF jsonb_typeof(_day -> 'isOpen') = 'boolean' THEN
+    is_open := (_day ->> 'isOpen')::BOOLEAN;
+  ELSE
+    is_open := jsonb_array_length(raw_ranges) > 0;
+  END IF;
+
+  IF NOT is_open THEN
+    RETURN '{"isOpen": false, "ranges": []}'::jsonb;
+  END IF;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(raw_ranges) LOOP
+    open_time := CASE WHEN jsonb_typeof(item -> 'openTime') = 'string' THEN public.parse_hours_time(item ->> 'openTime') END;
+    close_time := CASE WHEN jsonb_typeof(item -> 'closeTime') = 'string' THEN public.parse_hours_time(item ->> 'closeTime') END;
+    IF open_time IS NULL OR close_time IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    ranges := ranges || jsonb_build_array(jsonb_build_object('openTime', open_time, 'closeTime', close_time));
+  END LOOP;
+
+  IF jsonb_array_length(ranges) = 0 THEN
+    RETURN NULL;
+  END IF;
+  RETURN jsonb_build_object('isOpen', true, 'ranges', ranges);
+END;
+$$;
+
+-- Whole opening_hours value; hours is NULL when there are none ('{}' or null)
+-- Unreadable days become closed and unreadable exceptions are dropped, each adding to issues
+CREATE FUNCTION public.normalize_opening_hours(_hours JSONB, OUT hours JSONB, OUT issues TEXT[])
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  day_keys CONSTANT TEXT[] := ARRAY['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+  short_keys CONSTANT TEXT[] := ARRAY['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+  stored JSONB := _hours;
+  day_value JSONB;
+  parsed_day JSONB;
+  unknown_key TEXT;
+  item JSONB;
+  exceptions JSONB := '[]'::jsonb;
+  exception_label TEXT;
+BEGIN
+  issues := ARRAY[]::TEXT[];
+
+  IF stored IS NULL OR jsonb_typeof(stored) = 'null' THEN
+    RETURN;
+  END IF;
+
+  -- Some older rows hold the JSON as a string
+  IF jsonb_typeof(stored) = 'string' THEN
+    BEGIN
+      stored := (stored #>> '{}')::jsonb;
+    EXCEPTION WHEN invalid_text_representation THEN
+      issues := ARRAY['not valid JSON: ' || left(_hours::TEXT, 60)];
+      RETURN;
+    END;
+  END IF;
+
+  IF jsonb_typeof(stored) <> 'object' THEN
+    issues := ARRAY['expected an object of days, got ' || left(stored::TEXT, 60)];
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(jsonb_object_agg(lower(key), value), '{}'::jsonb)
+  INTO stored
+  FROM jsonb_each(stored);
+
+  IF stored = '{}'::jsonb THEN
+    RETURN;
+  END IF;
+
+  hours := '{}'::jsonb;
+  FOR i IN 1..7 LOOP
+    day_value := COALESCE(NULLIF(stored -> day_keys[i], 'null'::jsonb), NULLIF(stored -> short_keys[i], 'null'::jsonb));
+
+    -- Missing days are closed
+    IF day_value IS NULL THEN
+      parsed_day := '{"isOpen": false, "ranges": []}'::jsonb;
+    ELSE
+      parsed_day := public.parse_hours_day(day_value);
+      IF parsed_day IS NULL THEN
+        issues := issues || (day_keys[i] || ': could not read ' || left(day_value::TEXT, 60));
+        parsed_day := '{"isOpen": false, "ranges": []}'::jsonb;
+      END IF;
+    END IF;
+
+    hours := hours || jsonb_build_object(day_keys[i], parsed_day);
+  END LOOP;
+
+  FOR unknown_key IN
+    SELECT key FROM jsonb_object_keys(stored) AS key
+    WHERE key <> ALL (day_keys || short_keys || ARRAY['exceptions'])
+  LOOP
+    issues := issues || ('unknown key "' || unknown_key || '"');
+  END LOOP;
+
+  IF stored ? 'exceptions' THEN
+    IF jsonb_typeof(stored -> 'exceptions') = 'array' THEN
+      FOR item IN SELECT * FROM jsonb_array_elements(stored -> 'exceptions') LOOP
+        parsed_day := NULL;
+        exception_label := CASE WHEN jsonb_typeof(item -> 'label') = 'string' THEN btrim(item ->> 'label') ELSE '' END;
+
+        IF jsonb_typeof(item) = 'object'
+          AND COALESCE(item ->> 'startDate', '') ~ '^\d{4}-\d{2}-\d{2}$'
+          AND COALESCE(item ->> 'endDate', '') ~ '^\d{4}-\d{2}-\d{2}$'
+          AND item ->> 'startDate' <= item ->> 'endDate'
+          AND char_length(exception_label) <= 100
+        THEN
+          parsed_day := public.parse_hours_day(item);
+        END IF;
+
+        IF parsed_day IS NULL THEN
+          issues := issues || ('exceptions: could not read ' || left(item::TEXT, 60));
+        ELSE
+          exceptions := exceptions || jsonb_build_array(
+            jsonb_build_object(
+              'label', exception_label,
+              'startDate', item ->> 'startDate',
+              'endDate', item ->> 'endDate'
+            ) || parsed_day
+          );
+        END IF;
+      END LOOP;
+
+      IF jsonb_array_length(exceptions) > 0 THEN
+        hours := hours || jsonb_build_object('exceptions', exceptions);
+      END IF;
+    ELSE
+      issues := issues || ('exceptions: expected a list, got ' || left((stored -> 'exceptions')::TEXT, 60));
+    END IF;
+  END IF;
+END;
+$$;
+
+DO $$
+DECLARE
+  row_record RECORD;
+  normalized RECORD;
+BEGIN
+  FOR row_record IN
+    SELECT id, opening_hours FROM public.restaurants WHERE opening_hours IS NOT NULL
+  LOOP
+    SELECT * INTO normalized FROM public.normalize_opening_hours(row_record.opening_hours);
+
+    IF cardinality(normalized.issues) > 0 THEN
+      INSERT INTO public.opening_hours_migration_issues (source_table, source_id, opening_hours, issues)
+      VALUES ('restaurants', row_record.id, row_record.opening_hours, normalized.issues);
+    ELSIF normalized.hours IS NOT NULL AND normalized.hours <> row_record.opening_hours THEN
+      UPDATE public.restaurants SET opening_hours = normalized.hours WHERE id = row_record.id;
+    END IF;
+  END LOOP;
+
+  FOR row_record IN
+    SELECT id, submission_data -> 'opening_hours' AS opening_hours
+    FROM public.restaurant_requests
+    WHERE jsonb_typeof(submission_data) = 'object' AND submission_data ? 'opening_hours'
+  LOOP
+    SELECT * INTO normalized FROM public.normalize_opening_hours(row_record.opening_hours);
+
+    IF cardinality(normalized.issues) > 0 THEN
+      INSERT INTO public.opening_hours_migration_issues (source_table, source_id, opening_hours, issues)
+      VALUES ('restaurant_requests', row_record.id, row_record.opening_hours, normalized.issues);
+    ELSIF normalized.hours IS NOT NULL AND normalized.hours <> row_record.opening_hours THEN
+      UPDATE public.restaurant_requests
+      SET submission_data = jsonb_set(submission_data, '{opening_hours}', normalized.hours)
+      WHERE id = row_record.id;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+DROP FUNCTION public.normalize_opening_hours(JSONB);
+DROP FUNCTION public.parse_hours_day(JSONB);
+DROP FUNCTION public.parse_hours_day_text(TEXT);
+DROP FUNCTION public.parse_hours_time(TEXT, TEXT);
@@ -0,0 +1,34 @@
+-- "Helpful" votes on reviews.
+-- Signed-in users can mark a review as helpful once and take the vote back
+-- later. Nobody can vote on their own review.
+
+CREATE TABLE public.review_helpful_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID REFERENCES public.reviews(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (review_id, user_id)
+);
+
+CREATE INDEX idx_review_helpful_votes_review ON public.review_helpful_votes(review_id);
+
+ALTER TABLE public.review_helpful_votes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for review_helpful_votes
+CREATE POLICY "Review helpful votes are viewable by everyone"
+  ON public.review_helpful_votes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can mark other users' reviews as helpful"
+  ON public.review_helpful_votes FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.reviews r
+      WHERE r.id = review_id AND r.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove their own helpful votes"
+  ON public.review_helpful_votes FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,155 @@
+-- Public responses to reviews.
+-- A verified owner of the restaurant or an admin can post one reply per
+-- review and edit it later. Owners are verified by admins, who add them to
+-- restaurant_owners. The reviewer gets a notification unless they turned
+-- review response notifications off in their settings.
+
+-- Verified restaurant owners
+CREATE TABLE public.restaurant_owners (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  restaurant_id UUID REFERENCES public.restaurants(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (restaurant_id, user_id)
+);
+
+CREATE INDEX idx_restaurant_owners_user ON public.restaurant_owners(user_id);
+
+ALTER TABLE public.restaurant_owners ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Restaurant owners are viewable by everyone"
+  ON public.restaurant_owners FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can add restaurant owners"
+  ON public.restaurant_owners FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can remove restaurant owners"
+  ON public.restaurant_owners FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.is_restaurant_owner(_user_id UUID, _restaurant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.restaurant_owners
+    WHERE user_id = _user_id
+      AND restaurant_id = _restaurant_id
+  )
+$$;
+
+-- Whether a user may respond to a review: an admin or an owner of the reviewed restaurant
+CREATE OR REPLACE FUNCTION public.can_respond_to_review(_user_id UUID, _review_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR EXISTS (
+      SELECT 1
+      FROM public.reviews r
+      WHERE r.id = _review_id
+        AND public.is_restaurant_owner(_user_id, r.restaurant_id)
+    )
+$$;
+
+-- Responses
+CREATE TABLE public.review_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID REFERENCES public.reviews(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT review_responses_body_length CHECK (char_length(btrim(body)) BETWEEN 1 AND 1000)
+);
+
+ALTER TABLE public.review_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_review_responses_updated_at
+  BEFORE UPDATE ON public.review_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for review_responses
+CREATE POLICY "Review responses are viewable by everyone"
+  ON public.review_responses FOR SELECT
+  USING (true);
+
+CREATE POLICY "Owners and admins can respond to reviews"
+  ON public.review_responses FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_respond_to_review(auth.uid(), review_id));
+
+-- Owners lose edit rights once an admin removes them
+CREATE POLICY "Responders can update their own responses"
+  ON public.review_responses FOR UPDATE
+  USING (auth.uid() = user_id AND public.can_respond_to_review(auth.uid(), review_id))
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Responders and admins can delete responses"
+  ON public.review_responses FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+-- Notifications
+ALTER TABLE public.profiles ADD COLUMN notify_review_responses BOOLEAN NOT NULL DEFAULT true;
+
+CREATE TYPE public.notification_type AS ENUM ('review_response');
+
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type public.notification_type NOT NULL,
+  restaurant_id UUID REFERENCES public.restaurants(id) ON DELETE CASCADE,
+  review_id UUID REFERENCES public.reviews(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only created by triggers; users read, mark read and clear their own
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+  ON public.notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.notify_review_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, type, restaurant_id, review_id)
+  SELECT r.user_id, 'review_response', r.restaurant_id, r.id
+  FROM public.reviews r
+  LEFT JOIN public.profiles p ON p.user_id = r.user_id
+  WHERE r.id = NEW.review_id
+    AND r.user_id <> NEW.user_id
+    AND COALESCE(p.notify_review_responses, true);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_on_review_response
+  AFTER INSERT ON public.review_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_review_response();
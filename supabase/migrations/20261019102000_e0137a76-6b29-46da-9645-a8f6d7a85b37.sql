@@ -0,0 +1,334 @@
+-- Reporting reviews.
+-- Signed-in users report a review with a reason. Admins and moderators work
+-- through pending reports and dismiss them, hide the review or delete it.
+-- Every moderation action goes through public.moderate_review so it lands in
+-- review_moderation_log together with a snapshot of the review.
+
+CREATE TYPE public.review_report_reason AS ENUM ('spam', 'fake', 'offensive', 'off_topic', 'other');
+CREATE TYPE public.review_report_status AS ENUM ('pending', 'dismissed', 'actioned');
+CREATE TYPE public.review_moderation_action AS ENUM ('dismiss', 'hide', 'unhide', 'delete');
+
+-- Admins and moderators
+CREATE OR REPLACE FUNCTION public.can_moderate(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR public.has_role(_user_id, 'moderator')
+$$;
+
+-- Hidden reviews stay visible to their author and to moderators only
+ALTER TABLE public.reviews
+  ADD COLUMN hidden_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN hidden_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+DROP POLICY "Reviews are viewable by everyone" ON public.reviews;
+
+CREATE POLICY "Visible reviews are viewable by everyone"
+  ON public.reviews FOR SELECT
+  USING (hidden_at IS NULL OR auth.uid() = user_id OR public.can_moderate(auth.uid()));
+
+-- Reports
+CREATE TABLE public.review_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID REFERENCES public.reviews(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reason public.review_report_reason NOT NULL,
+  details TEXT,
+  status public.review_report_status NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  CONSTRAINT review_reports_details_length CHECK (details IS NULL OR char_length(details) <= 500)
+);
+
+-- One open report per user and review
+CREATE UNIQUE INDEX idx_review_reports_pending_user
+  ON public.review_reports(review_id, user_id)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_review_reports_pending ON public.review_reports(created_at) WHERE status = 'pending';
+
+ALTER TABLE public.review_reports ENABLE ROW LEVEL SECURITY;
+
+-- Reports are resolved through moderate_review, so there are no UPDATE or DELETE policies
+CREATE POLICY "Users can view their own review reports"
+  ON public.review_reports FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Moderators can view all review reports"
+  ON public.review_reports FOR SELECT
+  USING (public.can_moderate(auth.uid()));
+
+CREATE POLICY "Users can report other users' reviews"
+  ON public.review_reports FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.reviews r
+      WHERE r.id = review_id AND r.user_id = auth.uid()
+    )
+  );
+
+-- Moderation log; review_id is kept after the review is deleted
+CREATE TABLE public.review_moderation_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL,
+  restaurant_id UUID REFERENCES public.restaurants(id) ON DELETE SET NULL,
+  review_author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action public.review_moderation_action NOT NULL,
+  note TEXT,
+  resolved_report_count INTEGER NOT NULL DEFAULT 0,
+  review_snapshot JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_review_moderation_log_created ON public.review_moderation_log(created_at DESC);
+
+ALTER TABLE public.review_moderation_log ENABLE ROW LEVEL SECURITY;
+
+-- Written only by moderate_review
+CREATE POLICY "Moderators can view the review moderation log"
+  ON public.review_moderation_log FOR SELECT
+  USING (public.can_moderate(auth.uid()));
+
+-- Moderators delete the files of reviews they remove
+CREATE POLICY "Moderators can delete restaurant images"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'restaurant-images' AND public.has_role(auth.uid(), 'moderator'));
+
+-- Applies a moderation action, resolves the review's pending reports and logs it.
+-- Returns the image URLs of a deleted review so the caller can remove the files.
+CREATE OR REPLACE FUNCTION public.moderate_review(
+  _review_id UUID,
+  _action public.review_moderation_action,
+  _note TEXT DEFAULT NULL
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.reviews%ROWTYPE;
+  image_urls TEXT[] := '{}';
+  resolved_count INTEGER;
+BEGIN
+  IF NOT public.can_moderate(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and moderators can moderate reviews';
+  END IF;
+
+  SELECT * INTO target FROM public.reviews WHERE id = _review_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  SELECT coalesce(array_agg(url), '{}') INTO image_urls
+  FROM public.review_images
+  WHERE review_id = _review_id;
+
+  UPDATE public.review_reports
+  SET status = CASE WHEN _action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END::public.review_report_status,
+      resolved_at = now(),
+      resolved_by = auth.uid()
+  WHERE review_id = _review_id AND status = 'pending';
+  GET DIAGNOSTICS resolved_count = ROW_COUNT;
+
+  INSERT INTO public.review_moderation_log (
+    review_id, restaurant_id, review_author_id, actor_id, action, note, resolved_report_count, review_snapshot
+  ) VALUES (
+    target.id,
+    target.restaurant_id,
+    target.user_id,
+    auth.uid(),
+    _action,
+    nullif(btrim(_note), ''),
+    resolved_count,
+    jsonb_build_object(
+      'rating', target.rating,
+      'comment', target.comment,
+      'created_at', target.created_at,
+      'image_urls', to_jsonb(image_urls),
+      'reports', (
+        SELECT coalesce(jsonb_agg(jsonb_build_object('reason', rr.reason, 'details', rr.details, 'created_at', rr.created_at)), '[]')
+        FROM public.review_reports rr
+        WHERE rr.review_id = _review_id
+      )
+    )
+  );
+
+  IF _action = 'hide' THEN
+    UPDATE public.reviews SET hidden_at = now(), hidden_by = auth.uid() WHERE id = _review_id;
+  ELSIF _action = 'unhide' THEN
+    UPDATE public.reviews SET hidden_at = NULL, hidden_by = NULL WHERE id = _review_id;
+  ELSIF _action = 'delete' THEN
+    DELETE FROM public.restaurant_images WHERE url = ANY(image_urls);
+    -- review_images, helpful votes, responses and reports cascade
+    DELETE FROM public.reviews WHERE id = _review_id;
+    RETURN image_urls;
+  END IF;
+
+  RETURN '{}';
+END;
+$$;
+
+-- Hidden reviews no longer count towards ratings
+CREATE OR REPLACE FUNCTION public.explore_restaurants(
+  _lat DOUBLE PRECISION,
+  _lng DOUBLE PRECISION,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _north DOUBLE PRECISION DEFAULT NULL,
+  _south DOUBLE PRECISION DEFAULT NULL,
+  _east DOUBLE PRECISION DEFAULT NULL,
+  _west DOUBLE PRECISION DEFAULT NULL,
+  _price_ranges public.price_range[] DEFAULT NULL,
+  _cuisine_types TEXT[] DEFAULT NULL,
+  _halal_statuses public.halal_status[] DEFAULT NULL,
+  _halal_attributes TEXT[] DEFAULT NULL,
+  _sort TEXT DEFAULT 'nearest',
+  _offset INTEGER DEFAULT 0,
+  _page_size INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  address TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  price_range public.price_range,
+  cuisine_type TEXT,
+  halal_status public.halal_status,
+  is_sponsored BOOLEAN,
+  opening_hours JSONB,
+  timezone TEXT,
+  lifecycle_status public.restaurant_lifecycle_status,
+  reopens_on DATE,
+  halal_attributes JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  distance_km DOUBLE PRECISION,
+  primary_image TEXT,
+  avg_rating DOUBLE PRECISION,
+  review_count BIGINT,
+  rating_score DOUBLE PRECISION,
+  halal_confidence DOUBLE PRECISION,
+  last_confirmed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH prior AS (
+    -- Bayesian prior: global mean rating weighted as 5 reviews
+    SELECT coalesce(avg(rating), 3)::double precision AS mean, 5 AS weight
+    FROM public.reviews
+    WHERE hidden_at IS NULL
+  ),
+  candidates AS (
+    SELECT
+      r.*,
+      -- Haversine distance in km
+      6371 * 2 * asin(sqrt(
+        power(sin(radians(r.lat - _lat) / 2), 2) +
+        cos(radians(_lat)) * cos(radians(r.lat)) *
+        power(sin(radians(r.lng - _lng) / 2), 2)
+      )) AS distance_km
+    FROM public.restaurants r
+    WHERE r.lifecycle_status <> 'permanently_closed'
+      AND ((
+        -- Radius search: bounding box prefilter so idx_restaurants_location can be used
+        _radius_km IS NOT NULL
+        AND r.lat BETWEEN _lat - _radius_km / 111.045 AND _lat + _radius_km / 111.045
+        AND r.lng BETWEEN _lng - _radius_km / (111.045 * greatest(cos(radians(_lat)), 0.00001))
+                      AND _lng + _radius_km / (111.045 * greatest(cos(radians(_lat)), 0.00001))
+      ) OR (
+        -- Viewport search; a viewport crossing the antimeridian has west > east
+        _radius_km IS NULL
+        AND r.lat BETWEEN _south AND _north
+        AND (
+          (_west <= _east AND r.lng BETWEEN _west AND _east)
+          OR (_west > _east AND (r.lng >= _west OR r.lng <= _east))
+        )
+      ))
+  ),
+  filtered AS (
+    SELECT
+      c.*,
+      img.url AS primary_image,
+      COALESCE(stats.avg_rating, 0) AS avg_rating,
+      COALESCE(stats.review_count, 0) AS review_count,
+      (prior.mean * prior.weight + COALESCE(stats.rating_sum, 0)) / (prior.weight + COALESCE(stats.review_count, 0)) AS rating_score,
+      conf.confidence AS halal_confidence,
+      conf.last_confirmed_at
+    FROM candidates c
+    CROSS JOIN prior
+    LEFT JOIN public.restaurant_halal_confidence conf ON conf.restaurant_id = c.id
+    LEFT JOIN LATERAL (
+      SELECT ri.url
+      FROM public.restaurant_images ri
+      WHERE ri.restaurant_id = c.id
+      ORDER BY ri.is_primary DESC, ri.created_at ASC
+      LIMIT 1
+    ) img ON true
+    LEFT JOIN LATERAL (
+      SELECT
+        avg(rv.rating)::double precision AS avg_rating,
+        sum(rv.rating)::double precision AS rating_sum,
+        count(*) AS review_count
+      FROM public.reviews rv
+      WHERE rv.restaurant_id = c.id
+        AND rv.hidden_at IS NULL
+    ) stats ON true
+    WHERE (_radius_km IS NULL OR c.distance_km <= _radius_km)
+      AND (_price_ranges IS NULL OR cardinality(_price_ranges) = 0 OR c.price_range = ANY(_price_ranges))
+      AND (_cuisine_types IS NULL OR cardinality(_cuisine_types) = 0 OR c.cuisine_type = ANY(_cuisine_types))
+      AND (_halal_statuses IS NULL OR cardinality(_halal_statuses) = 0 OR c.halal_status = ANY(_halal_statuses))
+      -- Each requested attribute must be explicitly known; unknown never matches
+      AND ('zabiha' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"slaughter_method": "zabiha"}')
+      AND ('no_alcohol' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"alcohol_served": false}')
+      AND ('no_pork' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"pork_on_premises": false}')
+      AND ('separate_prep' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"separate_prep": true}')
+      AND ('certified_supplier' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"certified_supplier": true}')
+  )
+  SELECT
+    f.id,
+    f.name,
+    f.description,
+    f.address,
+    f.lat,
+    f.lng,
+    f.price_range,
+    f.cuisine_type,
+    f.halal_status,
+    f.is_sponsored,
+    f.opening_hours,
+    f.timezone,
+    f.lifecycle_status,
+    f.reopens_on,
+    f.halal_attributes,
+    f.created_at,
+    f.distance_km,
+    f.primary_image,
+    f.avg_rating,
+    f.review_count,
+    f.rating_score,
+    f.halal_confidence,
+    f.last_confirmed_at
+  FROM filtered f
+  ORDER BY
+    -- Temporarily closed places stay listed (greyed out) but after open ones
+    (f.lifecycle_status = 'temporarily_closed' AND (f.reopens_on IS NULL OR f.reopens_on > current_date)) ASC,
+    CASE WHEN _sort = 'rating' THEN f.rating_score END DESC NULLS LAST,
+    CASE WHEN _sort = 'reviews' THEN f.review_count END DESC NULLS LAST,
+    CASE WHEN _sort = 'newest' THEN f.created_at END DESC NULLS LAST,
+    CASE WHEN _sort = 'price_asc' THEN f.price_range END ASC NULLS LAST,
+    CASE WHEN _sort = 'price_desc' THEN f.price_range END DESC NULLS LAST,
+    f.distance_km ASC,
+    f.id ASC
+  OFFSET greatest(_offset, 0)
+  LIMIT least(greatest(_page_size, 1), 200)
+$$;
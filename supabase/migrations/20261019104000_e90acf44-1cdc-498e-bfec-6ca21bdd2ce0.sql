@@ -0,0 +1,122 @@
+-- Reviews held for a moderator.
+-- When automatic moderation can't reach a verdict and the failure policy is to queue,
+-- ReviewForm posts the review with held_reason set. It stays hidden, so it is left out of
+-- ratings, until a moderator releases or deletes it from the moderation queue.
+
+ALTER TABLE public.reviews ADD COLUMN held_reason TEXT;
+
+CREATE INDEX idx_reviews_held ON public.reviews(created_at) WHERE held_reason IS NOT NULL;
+
+-- hidden_at and hidden_by follow held_reason on insert. On update, authors can put their own
+-- visible review on hold (an edit that couldn't be checked) but can't lift a hold or a hide.
+CREATE OR REPLACE FUNCTION public.protect_review_moderation_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.hidden_by := NULL;
+    NEW.hidden_at := CASE WHEN NEW.held_reason IS NOT NULL THEN now() END;
+    RETURN NEW;
+  END IF;
+
+  IF public.can_moderate(auth.uid()) THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.hidden_by := OLD.hidden_by;
+  NEW.held_reason := CASE WHEN OLD.hidden_at IS NULL THEN NEW.held_reason ELSE OLD.held_reason END;
+  NEW.hidden_at := coalesce(OLD.hidden_at, CASE WHEN NEW.held_reason IS NOT NULL THEN now() END);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_review_moderation_state
+  BEFORE INSERT OR UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_review_moderation_state();
+
+-- Unhiding a held review releases it and publishes its photos to the restaurant gallery,
+-- which ReviewForm skips for held reviews. Hiding a held review turns it into a regular hide.
+CREATE OR REPLACE FUNCTION public.moderate_review(
+  _review_id UUID,
+  _action public.review_moderation_action,
+  _note TEXT DEFAULT NULL
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.reviews%ROWTYPE;
+  image_urls TEXT[] := '{}';
+  resolved_count INTEGER;
+BEGIN
+  IF NOT public.can_moderate(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and moderators can moderate reviews';
+  END IF;
+
+  SELECT * INTO target FROM public.reviews WHERE id = _review_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  SELECT coalesce(array_agg(url), '{}') INTO image_urls
+  FROM public.review_images
+  WHERE review_id = _review_id;
+
+  UPDATE public.review_reports
+  SET status = CASE WHEN _action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END::public.review_report_status,
+      resolved_at = now(),
+      resolved_by = auth.uid()
+  WHERE review_id = _review_id AND status = 'pending';
+  GET DIAGNOSTICS resolved_count = ROW_COUNT;
+
+  INSERT INTO public.review_moderation_log (
+    review_id, restaurant_id, review_author_id, actor_id, action, note, resolved_report_count, review_snapshot
+  ) VALUES (
+    target.id,
+    target.restaurant_id,
+    target.user_id,
+    auth.uid(),
+    _action,
+    nullif(btrim(_note), ''),
+    resolved_count,
+    jsonb_build_object(
+      'rating', target.rating,
+      'comment', target.comment,
+      'held_reason', target.held_reason,
+      'created_at', target.created_at,
+      'image_urls', to_jsonb(image_urls),
+      'reports', (
+        SELECT coalesce(jsonb_agg(jsonb_build_object('reason', rr.reason, 'details', rr.details, 'created_at', rr.created_at)), '[]')
+        FROM public.review_reports rr
+        WHERE rr.review_id = _review_id
+      )
+    )
+  );
+
+  IF _action = 'hide' THEN
+    UPDATE public.reviews SET hidden_at = now(), hidden_by = auth.uid(), held_reason = NULL WHERE id = _review_id;
+  ELSIF _action = 'unhide' THEN
+    UPDATE public.reviews SET hidden_at = NULL, hidden_by = NULL, held_reason = NULL WHERE id = _review_id;
+
+    IF target.held_reason IS NOT NULL THEN
+      INSERT INTO public.restaurant_images (restaurant_id, url, uploaded_by, is_primary)
+      SELECT target.restaurant_id, ri.url, target.user_id, false
+      FROM public.review_images ri
+      WHERE ri.review_id = _review_id
+        AND NOT EXISTS (SELECT 1 FROM public.restaurant_images x WHERE x.url = ri.url);
+    END IF;
+  ELSIF _action = 'delete' THEN
+    DELETE FROM public.restaurant_images WHERE url = ANY(image_urls);
+    -- review_images, helpful votes, responses and reports cascade
+    DELETE FROM public.reviews WHERE id = _review_id;
+    RETURN image_urls;
+  END IF;
+
+  RETURN '{}';
+END;
+$$;
@@ -0,0 +1,140 @@
+-- Server-enforced moderation.
+-- /moderate-review signs every verdict it reaches (approved or held) with a short-lived
+-- token bound to a SHA-256 hash of the content. Reviews and image rows are only accepted
+-- with a valid token, so skipping the check in the client no longer gets content published.
+--
+-- The signing secret is kept in the vault and must match MODERATION_TOKEN_SECRET in Pages:
+--   SELECT vault.create_secret('<secret>', 'moderation_token_secret');
+--
+-- The database can't hash an uploaded file, so image file names carry the image hash from
+-- the token. Admins and moderators add images (their own uploads, Google photos, approved
+-- restaurant requests) without a token.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Write-only: checked and cleared by the triggers below, never stored
+ALTER TABLE public.reviews ADD COLUMN moderation_token TEXT;
+ALTER TABLE public.review_images ADD COLUMN moderation_token TEXT;
+ALTER TABLE public.restaurant_images ADD COLUMN moderation_token TEXT;
+
+-- Payload of a correctly signed, unexpired token of the given type, otherwise NULL
+CREATE OR REPLACE FUNCTION public.read_moderation_token(_token TEXT, _type TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  secret TEXT;
+  parts TEXT[];
+  payload JSONB;
+BEGIN
+  SELECT decrypted_secret INTO secret
+  FROM vault.decrypted_secrets
+  WHERE name = 'moderation_token_secret';
+
+  IF secret IS NULL THEN
+    RAISE EXCEPTION 'moderation_token_secret is not configured';
+  END IF;
+
+  parts := string_to_array(_token, '.');
+  IF _token IS NULL OR cardinality(parts) <> 2 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Unpadded base64url, as the Pages function produces it
+  IF parts[2] <> rtrim(translate(encode(extensions.hmac(parts[1], secret, 'sha256'), 'base64'), E'+/\n', '-_'), '=') THEN
+    RETURN NULL;
+  END IF;
+
+  payload := convert_from(
+    decode(rpad(translate(parts[1], '-_', '+/'), ((length(parts[1]) + 3) / 4) * 4, '='), 'base64'),
+    'UTF8'
+  )::jsonb;
+
+  IF payload->>'typ' IS DISTINCT FROM _type OR (payload->>'exp')::BIGINT < extract(epoch FROM now()) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN payload;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.read_moderation_token(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- New text needs a token for exactly that text; rating-only edits don't
+CREATE OR REPLACE FUNCTION public.require_review_moderation_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payload JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.comment IS DISTINCT FROM OLD.comment THEN
+    payload := public.read_moderation_token(NEW.moderation_token, 'review');
+
+    IF payload IS NULL OR payload->>'sha' <> encode(extensions.digest(coalesce(NEW.comment, ''), 'sha256'), 'hex') THEN
+      RAISE EXCEPTION 'Review text has not passed moderation' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- protect_review_moderation_state runs first and hides reviews posted with a held_reason
+    IF payload->>'verdict' = 'held' AND NEW.hidden_at IS NULL THEN
+      RAISE EXCEPTION 'This review has to be held for a moderator' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.moderation_token := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_review_moderation_token
+  BEFORE INSERT OR UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_review_moderation_token();
+
+-- Shared by review_images and restaurant_images
+CREATE OR REPLACE FUNCTION public.require_image_moderation_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payload JSONB;
+BEGIN
+  IF NOT public.can_moderate(auth.uid()) THEN
+    payload := public.read_moderation_token(NEW.moderation_token, 'image_only');
+
+    IF payload IS NULL OR position(payload->>'sha' IN NEW.url) = 0 THEN
+      RAISE EXCEPTION 'Image has not passed moderation' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- A held photo can only be attached to a held review, never go straight to the gallery
+    IF payload->>'verdict' = 'held' THEN
+      IF TG_TABLE_NAME <> 'review_images' THEN
+        RAISE EXCEPTION 'This image has to be held for a moderator' USING ERRCODE = 'check_violation';
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM public.reviews r WHERE r.id = NEW.review_id AND r.held_reason IS NOT NULL) THEN
+        RAISE EXCEPTION 'This image has to be held for a moderator' USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  END IF;
+
+  NEW.moderation_token := NULL;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER require_image_moderation_token
+  BEFORE INSERT ON public.review_images
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_image_moderation_token();
+
+CREATE TRIGGER require_image_moderation_token
+  BEFORE INSERT ON public.restaurant_images
+  FOR EACH ROW
+  EXECUTE FUNCTION public.require_image_moderation_token();
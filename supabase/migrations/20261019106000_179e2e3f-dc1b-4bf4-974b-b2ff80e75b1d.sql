@@ -0,0 +1,131 @@
+-- Moderation decision log and appeals.
+-- The moderate-review function records every verdict in moderation_decisions
+-- using the service role. Users can appeal a rejection of their own content;
+-- blocked images go to the private moderation-appeals bucket so a moderator can
+-- see them. An overturned appeal lets the same content pass moderation when it
+-- is submitted again.
+
+CREATE TYPE public.moderation_content_type AS ENUM ('review', 'image_only', 'avatar');
+CREATE TYPE public.moderation_verdict AS ENUM ('approved', 'rejected', 'held');
+CREATE TYPE public.moderation_appeal_status AS ENUM ('pending', 'upheld', 'overturned');
+
+CREATE TABLE public.moderation_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  content_type public.moderation_content_type NOT NULL,
+  verdict public.moderation_verdict NOT NULL,
+  reason TEXT,
+  -- Provider that decided, 'failure_policy' or 'appeal'
+  provider TEXT NOT NULL,
+  -- Hex SHA-256 of the review text or image bytes, as in moderation tokens
+  content_hash TEXT NOT NULL,
+  -- Review text as it was checked; images aren't kept
+  content_text TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_moderation_decisions_created ON public.moderation_decisions(created_at DESC);
+CREATE INDEX idx_moderation_decisions_user ON public.moderation_decisions(user_id, content_hash);
+
+ALTER TABLE public.moderation_decisions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the moderate-review function
+CREATE POLICY "Users can view their own moderation decisions"
+  ON public.moderation_decisions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Moderators can view all moderation decisions"
+  ON public.moderation_decisions FOR SELECT
+  USING (public.can_moderate(auth.uid()));
+
+-- Appeals; one per decision
+CREATE TABLE public.moderation_appeals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  decision_id UUID REFERENCES public.moderation_decisions(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  message TEXT,
+  -- Object in the moderation-appeals bucket for image decisions
+  image_path TEXT,
+  status public.moderation_appeal_status NOT NULL DEFAULT 'pending',
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  CONSTRAINT moderation_appeals_message_length CHECK (message IS NULL OR char_length(message) <= 500)
+);
+
+CREATE INDEX idx_moderation_appeals_pending ON public.moderation_appeals(created_at) WHERE status = 'pending';
+
+ALTER TABLE public.moderation_appeals ENABLE ROW LEVEL SECURITY;
+
+-- Appeals are resolved through resolve_moderation_appeal, so there are no UPDATE or DELETE policies
+CREATE POLICY "Users can view their own moderation appeals"
+  ON public.moderation_appeals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Moderators can view all moderation appeals"
+  ON public.moderation_appeals FOR SELECT
+  USING (public.can_moderate(auth.uid()));
+
+CREATE POLICY "Users can appeal rejections of their own content"
+  ON public.moderation_appeals FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND resolved_at IS NULL
+    AND resolved_by IS NULL
+    AND resolution_note IS NULL
+    AND (image_path IS NULL OR image_path LIKE auth.uid()::text || '/%')
+    AND EXISTS (
+      SELECT 1 FROM public.moderation_decisions d
+      WHERE d.id = decision_id AND d.user_id = auth.uid() AND d.verdict = 'rejected'
+    )
+  );
+
+-- Private bucket for images under appeal, stored as <user id>/<decision id>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'moderation-appeals',
+  'moderation-appeals',
+  false,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload images they appeal"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'moderation-appeals' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Moderators can view appealed images"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'moderation-appeals' AND public.can_moderate(auth.uid()));
+
+-- Upholds or overturns a pending appeal
+CREATE OR REPLACE FUNCTION public.resolve_moderation_appeal(
+  _appeal_id UUID,
+  _overturn BOOLEAN,
+  _note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_moderate(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and moderators can resolve appeals';
+  END IF;
+
+  UPDATE public.moderation_appeals
+  SET status = CASE WHEN _overturn THEN 'overturned' ELSE 'upheld' END::public.moderation_appeal_status,
+      resolution_note = NULLIF(btrim(_note), ''),
+      resolved_at = now(),
+      resolved_by = auth.uid()
+  WHERE id = _appeal_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appeal not found or already resolved';
+  END IF;
+END;
+$$;
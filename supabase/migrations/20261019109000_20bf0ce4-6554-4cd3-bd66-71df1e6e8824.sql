@@ -0,0 +1,320 @@
+-- Explore's open-now and open-at filters move to the server so they apply to every
+-- restaurant in the area, not just the pages loaded so far, and total_count covers them.
+-- Hours are read in the canonical opening_hours shape (see src/utils/openingHours.ts)
+-- and evaluated like getOpenStatusAt in src/utils/timeFormat.ts, in each restaurant's zone.
+
+-- Ranges, in minutes since midnight, that apply on a date: the narrowest date exception
+-- covering it, otherwise that weekday's hours
+CREATE OR REPLACE FUNCTION public.opening_ranges_on(_hours JSONB, _date DATE)
+RETURNS TABLE (open_minute INTEGER, close_minute INTEGER)
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  WITH chosen AS (
+    SELECT coalesce(
+      (
+        SELECT e
+        FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(_hours -> 'exceptions') = 'array' THEN _hours -> 'exceptions' ELSE '[]'::jsonb END
+        ) e
+        WHERE e ->> 'startDate' <= to_char(_date, 'YYYY-MM-DD')
+          AND e ->> 'endDate' >= to_char(_date, 'YYYY-MM-DD')
+        ORDER BY (e ->> 'endDate')::date - (e ->> 'startDate')::date
+        LIMIT 1
+      ),
+      _hours -> (ARRAY['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'])[extract(dow FROM _date)::integer + 1]
+    ) AS hours
+  ),
+  ranges AS (
+    SELECT item ->> 'openTime' AS open_time, item ->> 'closeTime' AS close_time
+    FROM chosen
+    CROSS JOIN jsonb_array_elements(
+      CASE WHEN jsonb_typeof(chosen.hours -> 'ranges') = 'array' THEN chosen.hours -> 'ranges' ELSE '[]'::jsonb END
+    ) item
+  )
+  SELECT
+    split_part(open_time, ':', 1)::integer * 60 + split_part(open_time, ':', 2)::integer,
+    split_part(close_time, ':', 1)::integer * 60 + split_part(close_time, ':', 2)::integer
+  FROM ranges
+  WHERE open_time ~ '^([01]\d|2[0-3]):[0-5]\d$'
+    AND close_time ~ '^([01]\d|2[0-3]):[0-5]\d$'
+$$;
+
+-- Whether the hours are open at a wall-clock time, including the end of the previous
+-- day's ranges that run past midnight (e.g. 18:00 - 02:00)
+CREATE OR REPLACE FUNCTION public.is_open_at(_hours JSONB, _at TIMESTAMP WITHOUT TIME ZONE)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  WITH moment AS (
+    SELECT extract(hour FROM _at)::integer * 60 + extract(minute FROM _at)::integer AS minute
+  )
+  SELECT EXISTS (
+    SELECT 1
+    FROM moment, public.opening_ranges_on(_hours, _at::date - 1) yesterday
+    WHERE yesterday.close_minute < yesterday.open_minute
+      AND moment.minute < yesterday.close_minute
+  ) OR EXISTS (
+    SELECT 1
+    FROM moment, public.opening_ranges_on(_hours, _at::date) today
+    WHERE (today.close_minute < today.open_minute AND moment.minute >= today.open_minute)
+      OR (moment.minute >= today.open_minute AND moment.minute < today.close_minute)
+  )
+$$;
+
+DROP FUNCTION IF EXISTS public.explore_restaurants(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  public.price_range[], TEXT[], public.halal_status[], TEXT[],
+  TEXT, INTEGER, INTEGER
+);
+
+CREATE OR REPLACE FUNCTION public.explore_restaurants(
+  _lat DOUBLE PRECISION,
+  _lng DOUBLE PRECISION,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _north DOUBLE PRECISION DEFAULT NULL,
+  _south DOUBLE PRECISION DEFAULT NULL,
+  _east DOUBLE PRECISION DEFAULT NULL,
+  _west DOUBLE PRECISION DEFAULT NULL,
+  _price_ranges public.price_range[] DEFAULT NULL,
+  _cuisine_types TEXT[] DEFAULT NULL,
+  _halal_statuses public.halal_status[] DEFAULT NULL,
+  _halal_attributes TEXT[] DEFAULT NULL,
+  _query TEXT DEFAULT NULL,
+  _open_now BOOLEAN DEFAULT false,
+  -- Open at the next occurrence of this weekday (0 = Sunday) and time
+  _open_at_day INTEGER DEFAULT NULL,
+  _open_at_time TIME DEFAULT NULL,
+  -- Viewer's IANA zone, used for restaurants without a known zone of their own
+  _timezone TEXT DEFAULT NULL,
+  _sort TEXT DEFAULT 'nearest',
+  _offset INTEGER DEFAULT 0,
+  _page_size INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  address TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  price_range public.price_range,
+  cuisine_type TEXT,
+  halal_status public.halal_status,
+  is_sponsored BOOLEAN,
+  opening_hours JSONB,
+  timezone TEXT,
+  lifecycle_status public.restaurant_lifecycle_status,
+  reopens_on DATE,
+  halal_attributes JSONB,
+  created_at TIMESTAMP WITH TIME ZONE,
+  distance_km DOUBLE PRECISION,
+  primary_image TEXT,
+  avg_rating DOUBLE PRECISION,
+  review_count BIGINT,
+  rating_score DOUBLE PRECISION,
+  halal_confidence DOUBLE PRECISION,
+  last_confirmed_at TIMESTAMP WITH TIME ZONE,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH query AS (
+    -- Same matching as search_restaurants: prefix full-text terms plus trigram similarity.
+    -- No row when there is no query (or it's under 2 characters), so nothing is filtered.
+    SELECT
+      input.raw,
+      (
+        SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+        FROM regexp_split_to_table(input.raw, '[^[:alnum:]]+') AS term
+        WHERE term <> ''
+      ) AS ts
+    FROM (SELECT lower(trim(coalesce(_query, ''))) AS raw) input
+    WHERE length(input.raw) >= 2
+  ),
+  zones AS (
+    -- Only listed when an open-time filter is set; reading the zone names isn't free
+    SELECT z.name
+    FROM pg_timezone_names z
+    WHERE _open_now OR _open_at_time IS NOT NULL
+  ),
+  prior AS (
+    -- Bayesian prior: global mean rating weighted as 5 reviews
+    SELECT coalesce(avg(rating), 3)::double precision AS mean, 5 AS weight
+    FROM public.reviews
+    WHERE hidden_at IS NULL
+  ),
+  candidates AS (
+    SELECT
+      r.*,
+      -- Haversine distance in km
+      6371 * 2 * asin(sqrt(
+        power(sin(radians(r.lat - _lat) / 2), 2) +
+        cos(radians(_lat)) * cos(radians(r.lat)) *
+        power(sin(radians(r.lng - _lng) / 2), 2)
+      )) AS distance_km,
+      CASE WHEN q.raw IS NOT NULL THEN
+        coalesce(ts_rank_cd(
+          setweight(to_tsvector('simple'::regconfig, coalesce(r.name, '')), 'A') ||
+          setweight(to_tsvector('simple'::regconfig, coalesce(r.cuisine_type, '')), 'B') ||
+          setweight(to_tsvector('simple'::regconfig, coalesce(r.address, '')), 'C') ||
+          setweight(to_tsvector('simple'::regconfig, coalesce(r.description, '')), 'D'),
+          q.ts
+        ), 0) * 2
+        + greatest(similarity(r.name, q.raw), word_similarity(q.raw, r.name))
+        + similarity(r.cuisine_type, q.raw) * 0.5
+      END AS search_rank
+    FROM public.restaurants r
+    LEFT JOIN query q ON true
+    WHERE r.lifecycle_status <> 'permanently_closed'
+      AND (
+        q.raw IS NULL
+        OR (
+          setweight(to_tsvector('simple'::regconfig, coalesce(r.name, '')), 'A') ||
+          setweight(to_tsvector('simple'::regconfig, coalesce(r.cuisine_type, '')), 'B') ||
+          setweight(to_tsvector('simple'::regconfig, coalesce(r.address, '')), 'C') ||
+          setweight(to_tsvector('simple'::regconfig, coalesce(r.description, '')), 'D')
+        ) @@ q.ts
+        OR r.name % q.raw
+        OR q.raw <% r.name
+        OR r.cuisine_type % q.raw
+      )
+      AND ((
+        -- Radius search: bounding box prefilter so idx_restaurants_location can be used
+        _radius_km IS NOT NULL
+        AND r.lat BETWEEN _lat - _radius_km / 111.045 AND _lat + _radius_km / 111.045
+        AND r.lng BETWEEN _lng - _radius_km / (111.045 * greatest(cos(radians(_lat)), 0.00001))
+                      AND _lng + _radius_km / (111.045 * greatest(cos(radians(_lat)), 0.00001))
+      ) OR (
+        -- Viewport search; a viewport crossing the antimeridian has west > east
+        _radius_km IS NULL
+        AND r.lat BETWEEN _south AND _north
+        AND (
+          (_west <= _east AND r.lng BETWEEN _west AND _east)
+          OR (_west > _east AND (r.lng >= _west OR r.lng <= _east))
+        )
+      ))
+  ),
+  filtered AS (
+    SELECT
+      c.*,
+      img.url AS primary_image,
+      COALESCE(stats.avg_rating, 0) AS avg_rating,
+      COALESCE(stats.review_count, 0) AS review_count,
+      (prior.mean * prior.weight + COALESCE(stats.rating_sum, 0)) / (prior.weight + COALESCE(stats.review_count, 0)) AS rating_score,
+      conf.confidence AS halal_confidence,
+      conf.last_confirmed_at,
+      stats.avg_halal_rating
+    FROM candidates c
+    CROSS JOIN prior
+    LEFT JOIN public.restaurant_halal_confidence conf ON conf.restaurant_id = c.id
+    LEFT JOIN LATERAL (
+      SELECT ri.url
+      FROM public.restaurant_images ri
+      WHERE ri.restaurant_id = c.id
+      ORDER BY ri.is_primary DESC, ri.created_at ASC
+      LIMIT 1
+    ) img ON true
+    LEFT JOIN LATERAL (
+      SELECT
+        avg(rv.rating)::double precision AS avg_rating,
+        sum(rv.rating)::double precision AS rating_sum,
+        count(*) AS review_count,
+        avg(rv.halal_rating)::double precision AS avg_halal_rating
+      FROM public.reviews rv
+      WHERE rv.restaurant_id = c.id
+        AND rv.hidden_at IS NULL
+    ) stats ON true
+    LEFT JOIN LATERAL (
+      -- Wall-clock time in the restaurant's zone (the viewer's when it has no valid one),
+      -- and the next occurrence of the chosen weekday and time from there
+      SELECT
+        zoned.local_now,
+        target.next_at + CASE WHEN target.next_at < zoned.local_now THEN interval '7 days' ELSE interval '0' END AS local_open_at
+      FROM (
+        SELECT now() AT TIME ZONE coalesce(
+          (SELECT z.name FROM zones z WHERE z.name = c.timezone),
+          (SELECT z.name FROM zones z WHERE z.name = _timezone),
+          'UTC'
+        ) AS local_now
+      ) zoned
+      CROSS JOIN LATERAL (
+        SELECT date_trunc('day', zoned.local_now)
+          + ((_open_at_day - extract(dow FROM zoned.local_now)::integer + 7) % 7) * interval '1 day'
+          + _open_at_time AS next_at
+      ) target
+      WHERE _open_now OR _open_at_time IS NOT NULL
+    ) clock ON true
+    WHERE (_radius_km IS NULL OR c.distance_km <= _radius_km)
+      AND (_price_ranges IS NULL OR cardinality(_price_ranges) = 0 OR c.price_range = ANY(_price_ranges))
+      AND (_cuisine_types IS NULL OR cardinality(_cuisine_types) = 0 OR c.cuisine_type = ANY(_cuisine_types))
+      AND (_halal_statuses IS NULL OR cardinality(_halal_statuses) = 0 OR c.halal_status = ANY(_halal_statuses))
+      -- Each requested attribute must be explicitly known; unknown never matches
+      AND ('zabiha' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"slaughter_method": "zabiha"}')
+      AND ('no_alcohol' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"alcohol_served": false}')
+      AND ('no_pork' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"pork_on_premises": false}')
+      AND ('separate_prep' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"separate_prep": true}')
+      AND ('certified_supplier' <> ALL(coalesce(_halal_attributes, '{}')) OR c.halal_attributes @> '{"certified_supplier": true}')
+      AND (NOT (_open_now OR _open_at_time IS NOT NULL) OR (
+        -- Temporarily closed places never match the open-time filters
+        (c.lifecycle_status <> 'temporarily_closed' OR c.reopens_on <= clock.local_now::date)
+        AND (NOT _open_now OR public.is_open_at(c.opening_hours, clock.local_now))
+        AND (_open_at_time IS NULL OR public.is_open_at(c.opening_hours, clock.local_open_at))
+      ))
+  )
+  SELECT
+    f.id,
+    f.name,
+    f.description,
+    f.address,
+    f.lat,
+    f.lng,
+    f.price_range,
+    f.cuisine_type,
+    f.halal_status,
+    f.is_sponsored,
+    f.opening_hours,
+    f.timezone,
+    f.lifecycle_status,
+    f.reopens_on,
+    f.halal_attributes,
+    f.created_at,
+    f.distance_km,
+    f.primary_image,
+    f.avg_rating,
+    f.review_count,
+    f.rating_score,
+    f.halal_confidence,
+    f.last_confirmed_at,
+    -- Every match, not just this page; window functions run before OFFSET and LIMIT
+    count(*) OVER () AS total_count
+  FROM filtered f
+  ORDER BY
+    -- Temporarily closed places stay listed (greyed out) but after open ones
+    (f.lifecycle_status = 'temporarily_closed' AND (f.reopens_on IS NULL OR f.reopens_on > current_date)) ASC,
+    CASE WHEN _sort = 'rating' THEN f.rating_score END DESC NULLS LAST,
+    CASE WHEN _sort = 'halal_rating' THEN f.avg_halal_rating END DESC NULLS LAST,
+    CASE WHEN _sort = 'reviews' THEN f.review_count END DESC NULLS LAST,
+    CASE WHEN _sort = 'newest' THEN f.created_at END DESC NULLS LAST,
+    CASE WHEN _sort = 'price_asc' THEN f.price_range END ASC NULLS LAST,
+    CASE WHEN _sort = 'price_desc' THEN f.price_range END DESC NULLS LAST,
+    -- While searching, the best matches come before the nearest ones
+    f.search_rank DESC NULLS LAST,
+    f.distance_km ASC,
+    f.id ASC
+  OFFSET greatest(_offset, 0)
+  LIMIT least(greatest(_page_size, 1), 200)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.explore_restaurants(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  public.price_range[], TEXT[], public.halal_status[], TEXT[],
+  TEXT, BOOLEAN, INTEGER, TIME, TEXT, TEXT, INTEGER, INTEGER
+) TO anon, authenticated;
@@ -0,0 +1,29 @@
+-- Scheduled restaurant timezone backfill.
+-- Postgres has no zone boundary data, so the backfill-timezones edge function looks zones
+-- up with the Google Time Zone API, 50 restaurants without one per run. It covers rows from
+-- before timezones were stored and any whose lookup failed when they were saved.
+--
+-- The job calls the function with the project URL and service role key from the vault:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+-- The function needs GOOGLE_MAPS_API_KEY set in its secrets.
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'backfill-restaurant-timezones',
+  '*/10 * * * *',
+  $$
+    SELECT net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+        || '/functions/v1/backfill-timezones',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := '{}'::jsonb
+    )
+    WHERE EXISTS (SELECT 1 FROM public.restaurants WHERE timezone IS NULL)
+  $$
+);
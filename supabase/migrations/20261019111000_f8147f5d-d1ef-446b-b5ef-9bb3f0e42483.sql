@@ -0,0 +1,31 @@
+-- Server-set halal confirmation timestamps.
+-- Vote weight decays from updated_at, so clients can't pick their own timestamps.
+-- Votes already stored with a future date are pulled back to now.
+
+CREATE OR REPLACE FUNCTION public.set_halal_confirmation_timestamps()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- update_updated_at_column covers updated_at on UPDATE
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_at := now();
+    NEW.updated_at := now();
+  ELSE
+    NEW.created_at := OLD.created_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Before the trigger exists, since it would keep the stored created_at
+UPDATE public.halal_confirmations
+SET created_at = least(created_at, now()),
+    updated_at = least(updated_at, now())
+WHERE created_at > now() OR updated_at > now();
+
+CREATE TRIGGER set_halal_confirmation_timestamps
+  BEFORE INSERT OR UPDATE ON public.halal_confirmations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_halal_confirmation_timestamps();
@@ -0,0 +1,100 @@
+-- Hidden reviews keep their photos to themselves.
+-- A hidden review's photos are only visible where the review is (its author and
+-- moderators), and they leave the restaurant gallery until the review is unhidden.
+
+-- Photos follow their review; the reviews SELECT policy applies inside the check
+DROP POLICY "Review images are viewable by everyone" ON public.review_images;
+
+CREATE POLICY "Images of visible reviews are viewable by everyone"
+  ON public.review_images FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.reviews r WHERE r.id = review_id));
+
+-- Photos of reviews hidden before this migration
+DELETE FROM public.restaurant_images
+WHERE url IN (
+  SELECT ri.url
+  FROM public.review_images ri
+  JOIN public.reviews r ON r.id = ri.review_id
+  WHERE r.hidden_at IS NOT NULL
+);
+
+-- Hiding takes the review's photos out of the restaurant gallery and any unhide, not only
+-- the release of a held review, puts them back.
+CREATE OR REPLACE FUNCTION public.moderate_review(
+  _review_id UUID,
+  _action public.review_moderation_action,
+  _note TEXT DEFAULT NULL
+)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.reviews%ROWTYPE;
+  image_urls TEXT[] := '{}';
+  resolved_count INTEGER;
+BEGIN
+  IF NOT public.can_moderate(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and moderators can moderate reviews';
+  END IF;
+
+  SELECT * INTO target FROM public.reviews WHERE id = _review_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+
+  SELECT coalesce(array_agg(url), '{}') INTO image_urls
+  FROM public.review_images
+  WHERE review_id = _review_id;
+
+  UPDATE public.review_reports
+  SET status = CASE WHEN _action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END::public.review_report_status,
+      resolved_at = now(),
+      resolved_by = auth.uid()
+  WHERE review_id = _review_id AND status = 'pending';
+  GET DIAGNOSTICS resolved_count = ROW_COUNT;
+
+  INSERT INTO public.review_moderation_log (
+    review_id, restaurant_id, review_author_id, actor_id, action, note, resolved_report_count, review_snapshot
+  ) VALUES (
+    target.id,
+    target.restaurant_id,
+    target.user_id,
+    auth.uid(),
+    _action,
+    nullif(btrim(_note), ''),
+    resolved_count,
+    jsonb_build_object(
+      'rating', target.rating,
+      'comment', target.comment,
+      'held_reason', target.held_reason,
+      'created_at', target.created_at,
+      'image_urls', to_jsonb(image_urls),
+      'reports', (
+        SELECT coalesce(jsonb_agg(jsonb_build_object('reason', rr.reason, 'details', rr.details, 'created_at', rr.created_at)), '[]')
+        FROM public.review_reports rr
+        WHERE rr.review_id = _review_id
+      )
+    )
+  );
+
+  IF _action = 'hide' THEN
+    UPDATE public.reviews SET hidden_at = now(), hidden_by = auth.uid(), held_reason = NULL WHERE id = _review_id;
+    DELETE FROM public.restaurant_images WHERE url = ANY(image_urls);
+  ELSIF _action = 'unhide' THEN
+    UPDATE public.reviews SET hidden_at = NULL, hidden_by = NULL, held_reason = NULL WHERE id = _review_id;
+    INSERT INTO public.restaurant_images (restaurant_id, url, uploaded_by, is_primary)
+    SELECT target.restaurant_id, photo.url, target.user_id, false
+    FROM unnest(image_urls) AS photo(url)
+    WHERE NOT EXISTS (SELECT 1 FROM public.restaurant_images x WHERE x.url = photo.url);
+  ELSIF _action = 'delete' THEN
+    DELETE FROM public.restaurant_images WHERE url = ANY(image_urls);
+    -- review_images, helpful votes, responses and reports cascade
+    DELETE FROM public.reviews WHERE id = _review_id;
+    RETURN image_urls;
+  END IF;
+
+  RETURN '{}';
+END;
+$$;
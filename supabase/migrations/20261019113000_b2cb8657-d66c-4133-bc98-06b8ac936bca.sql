@@ -0,0 +1,112 @@
+-- Single-use moderation tokens bound to the stored photo.
+-- The database can't hash an uploaded file, so /moderate-review now uploads photos itself
+-- once they pass and signs the URL it stored them at; image rows must use exactly that URL
+-- instead of carrying the image hash in their file name. Each token is accepted once per
+-- table, so a token can't be replayed for other rows while it is still valid.
+
+-- Token ids already used, kept until the token expires
+CREATE TABLE public.consumed_moderation_tokens (
+  jti UUID NOT NULL,
+  table_name TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (jti, table_name)
+);
+
+CREATE INDEX idx_consumed_moderation_tokens_expires_at ON public.consumed_moderation_tokens(expires_at);
+
+-- Only the moderation token triggers touch it
+ALTER TABLE public.consumed_moderation_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Like read_moderation_token, but each token is only accepted once for the given table.
+-- A row inserted with a token that turns out not to fit rolls the use back with it.
+CREATE OR REPLACE FUNCTION public.use_moderation_token(_token TEXT, _type TEXT, _table TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payload JSONB;
+BEGIN
+  payload := public.read_moderation_token(_token, _type);
+  IF payload IS NULL OR payload->>'jti' IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.consumed_moderation_tokens WHERE expires_at < now();
+
+  INSERT INTO public.consumed_moderation_tokens (jti, table_name, expires_at)
+  VALUES ((payload->>'jti')::UUID, _table, to_timestamp((payload->>'exp')::BIGINT))
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN payload;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.use_moderation_token(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- New text needs a token for exactly that text; rating-only edits don't
+CREATE OR REPLACE FUNCTION public.require_review_moderation_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payload JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.comment IS DISTINCT FROM OLD.comment THEN
+    payload := public.use_moderation_token(NEW.moderation_token, 'review', TG_TABLE_NAME);
+
+    IF payload IS NULL OR payload->>'sha' <> encode(extensions.digest(coalesce(NEW.comment, ''), 'sha256'), 'hex') THEN
+      RAISE EXCEPTION 'Review text has not passed moderation' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- protect_review_moderation_state runs first and hides reviews posted with a held_reason
+    IF payload->>'verdict' = 'held' AND NEW.hidden_at IS NULL THEN
+      RAISE EXCEPTION 'This review has to be held for a moderator' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.moderation_token := NULL;
+  RETURN NEW;
+END;
+$$;
+
+-- Shared by review_images and restaurant_images
+CREATE OR REPLACE FUNCTION public.require_image_moderation_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payload JSONB;
+BEGIN
+  IF NOT public.can_moderate(auth.uid()) THEN
+    -- review_images and restaurant_images each take the photo's token once
+    payload := public.use_moderation_token(NEW.moderation_token, 'image_only', TG_TABLE_NAME);
+
+    IF payload IS NULL OR payload->>'url' IS DISTINCT FROM NEW.url THEN
+      RAISE EXCEPTION 'Image has not passed moderation' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- A held photo can only be attached to a held review, never go straight to the gallery
+    IF payload->>'verdict' = 'held' THEN
+      IF TG_TABLE_NAME <> 'review_images' THEN
+        RAISE EXCEPTION 'This image has to be held for a moderator' USING ERRCODE = 'check_violation';
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM public.reviews r WHERE r.id = NEW.review_id AND r.held_reason IS NOT NULL) THEN
+        RAISE EXCEPTION 'This image has to be held for a moderator' USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  END IF;
+
+  NEW.moderation_token := NULL;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,30 @@
+-- Rejected images are kept by moderate-review, not uploaded with the appeal.
+-- An image attached to an appeal was never checked against the decision's content_hash,
+-- so a harmless image could stand in for the one that was blocked. The function now
+-- stores the rejected bytes itself in the moderation-appeals bucket under the decision,
+-- and users no longer upload to the bucket. Images already attached to appeals stay in
+-- the bucket but are no longer shown to moderators.
+
+-- Rejected image as it was checked, in the moderation-appeals bucket
+ALTER TABLE public.moderation_decisions ADD COLUMN image_path TEXT;
+
+DROP POLICY "Users can appeal rejections of their own content" ON public.moderation_appeals;
+
+ALTER TABLE public.moderation_appeals DROP COLUMN image_path;
+
+CREATE POLICY "Users can appeal rejections of their own content"
+  ON public.moderation_appeals FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND resolved_at IS NULL
+    AND resolved_by IS NULL
+    AND resolution_note IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.moderation_decisions d
+      WHERE d.id = decision_id AND d.user_id = auth.uid() AND d.verdict = 'rejected'
+    )
+  );
+
+-- Only the moderate-review function writes to the bucket now
+DROP POLICY "Users can upload images they appeal" ON storage.objects;
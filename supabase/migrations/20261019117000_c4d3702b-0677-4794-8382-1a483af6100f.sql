@@ -0,0 +1,28 @@
+-- Helpful votes stop being public. Anyone could list who voted for which review; now users
+-- only read their own votes, and everyone gets the per-review counts from
+-- review_helpful_counts, which never returns voters.
+
+DROP POLICY "Review helpful votes are viewable by everyone" ON public.review_helpful_votes;
+
+CREATE POLICY "Users can view their own helpful votes"
+  ON public.review_helpful_votes FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Runs as the owner to count every vote; reviews without votes are left out
+CREATE OR REPLACE FUNCTION public.review_helpful_counts(_review_ids UUID[])
+RETURNS TABLE (
+  review_id UUID,
+  helpful_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT v.review_id, count(*) AS helpful_count
+  FROM public.review_helpful_votes v
+  WHERE v.review_id = ANY(_review_ids)
+  GROUP BY v.review_id
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_helpful_counts(UUID[]) TO anon, authenticated;
@@ -0,0 +1,73 @@
+-- Moderation tokens are bound to the user they were issued to. /moderate-review signs the
+-- caller's id as sub; a token is only accepted from that user, for rows that are theirs, so
+-- one user's token can't be used to post content as or for someone else.
+
+-- New text needs a token for exactly that text; rating-only edits don't
+CREATE OR REPLACE FUNCTION public.require_review_moderation_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payload JSONB;
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.comment IS DISTINCT FROM OLD.comment THEN
+    payload := public.use_moderation_token(NEW.moderation_token, 'review', TG_TABLE_NAME);
+
+    IF payload IS NULL
+      OR payload->>'sha' <> encode(extensions.digest(coalesce(NEW.comment, ''), 'sha256'), 'hex')
+      OR payload->>'sub' IS DISTINCT FROM auth.uid()::TEXT
+      OR payload->>'sub' IS DISTINCT FROM NEW.user_id::TEXT
+    THEN
+      RAISE EXCEPTION 'Review text has not passed moderation' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- protect_review_moderation_state runs first and hides reviews posted with a held_reason
+    IF payload->>'verdict' = 'held' AND NEW.hidden_at IS NULL THEN
+      RAISE EXCEPTION 'This review has to be held for a moderator' USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.moderation_token := NULL;
+  RETURN NEW;
+END;
+$$;
+
+-- Shared by review_images and restaurant_images
+CREATE OR REPLACE FUNCTION public.require_image_moderation_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payload JSONB;
+BEGIN
+  IF NOT public.can_moderate(auth.uid()) THEN
+    -- review_images and restaurant_images each take the photo's token once
+    payload := public.use_moderation_token(NEW.moderation_token, 'image_only', TG_TABLE_NAME);
+
+    IF payload IS NULL
+      OR payload->>'url' IS DISTINCT FROM NEW.url
+      OR payload->>'sub' IS DISTINCT FROM auth.uid()::TEXT
+      OR payload->>'sub' IS DISTINCT FROM NEW.uploaded_by::TEXT
+    THEN
+      RAISE EXCEPTION 'Image has not passed moderation' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- A held photo can only be attached to a held review, never go straight to the gallery
+    IF payload->>'verdict' = 'held' THEN
+      IF TG_TABLE_NAME <> 'review_images' THEN
+        RAISE EXCEPTION 'This image has to be held for a moderator' USING ERRCODE = 'check_violation';
+      END IF;
+      IF NOT EXISTS (SELECT 1 FROM public.reviews r WHERE r.id = NEW.review_id AND r.held_reason IS NOT NULL) THEN
+        RAISE EXCEPTION 'This image has to be held for a moderator' USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  END IF;
+
+  NEW.moderation_token := NULL;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,89 @@
+-- Held review photos stay private, and uploads nothing uses are swept.
+-- /moderate-review uploads the photos of a review held for a moderator to the private
+-- held-review-images bucket, at the path they'll have in restaurant-images, and signs that
+-- restaurant-images URL. It serves nothing until a moderator releases the review and the
+-- admin page moves the files across; until then moderators and the author see them through
+-- signed URLs.
+--
+-- Photos are uploaded before their review_images or restaurant_images row exists, so some
+-- never get one (the review wasn't posted, or its token expired). The sweep-moderated-images
+-- edge function removes those through the Storage API; the job calls it with the project URL
+-- and service role key from the vault, like the timezone backfill.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'held-review-images',
+  'held-review-images',
+  false,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Moderators can view held review images"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'held-review-images' AND public.can_moderate(auth.uid()));
+
+-- Files are stored as moderated/<user id>/<file>
+CREATE POLICY "Users can view their own held review images"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'held-review-images' AND (storage.foldername(name))[2] = auth.uid()::text);
+
+-- Releasing a review moves its photos to the same path in restaurant-images
+CREATE POLICY "Moderators can release held review images"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'held-review-images' AND public.can_moderate(auth.uid()))
+WITH CHECK (bucket_id = 'restaurant-images' AND public.can_moderate(auth.uid()));
+
+CREATE POLICY "Moderators can delete held review images"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'held-review-images' AND public.can_moderate(auth.uid()));
+
+-- Files the function uploaded that no row uses. Tokens last 15 minutes, so after an hour
+-- an upload without a row can't get one any more.
+CREATE OR REPLACE FUNCTION public.orphaned_moderated_images(_limit INTEGER DEFAULT 500)
+RETURNS TABLE (bucket_id TEXT, name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE o.bucket_id IN ('restaurant-images', 'held-review-images')
+    AND o.name LIKE 'moderated/%'
+    AND o.created_at < now() - interval '1 hour'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.review_images ri
+      WHERE split_part(ri.url, '/object/public/restaurant-images/', 2) = o.name
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.restaurant_images ri
+      WHERE split_part(ri.url, '/object/public/restaurant-images/', 2) = o.name
+    )
+  ORDER BY o.created_at
+  LIMIT _limit
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.orphaned_moderated_images(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.orphaned_moderated_images(INTEGER) TO service_role;
+
+-- Used tokens are dropped here too, not only when the next token is used
+SELECT cron.schedule(
+  'sweep-moderated-images',
+  '*/30 * * * *',
+  $$
+    DELETE FROM public.consumed_moderation_tokens WHERE expires_at < now();
+
+    SELECT net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+        || '/functions/v1/sweep-moderated-images',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := '{}'::jsonb
+    )
+    WHERE EXISTS (SELECT 1 FROM public.orphaned_moderated_images(1));
+  $$
+);